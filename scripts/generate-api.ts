@@ -0,0 +1,66 @@
+/**
+ * Generate typed API services from a local OpenAPI 3 document (JSON or YAML)
+ *
+ * Usage:
+ *   npm run api:generate -- --input openapi.yaml [--output src/packages/api/generated]
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, relative, resolve } from 'node:path';
+import { load } from 'js-yaml';
+import {
+  generateApiFromOpenApi,
+  type OpenApiDocument,
+} from '../src/packages/api/codegen/openapi';
+
+const API_PACKAGE_DIR = 'src/packages/api';
+const DEFAULT_OUTPUT_DIR = `${API_PACKAGE_DIR}/generated`;
+
+function parseArgs(argv: string[]): { input: string; output: string } {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(\w+)(?:=(.*))?$/);
+    if (match) {
+      args[match[1]] = match[2] ?? argv[++i];
+    }
+  }
+
+  if (!args.input) {
+    throw new Error('Missing --input <openapi.json|openapi.yaml>');
+  }
+
+  return { input: args.input, output: args.output ?? DEFAULT_OUTPUT_DIR };
+}
+
+function readDocument(file: string): OpenApiDocument {
+  const content = readFileSync(file, 'utf-8');
+  const ext = extname(file).toLowerCase();
+  return (ext === '.yaml' || ext === '.yml' ? load(content) : JSON.parse(content)) as OpenApiDocument;
+}
+
+function main(): void {
+  const { input, output } = parseArgs(process.argv.slice(2));
+  const outputDir = resolve(output);
+
+  // Import path from <output>/services to the api package
+  const apiImportPath = relative(join(outputDir, 'services'), resolve(API_PACKAGE_DIR))
+    .split('\\')
+    .join('/');
+
+  const files = generateApiFromOpenApi(readDocument(resolve(input)), { apiImportPath });
+
+  Object.entries(files).forEach(([file, content]) => {
+    const target = join(outputDir, file);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  });
+
+  console.log(`[api:generate] ${Object.keys(files).length} files written to ${relative(process.cwd(), outputDir)}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`[api:generate] ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
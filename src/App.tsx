@@ -4,7 +4,7 @@
 
 import { useState, useEffect } from 'react';
 import { ThemeProvider } from './packages/theme';
-import { AuthProvider } from './packages/auth';
+import { AuthProvider, Can } from './packages/auth';
 import { ToastContainer } from './packages/ui';
 import { InterstitialAd } from './packages/ui/components/InterstitialAd';
 import { GoogleInterstitialAd } from './packages/ui/components/GoogleInterstitialAd';
@@ -14,6 +14,7 @@ import { ProfilePage } from './app/pages/ProfilePage';
 import { AdManagementPage } from './app/pages/AdManagementPage';
 import { config } from './app/config';
 import { adApi, type AdConfig } from './packages/api/services/ad';
+import { ApiError, OFFLINE_QUEUED_ERROR_CODE } from './packages/api';
 
 function App() {
   const [activeTab, setActiveTab] = useState('home');
@@ -76,6 +77,8 @@ function App() {
       });
       console.log('Ad impression tracked:', adConfig.id);
     } catch (error) {
+      // 오프라인이면 큐에 저장되어 온라인 복귀 시 전송됨
+      if (error instanceof ApiError && error.code === OFFLINE_QUEUED_ERROR_CODE) return;
       console.error('Failed to record ad impression:', error);
     }
   };
@@ -92,6 +95,7 @@ function App() {
       });
       console.log('Ad click tracked:', adConfig.id);
     } catch (error) {
+      if (error instanceof ApiError && error.code === OFFLINE_QUEUED_ERROR_CODE) return;
       console.error('Failed to record ad click:', error);
     }
   };
@@ -103,7 +107,11 @@ function App() {
       case 'profile':
         return <ProfilePage />;
       case 'admin-ads':
-        return <AdManagementPage />;
+        return (
+          <Can permission="ads:write" fallback={<HomePage />}>
+            <AdManagementPage />
+          </Can>
+        );
       default:
         return <HomePage />;
     }
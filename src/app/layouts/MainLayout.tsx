@@ -4,9 +4,11 @@
 
 import { type ReactNode } from 'react';
 import { motion } from 'framer-motion';
-import { Home, Search, Bell, User, type LucideIcon } from 'lucide-react';
+import { Home, Search, Bell, User, Megaphone, type LucideIcon } from 'lucide-react';
 import { useTheme } from '../../packages/theme';
 import { cn } from '../../packages/utils';
+import { useAccessCheck } from '../../packages/hooks';
+import type { AccessGuard } from '../../packages/auth';
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -19,12 +21,14 @@ interface NavItem {
   id: string;
   label: string;
   icon: LucideIcon;
+  guard?: AccessGuard;
 }
 
 const navItems: NavItem[] = [
   { id: 'home', label: '홈', icon: Home },
   { id: 'search', label: '검색', icon: Search },
   { id: 'notifications', label: '알림', icon: Bell },
+  { id: 'admin-ads', label: '광고', icon: Megaphone, guard: { permission: 'ads:write' } },
   { id: 'profile', label: '프로필', icon: User },
 ];
 
@@ -35,6 +39,7 @@ export function MainLayout({
   showNavigation = true,
 }: MainLayoutProps) {
   const { isDark } = useTheme();
+  const canAccess = useAccessCheck();
 
   return (
     <div className={cn(
@@ -57,19 +62,23 @@ export function MainLayout({
             {navItems.map((item) => {
               const Icon = item.icon;
               const isActive = activeTab === item.id;
+              const allowed = canAccess(item.guard);
+              if (!allowed && item.guard?.whenDenied !== 'disable') return null;
 
               return (
                 <motion.button
                   key={item.id}
                   onClick={() => onTabChange?.(item.id)}
+                  disabled={!allowed}
                   className={cn(
                     'flex flex-col items-center justify-center gap-1 w-16 py-2',
                     'transition-colors',
                     isActive
                       ? 'text-primary-500'
-                      : isDark ? 'text-gray-500' : 'text-gray-400'
+                      : isDark ? 'text-gray-500' : 'text-gray-400',
+                    !allowed && 'opacity-40 cursor-not-allowed'
                   )}
-                  whileTap={{ scale: 0.9 }}
+                  whileTap={allowed ? { scale: 0.9 } : undefined}
                 >
                   <Icon className="w-5 h-5" />
                   <span className="text-[10px] font-medium">{item.label}</span>
@@ -2,17 +2,22 @@
  * AdManagementPage - 광고 관리 페이지 (관리자 전용)
  */
 
-import { useState, useEffect } from 'react';
-import { adApi, type AdConfig, type AdStatistics } from '../../packages/api/services/ad';
+import { useState } from 'react';
+import { adApi, adQueryKeys, type AdConfig, type AdStatistics } from '../../packages/api/services/ad';
+import { useQuery, useMutation, useUpload } from '../../packages/api/useApi';
 import { Button } from '../../packages/ui/components/Button';
 import { Modal } from '../../packages/ui/components/Modal';
 import { Input } from '../../packages/ui/components/Input';
 import { AppCard } from '../../packages/ui/components/AppCard';
 import { Badge } from '../../packages/ui/components/Badge';
 
+// 5MB 이상 이미지는 청크로 나눠 업로드 (네트워크 끊김 시 이어서 전송)
+const CREATIVE_CHUNK_SIZE = 5 * 1024 * 1024;
+
 export function AdManagementPage() {
-  const [ads, setAds] = useState<AdConfig[]>([]);
-  const [loading, setLoading] = useState(false);
+  const { data: ads, loading } = useQuery(adQueryKeys.active(), adApi.getActiveAds, {
+    onError: (error) => console.error('Failed to fetch ads:', error),
+  });
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedAd, setSelectedAd] = useState<AdConfig | null>(null);
   const [statistics, setStatistics] = useState<AdStatistics[]>([]);
@@ -27,17 +32,22 @@ export function AdManagementPage() {
     priority: 0,
   });
 
-  // 광고 목록 조회
-  const fetchAds = async () => {
-    setLoading(true);
-    try {
-      const data = await adApi.getActiveAds();
-      setAds(data);
-    } catch (error) {
-      console.error('Failed to fetch ads:', error);
-    } finally {
-      setLoading(false);
-    }
+  // 광고 이미지 업로드 (완료되면 imageUrl로 사용)
+  const creativeUpload = useUpload(adApi.uploadCreative, {
+    chunkSize: CREATIVE_CHUNK_SIZE,
+    onSuccess: (result) => setFormData((prev) => ({ ...prev, imageUrl: result.url })),
+    onError: (error) => {
+      console.error('Failed to upload creative:', error);
+      alert('이미지 업로드에 실패했습니다.');
+    },
+  });
+  const creative = creativeUpload.items[creativeUpload.items.length - 1];
+
+  const handleSelectCreative = (file?: File) => {
+    if (!file) return;
+    creativeUpload.reset();
+    setFormData((prev) => ({ ...prev, imageUrl: '' }));
+    creativeUpload.upload(file);
   };
 
   // 광고 생성
@@ -45,7 +55,6 @@ export function AdManagementPage() {
     try {
       await adApi.createAdConfig(formData);
       setShowCreateModal(false);
-      fetchAds();
       resetForm();
       alert('광고가 생성되었습니다.');
     } catch (error) {
@@ -54,18 +63,22 @@ export function AdManagementPage() {
     }
   };
 
-  // 광고 삭제
-  const handleDeleteAd = async (id: string) => {
-    if (!confirm('정말로 이 광고를 삭제하시겠습니까?')) return;
-
-    try {
-      await adApi.deleteAdConfig(id);
-      fetchAds();
-      alert('광고가 삭제되었습니다.');
-    } catch (error) {
+  // 광고 삭제 (목록에서 즉시 제거, 실패 시 복구)
+  const deleteAd = useMutation((id: string) => adApi.deleteAdConfig(id), {
+    optimisticUpdate: {
+      queryKey: adQueryKeys.active(),
+      updater: (prev: AdConfig[] | undefined, id) => (prev ?? []).filter((ad) => ad.id !== id),
+    },
+    onSuccess: () => alert('광고가 삭제되었습니다.'),
+    onError: (error) => {
       console.error('Failed to delete ad:', error);
       alert('광고 삭제에 실패했습니다.');
-    }
+    },
+  });
+
+  const handleDeleteAd = (id: string) => {
+    if (!confirm('정말로 이 광고를 삭제하시겠습니까?')) return;
+    deleteAd.mutate(id);
   };
 
   // 광고 통계 조회
@@ -79,7 +92,22 @@ export function AdManagementPage() {
     }
   };
 
+  // 광고 통계 파일 내보내기 (Content-Disposition 파일명으로 저장)
+  const [exporting, setExporting] = useState(false);
+  const handleExportStatistics = async (ad: AdConfig) => {
+    setExporting(true);
+    try {
+      await adApi.exportStatistics(ad.id, { format: 'csv' });
+    } catch (error) {
+      console.error('Failed to export statistics:', error);
+      alert('통계 내보내기에 실패했습니다.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const resetForm = () => {
+    creativeUpload.reset();
     setFormData({
       type: 'INTERSTITIAL',
       imageUrl: '',
@@ -90,10 +118,6 @@ export function AdManagementPage() {
     });
   };
 
-  useEffect(() => {
-    fetchAds();
-  }, []);
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-dark-bg p-6">
       <div className="max-w-6xl mx-auto">
@@ -112,7 +136,7 @@ export function AdManagementPage() {
           <div className="text-center py-12">
             <div className="text-gray-500">로딩 중...</div>
           </div>
-        ) : ads.length === 0 ? (
+        ) : !ads || ads.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-500">등록된 광고가 없습니다.</div>
           </div>
@@ -200,13 +224,50 @@ export function AdManagementPage() {
               </select>
             </div>
 
-            <Input
-              label="광고 이미지 URL *"
-              value={formData.imageUrl}
-              onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
-              placeholder="https://example.com/ad-image.jpg"
-              required
-            />
+            <div>
+              <label className="block text-sm font-medium mb-1">광고 이미지 *</label>
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => handleSelectCreative(e.target.files?.[0])}
+                className="w-full text-sm"
+              />
+              {creative && (
+                <div className="mt-2 space-y-1">
+                  <div className="h-2 bg-gray-200 dark:bg-white/10 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary-500 transition-all"
+                      style={{ width: `${creative.progress.percent}%` }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      {creative.status === 'uploading' && `업로드 중... ${creative.progress.percent}%`}
+                      {creative.status === 'success' && '업로드 완료'}
+                      {creative.status === 'error' && '업로드 실패'}
+                      {creative.status === 'cancelled' && '업로드 취소됨'}
+                    </span>
+                    {creative.status === 'uploading' && (
+                      <button type="button" onClick={() => creativeUpload.cancel(creative.id)}>
+                        취소
+                      </button>
+                    )}
+                    {(creative.status === 'error' || creative.status === 'cancelled') && (
+                      <button type="button" onClick={() => creativeUpload.retry(creative.id)}>
+                        다시 시도
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {formData.imageUrl && (
+                <img
+                  src={formData.imageUrl}
+                  alt="광고 이미지 미리보기"
+                  className="mt-2 w-full h-40 object-cover rounded-lg"
+                />
+              )}
+            </div>
 
             <Input
               label="클릭 URL"
@@ -250,7 +311,7 @@ export function AdManagementPage() {
               </Button>
               <Button
                 onClick={handleCreateAd}
-                disabled={!formData.imageUrl}
+                disabled={!formData.imageUrl || creativeUpload.uploading}
                 className="flex-1"
               >
                 추가
@@ -270,6 +331,18 @@ export function AdManagementPage() {
           size="lg"
         >
           <div className="space-y-4">
+            {selectedAd && (
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleExportStatistics(selectedAd)}
+                  disabled={exporting}
+                >
+                  {exporting ? '내보내는 중...' : 'CSV 내보내기'}
+                </Button>
+              </div>
+            )}
             {statistics.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 통계 데이터가 없습니다.
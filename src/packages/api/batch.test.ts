@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { createApiClient, type ApiClientConfig } from './client';
+import { ApiError, ABORTED_ERROR_CODE } from './errors';
+import type { BatchRequestItem } from './batch';
+import type { RequestOptions } from './http';
+
+const baseConfig: ApiClientConfig = {
+  baseURL: 'http://localhost:8080',
+  getAccessToken: () => 'token',
+  getRefreshToken: () => null,
+  setTokens: vi.fn(),
+  clearTokens: vi.fn(),
+  middlewares: ['dedupe', 'batch', 'auth'],
+  batch: { window: 5 },
+};
+
+const batched: RequestOptions = { batch: true };
+const noDedupe: RequestOptions = { dedupe: false };
+
+const respond = (config: InternalAxiosRequestConfig, data: unknown, status = 200) =>
+  Promise.resolve({ data, status, statusText: '', headers: {}, config });
+
+const createClient = (adapter: AxiosAdapter) => {
+  const client = createApiClient(baseConfig);
+  client.defaults.adapter = adapter;
+  return client;
+};
+
+describe('dedupe', () => {
+  it('진행 중인 동일 GET 요청은 한 번만 전송', async () => {
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) =>
+      respond(config, { success: true, data: config.params })
+    );
+    const client = createClient(adapter);
+
+    const [a, b] = await Promise.all([
+      client.get('/api/users', { params: { page: 0, size: 10 } }),
+      client.get('/api/users', { params: { size: 10, page: 0 } }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(a.data).toEqual(b.data);
+    expect(a).not.toBe(b);
+  });
+
+  it('파라미터가 다르거나 dedupe: false면 각각 전송', async () => {
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => respond(config, { data: null }));
+    const client = createClient(adapter);
+
+    await Promise.all([
+      client.get('/api/users', { params: { page: 0 } }),
+      client.get('/api/users', { params: { page: 1 } }),
+      client.get('/api/users', { params: { page: 1 }, ...noDedupe }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+
+  it('한 호출자의 취소는 공유 요청에 영향 없음', async () => {
+    let resolveRequest: () => void = () => {};
+    const adapter = vi.fn(
+      (config: InternalAxiosRequestConfig) =>
+        new Promise((resolve) => {
+          resolveRequest = () => resolve(respond(config, { data: 'ok' }));
+        })
+    ) as unknown as AxiosAdapter;
+    const client = createClient(adapter);
+    const controller = new AbortController();
+
+    const aborted = client.get('/api/users', { signal: controller.signal });
+    const other = client.get('/api/users');
+    await vi.waitFor(() => expect(adapter).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ code: ABORTED_ERROR_CODE });
+
+    resolveRequest();
+    await expect(other).resolves.toMatchObject({ data: { data: 'ok' } });
+  });
+
+  it('모든 호출자가 취소하면 공유 요청도 취소', async () => {
+    const adapter = vi.fn(
+      (config: InternalAxiosRequestConfig) =>
+        new Promise((_, reject) => {
+          config.signal?.addEventListener?.('abort', () => reject(new Error('aborted')));
+        })
+    ) as unknown as AxiosAdapter;
+    const client = createClient(adapter);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const requests = [
+      client.get('/api/users', { signal: first.signal }),
+      client.get('/api/users', { signal: second.signal }),
+    ];
+    await vi.waitFor(() => expect(adapter).toHaveBeenCalledTimes(1));
+    const sharedSignal = vi.mocked(adapter).mock.calls[0][0].signal as AbortSignal;
+
+    first.abort();
+    await expect(requests[0]).rejects.toMatchObject({ code: ABORTED_ERROR_CODE });
+    expect(sharedSignal.aborted).toBe(false);
+
+    second.abort();
+    await expect(requests[1]).rejects.toMatchObject({ code: ABORTED_ERROR_CODE });
+    expect(sharedSignal.aborted).toBe(true);
+  });
+
+  it('헤더가 다르면 각각 전송', async () => {
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) =>
+      respond(config, { success: true, data: config.headers['X-Tenant'] })
+    );
+    const client = createClient(adapter);
+
+    const [a, b] = await Promise.all([
+      client.get('/api/users', { headers: { 'X-Tenant': 'a' } }),
+      client.get('/api/users', { headers: { 'X-Tenant': 'b' } }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect([a.data.data, b.data.data]).toEqual(['a', 'b']);
+  });
+});
+
+describe('batch', () => {
+  it('window 안의 요청을 하나의 batch 요청으로 보내고 응답을 분배', async () => {
+    const adapter = vi.fn((config: InternalAxiosRequestConfig) => {
+      const { requests } = JSON.parse(config.data) as { requests: BatchRequestItem[] };
+      return respond(config, {
+        success: true,
+        data: requests.map((request) =>
+          request.url.startsWith('/api/missing')
+            ? {
+                id: request.id,
+                status: 404,
+                body: { status: 404, code: 'U001', message: 'Not found', timestamp: '', path: request.url },
+              }
+            : { id: request.id, status: 200, body: { success: true, data: request } }
+        ),
+      });
+    });
+    const client = createClient(adapter);
+
+    const results = await Promise.allSettled([
+      client.get('/api/users/1', batched),
+      client.post('/api/events', { type: 'VIEW' }, batched),
+      client.get('/api/missing', { params: { q: 'x' }, ...batched }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    const [batchConfig] = adapter.mock.calls[0];
+    expect(batchConfig.url).toBe('/api/batch');
+    expect(batchConfig.headers.Authorization).toBe('Bearer token');
+    expect(JSON.parse(batchConfig.data).requests).toEqual([
+      { id: '0', method: 'GET', url: '/api/users/1' },
+      { id: '1', method: 'POST', url: '/api/events', body: { type: 'VIEW' } },
+      { id: '2', method: 'GET', url: '/api/missing?q=x' },
+    ]);
+
+    expect(results[0]).toMatchObject({ status: 'fulfilled', value: { status: 200 } });
+    expect(results[1]).toMatchObject({
+      status: 'fulfilled',
+      value: { data: { data: { method: 'POST', body: { type: 'VIEW' } } } },
+    });
+    expect(results[2].status).toBe('rejected');
+    const error = (results[2] as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, code: 'U001' });
+  });
+
+  it('batch 요청 자체가 실패하면 호출자마다 별도의 에러로 reject', async () => {
+    const adapter = vi.fn(() => Promise.reject(new Error('boom'))) as unknown as AxiosAdapter;
+    const client = createClient(adapter);
+
+    const results = await Promise.allSettled([
+      client.get('/api/a', batched),
+      client.get('/api/b', batched),
+    ]);
+
+    const [a, b] = results.map((result) => (result as PromiseRejectedResult).reason);
+    expect(a).toBeInstanceOf(ApiError);
+    expect(b).toBeInstanceOf(ApiError);
+    expect(a).not.toBe(b);
+    expect([a.path, b.path]).toEqual(['/api/a', '/api/b']);
+  });
+});
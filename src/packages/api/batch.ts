@@ -0,0 +1,363 @@
+/**
+ * Request Batching & Deduplication
+ *
+ * - RequestDeduper: 동일한 GET 요청이 진행 중이면 같은 네트워크 요청을 공유
+ * - RequestBatcher: batch: true 요청을 짧은 시간 동안 모아 하나의 batch 요청으로 전송
+ *
+ * 두 기능 모두 axios adapter를 감싸는 방식이라 응답/에러 미들웨어(refresh, retry 등)는
+ * 호출자마다 각자의 config로 실행됩니다.
+ *
+ * Batch 서버 계약 (POST /api/batch):
+ * - Request: { requests: [{ id, method, url, body? }] }
+ * - Response: ApiResponse<[{ id, status, body, headers? }]> (body는 개별 요청의 응답 본문)
+ */
+
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { ApiError, toApiError } from './errors';
+import { hashQueryKey } from './queryCache';
+import type { ApiResponse } from './types';
+
+export interface BatchConfig {
+  /** Batch endpoint (default: '/api/batch') */
+  endpoint?: string;
+  /** Time window in ms to collect requests (default: 10) */
+  window?: number;
+  /** Max requests per batch - flushes immediately when reached (default: 20) */
+  maxBatchSize?: number;
+}
+
+export interface BatchRequestItem {
+  id: string;
+  method: string;
+  /** Path including query string */
+  url: string;
+  body?: unknown;
+}
+
+export interface BatchResponseItem {
+  id: string;
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+type BatchRequestConfig = InternalAxiosRequestConfig & {
+  _deduped?: boolean;
+  _batched?: boolean;
+};
+
+interface SharedRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  /** Callers still waiting on the response */
+  callers: number;
+}
+
+interface PendingBatchRequest {
+  config: InternalAxiosRequestConfig;
+  resolve: (response: AxiosResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULT_BATCH_CONFIG = {
+  endpoint: '/api/batch',
+  window: 10,
+  maxBatchSize: 20,
+};
+
+/** Underlying adapter (xhr/fetch) for a request config */
+function getBaseAdapter(config: InternalAxiosRequestConfig): AxiosAdapter {
+  return typeof config.adapter === 'function'
+    ? config.adapter
+    : axios.getAdapter(config.adapter ?? axios.defaults.adapter);
+}
+
+/** Re-bind an adapter error to the caller's config (each caller gets its own error) */
+function rebindError(error: unknown, config: InternalAxiosRequestConfig): unknown {
+  if (error instanceof ApiError) {
+    return new ApiError({
+      status: error.status,
+      code: error.code,
+      message: error.message,
+      timestamp: new Date().toISOString(),
+      path: config.url || '',
+      errors: error.errors,
+    });
+  }
+  if (error instanceof AxiosError) {
+    return AxiosError.from(error, error.code, config, error.request, error.response && {
+      ...error.response,
+      config,
+    });
+  }
+  return error;
+}
+
+/**
+ * Reject when the caller's own signal aborts
+ * @param onAbort - called once on abort (e.g., 공유 요청의 호출자 수 감소)
+ */
+function withSignal<T>(
+  promise: Promise<T>,
+  config: InternalAxiosRequestConfig,
+  onAbort?: () => void
+): Promise<T> {
+  const signal = config.signal as AbortSignal | undefined;
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      reject(new CanceledError(undefined, undefined, config));
+      onAbort?.();
+    };
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/** Header values with lower-cased names (custom middleware / 호출별 헤더 포함) */
+function normalizeHeaders(headers: InternalAxiosRequestConfig['headers']): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  Object.entries(AxiosHeaders.from(headers ?? {}).toJSON()).forEach(([name, value]) => {
+    if (value !== undefined && value !== null && value !== false) {
+      normalized[name.toLowerCase()] = String(value);
+    }
+  });
+  return normalized;
+}
+
+function buildRequestPath(config: InternalAxiosRequestConfig): string {
+  const params = (config.params ?? {}) as Record<string, unknown>;
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) search.append(key, String(value));
+  });
+
+  const query = search.toString();
+  const url = config.url || '';
+  return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Share one network request between identical in-flight GETs
+ * 모든 호출자가 취소하면 공유 요청도 중단합니다.
+ */
+export class RequestDeduper {
+  private inFlight: Map<string, SharedRequest> = new Map();
+
+  /**
+   * Dedupe key (null if the request is not dedupable)
+   * 헤더가 하나라도 다르면 (tenant, locale, Authorization 등) 다른 요청으로 취급
+   */
+  getKey(config: InternalAxiosRequestConfig): string | null {
+    if ((config.method || 'get').toLowerCase() !== 'get') return null;
+
+    return hashQueryKey([
+      config.baseURL,
+      config.url,
+      config.params,
+      config.responseType,
+      normalizeHeaders(config.headers),
+    ]);
+  }
+
+  /** Wrap the request adapter so identical requests share one response */
+  wrap(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    const batchConfig = config as BatchRequestConfig;
+    // 재요청(refresh/retry)은 같은 config를 재사용하므로 한 번만 감쌈
+    if (batchConfig._deduped || !this.getKey(config)) return config;
+    batchConfig._deduped = true;
+
+    const baseAdapter = getBaseAdapter(config);
+
+    config.adapter = (requestConfig) => {
+      const key = this.getKey(requestConfig) as string;
+      const shared = this.inFlight.get(key) ?? this.start(key, requestConfig, baseAdapter);
+      shared.callers++;
+
+      return withSignal(
+        shared.promise.then(
+          (response) => ({ ...response, config: requestConfig }),
+          (error) => Promise.reject(rebindError(error, requestConfig))
+        ),
+        requestConfig,
+        () => this.release(key, shared)
+      );
+    };
+
+    return config;
+  }
+
+  /** Number of in-flight shared requests */
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  private start(
+    key: string,
+    config: InternalAxiosRequestConfig,
+    baseAdapter: AxiosAdapter
+  ): SharedRequest {
+    // 개별 호출자의 취소가 공유 요청을 끊지 않도록 호출자 signal 대신 공유 controller 사용
+    const controller = new AbortController();
+    const shared: SharedRequest = {
+      promise: baseAdapter({ ...config, signal: controller.signal, cancelToken: undefined }),
+      controller,
+      callers: 0,
+    };
+    this.inFlight.set(key, shared);
+
+    const cleanup = () => {
+      if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+    };
+    shared.promise.then(cleanup, cleanup);
+    return shared;
+  }
+
+  /** A caller aborted - 마지막 호출자면 네트워크 요청도 취소 */
+  private release(key: string, shared: SharedRequest): void {
+    shared.callers--;
+    if (shared.callers > 0) return;
+
+    if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+    shared.controller.abort();
+  }
+}
+
+/**
+ * Collect requests within a time window and send them as one batch request
+ */
+export class RequestBatcher {
+  private config: typeof DEFAULT_BATCH_CONFIG;
+  private queue: PendingBatchRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private client: AxiosInstance | null = null;
+
+  constructor(config: BatchConfig = {}) {
+    this.config = { ...DEFAULT_BATCH_CONFIG, ...config };
+  }
+
+  /** Client used to send the batch request (set by batchMiddleware) */
+  setClient(client: AxiosInstance): void {
+    this.client = client;
+  }
+
+  /** Wrap the request adapter so it is sent as part of a batch */
+  wrap(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    const batchConfig = config as BatchRequestConfig;
+    if (batchConfig._batched) return config;
+    batchConfig._batched = true;
+
+    config.adapter = (requestConfig) =>
+      withSignal(
+        new Promise<AxiosResponse>((resolve, reject) => {
+          this.queue.push({ config: requestConfig, resolve, reject });
+
+          if (this.queue.length >= this.config.maxBatchSize) {
+            this.flush();
+          } else if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.config.window);
+          }
+        }),
+        requestConfig
+      );
+
+    return config;
+  }
+
+  /** Send queued requests now */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const entries = this.queue.splice(0);
+    if (entries.length === 0) return;
+
+    if (!this.client) {
+      entries.forEach((entry) => entry.reject(new Error('RequestBatcher client not set')));
+      return;
+    }
+
+    const requests: BatchRequestItem[] = entries.map((entry, index) => ({
+      id: String(index),
+      method: (entry.config.method || 'get').toUpperCase(),
+      url: buildRequestPath(entry.config),
+      body: parseBody(entry.config.data),
+    }));
+
+    try {
+      const response = await this.client.post<ApiResponse<BatchResponseItem[]>>(
+        this.config.endpoint,
+        { requests }
+      );
+      const results = new Map(response.data.data.map((item) => [item.id, item]));
+
+      entries.forEach((entry, index) => {
+        const result = results.get(String(index));
+        if (!result) {
+          entry.reject(
+            new AxiosError('Missing response in batch', AxiosError.ERR_BAD_RESPONSE, entry.config)
+          );
+          return;
+        }
+        this.settle(entry, result);
+      });
+    } catch (err) {
+      // Batch request itself failed - every caller gets its own copy of the error
+      const error = toApiError(err);
+      entries.forEach((entry) => entry.reject(rebindError(error, entry.config)));
+    }
+  }
+
+  private settle(entry: PendingBatchRequest, result: BatchResponseItem): void {
+    const response: AxiosResponse = {
+      data: result.body,
+      status: result.status,
+      statusText: '',
+      headers: result.headers ?? {},
+      config: entry.config,
+      request: null,
+    };
+
+    const validateStatus =
+      entry.config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+
+    if (validateStatus(result.status)) {
+      entry.resolve(response);
+      return;
+    }
+
+    entry.reject(
+      new AxiosError(
+        `Request failed with status code ${result.status}`,
+        result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        entry.config,
+        null,
+        response
+      )
+    );
+  }
+}
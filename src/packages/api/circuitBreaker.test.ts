@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, parseRetryAfter } from './circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getKey', () => {
+    it('경로 앞 두 세그먼트를 키로 사용', () => {
+      expect(breaker.getKey('/api/ads/123?x=1')).toBe('/api/ads');
+      expect(breaker.getKey('http://localhost:8080/api/health/ping')).toBe('/api/health');
+    });
+
+    it('일치하는 패턴이 있으면 패턴을 키로 사용', () => {
+      const patterned = new CircuitBreaker({ patterns: ['/api/ads/statistics'] });
+      expect(patterned.getKey('/api/ads/statistics/daily')).toBe('/api/ads/statistics');
+    });
+  });
+
+  describe('state transitions', () => {
+    it('연속 실패가 임계값에 도달하면 open', () => {
+      breaker.recordFailure('/api/ads', 500);
+      expect(breaker.getState('/api/ads')).toBe('closed');
+
+      breaker.recordFailure('/api/ads', 500);
+      expect(breaker.getState('/api/ads')).toBe('open');
+      expect(breaker.acquire('/api/ads')).toBeGreaterThan(0);
+    });
+
+    it('실패 대상이 아닌 상태 코드는 무시', () => {
+      breaker.recordFailure('/api/ads', 404);
+      breaker.recordFailure('/api/ads', 404);
+      expect(breaker.getState('/api/ads')).toBe('closed');
+    });
+
+    it('cooldown 후 half-open에서 시험 요청 성공 시 closed', () => {
+      breaker.recordFailure('/api/ads');
+      breaker.recordFailure('/api/ads');
+      vi.advanceTimersByTime(1000);
+
+      expect(breaker.acquire('/api/ads')).toBe(0);
+      expect(breaker.getState('/api/ads')).toBe('half-open');
+      // 시험 요청은 1개만 허용
+      expect(breaker.acquire('/api/ads')).toBeGreaterThan(0);
+
+      breaker.recordSuccess('/api/ads');
+      expect(breaker.getState('/api/ads')).toBe('closed');
+    });
+
+    it('half-open에서 실패하면 다시 open', () => {
+      breaker.recordFailure('/api/ads');
+      breaker.recordFailure('/api/ads');
+      vi.advanceTimersByTime(1000);
+      breaker.acquire('/api/ads');
+
+      breaker.recordFailure('/api/ads', 503);
+      expect(breaker.getState('/api/ads')).toBe('open');
+    });
+
+    it('half-open 시험 요청이 404면 슬롯을 반환하고 closed', () => {
+      breaker.recordFailure('/api/ads');
+      breaker.recordFailure('/api/ads');
+      vi.advanceTimersByTime(1000);
+      breaker.acquire('/api/ads');
+
+      breaker.recordFailure('/api/ads', 404);
+      expect(breaker.getState('/api/ads')).toBe('closed');
+      expect(breaker.acquire('/api/ads')).toBe(0);
+    });
+
+    it('release로 결과 없이 끝난 시험 요청의 슬롯 반환', () => {
+      breaker.recordFailure('/api/ads');
+      breaker.recordFailure('/api/ads');
+      vi.advanceTimersByTime(1000);
+      breaker.acquire('/api/ads');
+      expect(breaker.acquire('/api/ads')).toBeGreaterThan(0);
+
+      breaker.release('/api/ads');
+      expect(breaker.getState('/api/ads')).toBe('half-open');
+      expect(breaker.acquire('/api/ads')).toBe(0);
+    });
+
+    it('Retry-After가 있으면 해당 시간 동안 open', () => {
+      breaker.recordFailure('/api/ads', 429, 5000);
+      expect(breaker.getState('/api/ads')).toBe('open');
+
+      vi.advanceTimersByTime(4000);
+      expect(breaker.getState('/api/ads')).toBe('open');
+    });
+
+    it('상태 변경 시 리스너 호출', () => {
+      const listener = vi.fn();
+      breaker.onStateChange(listener);
+
+      breaker.recordFailure('/api/ads');
+      breaker.recordFailure('/api/ads');
+
+      expect(listener).toHaveBeenCalledWith('/api/ads', 'open');
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('초 단위 값을 ms로 변환', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('잘못된 값은 null', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Circuit Breaker - Fail fast when an endpoint keeps failing
+ *
+ * - closed: 정상 요청
+ * - open: 요청을 보내지 않고 즉시 실패 (cooldown 또는 Retry-After 동안)
+ * - half-open: cooldown 후 시험 요청을 허용, 성공 시 closed / 실패 시 다시 open
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before opening (default: 5) */
+  failureThreshold?: number;
+  /** Time in ms the circuit stays open before half-open (default: 30000) */
+  cooldown?: number;
+  /** Trial requests allowed while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** HTTP status codes counted as failures (network errors always count) */
+  failureStatuses?: number[];
+  /**
+   * Endpoint patterns used as circuit keys
+   * 일치하는 패턴이 없으면 경로의 앞 두 세그먼트를 키로 사용 (e.g., /api/ads/1 → /api/ads)
+   */
+  patterns?: Array<string | RegExp>;
+}
+
+type StateChangeHandler = (key: string, state: CircuitState) => void;
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openUntil: number;
+  halfOpenRequests: number;
+}
+
+const DEFAULT_CIRCUIT_CONFIG = {
+  failureThreshold: 5,
+  cooldown: 30000,
+  halfOpenMaxRequests: 1,
+  failureStatuses: [429, 500, 502, 503, 504],
+  patterns: [] as Array<string | RegExp>,
+};
+
+/**
+ * Parse Retry-After header (seconds or HTTP date) to milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Circuit breaker with one circuit per endpoint key
+ */
+export class CircuitBreaker {
+  private config: typeof DEFAULT_CIRCUIT_CONFIG;
+  private circuits: Map<string, Circuit> = new Map();
+  private listeners: Set<StateChangeHandler> = new Set();
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_CONFIG, ...config };
+  }
+
+  /** Resolve circuit key from request URL */
+  getKey(url = ''): string {
+    const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+
+    for (const pattern of this.config.patterns) {
+      if (typeof pattern === 'string' ? path.startsWith(pattern) : pattern.test(path)) {
+        return pattern.toString();
+      }
+    }
+
+    const segments = path.split('/').filter(Boolean).slice(0, 2);
+    return `/${segments.join('/')}`;
+  }
+
+  /**
+   * Check if a request may be sent
+   * @returns remaining open time in ms (0 if allowed)
+   */
+  acquire(key: string): number {
+    const circuit = this.getCircuit(key);
+
+    if (circuit.state === 'open') {
+      const remaining = circuit.openUntil - Date.now();
+      if (remaining > 0) return remaining;
+      this.transition(key, circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.halfOpenRequests >= this.config.halfOpenMaxRequests) {
+        return this.config.cooldown;
+      }
+      circuit.halfOpenRequests++;
+    }
+
+    return 0;
+  }
+
+  /** Record successful response */
+  recordSuccess(key: string): void {
+    const circuit = this.getCircuit(key);
+    circuit.failures = 0;
+    if (circuit.state !== 'closed') {
+      this.transition(key, circuit, 'closed');
+    }
+  }
+
+  /**
+   * Record failed response
+   * failureStatuses가 아닌 에러 응답(400, 404 등)은 서버가 응답한 것이므로 성공으로 처리합니다.
+   * @param status - HTTP status (undefined for network errors)
+   * @param retryAfter - Retry-After in ms (opens the circuit for that long)
+   */
+  recordFailure(key: string, status?: number, retryAfter?: number | null): void {
+    if (status !== undefined && !this.config.failureStatuses.includes(status)) {
+      this.recordSuccess(key);
+      return;
+    }
+
+    const circuit = this.getCircuit(key);
+    circuit.failures++;
+
+    if (retryAfter) {
+      this.open(key, circuit, retryAfter);
+    } else if (circuit.state === 'half-open' || circuit.failures >= this.config.failureThreshold) {
+      this.open(key, circuit, this.config.cooldown);
+    }
+  }
+
+  /** Release a half-open slot without a result (e.g., cancelled trial request) */
+  release(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit?.state === 'half-open' && circuit.halfOpenRequests > 0) {
+      circuit.halfOpenRequests--;
+    }
+  }
+
+  /** Get circuit state */
+  getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit) return 'closed';
+    // open → half-open 전환은 다음 요청 시 적용되므로 조회 시점에 반영
+    if (circuit.state === 'open' && circuit.openUntil <= Date.now()) return 'half-open';
+    return circuit.state;
+  }
+
+  /** Get all circuit states */
+  getStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    this.circuits.forEach((_, key) => {
+      states[key] = this.getState(key);
+    });
+    return states;
+  }
+
+  /** Listen to state changes */
+  onStateChange(handler: StateChangeHandler): () => void {
+    this.listeners.add(handler);
+    return () => this.listeners.delete(handler);
+  }
+
+  /** Reset one circuit or all circuits */
+  reset(key?: string): void {
+    const keys = key ? [key] : Array.from(this.circuits.keys());
+    keys.forEach((k) => {
+      const circuit = this.circuits.get(k);
+      if (circuit) {
+        circuit.failures = 0;
+        this.transition(k, circuit, 'closed');
+      }
+    });
+  }
+
+  // === Private Methods ===
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, openUntil: 0, halfOpenRequests: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private open(key: string, circuit: Circuit, duration: number): void {
+    circuit.openUntil = Date.now() + duration;
+    this.transition(key, circuit, 'open');
+  }
+
+  private transition(key: string, circuit: Circuit, state: CircuitState): void {
+    circuit.halfOpenRequests = 0;
+    if (circuit.state === state) return;
+    circuit.state = state;
+    this.listeners.forEach((handler) => handler(key, state));
+  }
+}
+
+// Shared instance (all API clients in this tab)
+export const circuitBreaker = new CircuitBreaker();
@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import axios from 'axios';
-import { createApiClient, ApiError, type ApiClientConfig } from './client';
+import {
+  createApiClient,
+  getApiClient,
+  initializeApiClient,
+  removeApiClient,
+  ApiError,
+  type ApiClientConfig,
+} from './client';
 
 // Mock axios
 vi.mock('axios', async () => {
@@ -140,6 +147,36 @@ describe('API Client', () => {
   });
 });
 
+describe('Named clients', () => {
+  const config: ApiClientConfig = {
+    baseURL: 'http://localhost:8080',
+    getAccessToken: () => null,
+    getRefreshToken: () => null,
+    setTokens: vi.fn(),
+    clearTokens: vi.fn(),
+  };
+
+  it('이름별로 클라이언트를 등록하고 조회', () => {
+    const main = initializeApiClient(config);
+    const analytics = initializeApiClient('analytics', { ...config, baseURL: 'http://analytics' });
+
+    expect(getApiClient()).toBe(main);
+    expect(getApiClient('default')).toBe(main);
+    expect(getApiClient('analytics')).toBe(analytics);
+    expect(analytics).not.toBe(main);
+    expect(axios.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ baseURL: 'http://analytics' })
+    );
+  });
+
+  it('등록되지 않은 이름은 에러', () => {
+    initializeApiClient('temp', config);
+    removeApiClient('temp');
+
+    expect(() => getApiClient('temp')).toThrow('API client "temp" not initialized');
+  });
+});
+
 describe('Token Management', () => {
   let getAccessToken: ReturnType<typeof vi.fn>;
   let getRefreshToken: ReturnType<typeof vi.fn>;
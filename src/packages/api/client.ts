@@ -1,10 +1,25 @@
 /**
- * API Client - Axios-based HTTP client with interceptors
+ * API Client - Axios-based HTTP client with middleware pipeline
  */
 
 import axios, { AxiosError } from 'axios';
-import type { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
-import type { ApiResponse, ErrorResponse, RefreshTokenResponse } from './types';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { ErrorResponse } from './types';
+import { ApiError, createAbortedError } from './errors';
+import type { CircuitBreaker } from './circuitBreaker';
+import type { OfflineQueue } from './offlineQueue';
+import type { BatchConfig } from './batch';
+import { RefreshCoordinator } from './refreshCoordinator';
+import {
+  createRefreshRecovery,
+  createTokenRefresher,
+  resolveMiddlewares,
+  runMiddlewareChain,
+  type ApiMiddleware,
+  type BuiltInMiddleware,
+  type MiddlewareContext,
+  type RetryBudget,
+} from './middleware';
 
 // Configuration
 export interface ApiClientConfig {
@@ -12,197 +27,134 @@ export interface ApiClientConfig {
   timeout?: number;
   getAccessToken: () => string | null;
   getRefreshToken: () => string | null;
-  setTokens: (accessToken: string, refreshToken?: string) => void;
+  /** expiresIn: access token 만료까지 남은 시간(초, refresh 응답에 있을 때) */
+  setTokens: (accessToken: string, refreshToken?: string, expiresIn?: number) => void;
   clearTokens: () => void;
   onUnauthorized?: () => void;
-  /** Token refresh 엔드포인트 (기본: /api/auth/refresh) */
+  /**
+   * Refresh 실패 시 재로그인 (새 access token, 포기하면 null)
+   * 설정하면 토큰을 바로 지우지 않고 기다렸다가 실패한 요청을 새 토큰으로 재전송합니다.
+   */
+  reauthenticate?: () => Promise<string | null>;
+  /** Token refresh 엔드포인트 (기본: /api/auth/refresh, 다른 서버면 절대 URL) */
   refreshEndpoint?: string;
+  /**
+   * Refresh token 전달 방식 (기본: 'body')
+   * 'cookie': httpOnly 쿠키로 전달 - body 없이 refresh 요청, 모든 요청에 withCredentials 적용
+   */
+  refreshTokenMode?: 'body' | 'cookie';
+  /** Refresh single-flight 공유 (같은 auth store를 쓰는 클라이언트끼리 공유, 기본: 클라이언트별) */
+  refreshCoordinator?: RefreshCoordinator;
   // Retry configuration
   retry?: {
     maxRetries?: number; // 최대 재시도 횟수 (기본: 3)
     retryDelay?: number; // 기본 재시도 지연 시간 ms (기본: 1000)
     retryOn?: number[]; // 재시도할 HTTP 상태 코드 (기본: [408, 500, 502, 503, 504])
+    // 재시도 예산 (기본: 모든 클라이언트가 공유하는 retryBudget, 10초에 10회)
+    // 설정 객체를 넘기면 이 클라이언트 전용 예산, RetryBudget 인스턴스를 넘기면 해당 예산을 공유
+    budget?: RetryBudget | { maxRetries: number; window: number };
   };
+  /** Circuit breaker instance (기본: 공유 인스턴스) */
+  circuitBreaker?: CircuitBreaker;
+  /** Offline mutation queue (기본: 공유 인스턴스) */
+  offlineQueue?: OfflineQueue;
+  /** Batch mode settings for requests with batch: true (기본: /api/batch, 10ms window) */
+  batch?: BatchConfig;
+  /**
+   * Middleware pipeline (기본: ['dedupe', 'batch', 'idempotency', 'offline', 'auth', 'circuitBreaker', 'refresh', 'retry'])
+   * 내장 미들웨어는 이름으로 지정하며, 순서 변경/제외/커스텀 미들웨어 추가가 가능합니다.
+   */
+  middlewares?: Array<ApiMiddleware | BuiltInMiddleware>;
 }
 
-// Retry configuration defaults
-const DEFAULT_RETRY_CONFIG = {
-  maxRetries: 3,
-  retryDelay: 1000,
-  retryOn: [408, 500, 502, 503, 504], // Request Timeout, Server errors
-};
-
-// Calculate delay with exponential backoff
-function calculateRetryDelay(retryCount: number, baseDelay: number): number {
-  // Exponential backoff: 1s, 2s, 4s, ...
-  const exponentialDelay = baseDelay * Math.pow(2, retryCount - 1);
-  // Add jitter (±20%) to prevent thundering herd
-  const jitter = exponentialDelay * 0.2 * (Math.random() - 0.5);
-  return Math.min(exponentialDelay + jitter, 30000); // Max 30 seconds
+// Re-export error helpers (public API)
+export {
+  ApiError,
+  ABORTED_ERROR_CODE,
+  CIRCUIT_OPEN_ERROR_CODE,
+  OFFLINE_QUEUED_ERROR_CODE,
+  SCHEMA_MISMATCH_ERROR_CODE,
+  isAbortError,
+  toApiError,
+} from './errors';
+
+// Axios instance with middleware support
+export interface ApiClient extends AxiosInstance {
+  /** Append middleware to the pipeline (returns remove function) */
+  use: (middleware: ApiMiddleware) => () => void;
+  /**
+   * Refresh access token now (proactive refresh)
+   * 진행 중인 refresh가 있으면 합쳐지고, 완료될 때까지 다른 요청은 대기합니다.
+   */
+  refreshAccessToken: () => Promise<string>;
 }
 
-// Sleep utility
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Custom error class
-export class ApiError extends Error {
-  public status: number;
-  public code: string;
-  public path?: string;
-  public errors?: Array<{ field: string; value: string; reason: string }>;
-
-  constructor(errorResponse: ErrorResponse) {
-    super(errorResponse.message);
-    this.name = 'ApiError';
-    this.status = errorResponse.status;
-    this.code = errorResponse.code;
-    this.path = errorResponse.path;
-    this.errors = errorResponse.errors;
-  }
-}
-
-// Default refresh endpoint
-const DEFAULT_REFRESH_ENDPOINT = '/api/auth/refresh';
-
-// Create API client factory
-export function createApiClient(config: ApiClientConfig): AxiosInstance {
-  const retryConfig = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
-  const refreshEndpoint = config.refreshEndpoint ?? DEFAULT_REFRESH_ENDPOINT;
-
+// Create API client factory (name: 오프라인 큐 재전송 등에서 클라이언트를 식별)
+export function createApiClient(config: ApiClientConfig, name: string = DEFAULT_CLIENT_NAME): ApiClient {
   const client = axios.create({
     baseURL: config.baseURL,
     timeout: config.timeout || 30000,
     headers: {
       'Content-Type': 'application/json',
     },
-  });
+    ...(config.refreshTokenMode === 'cookie' && { withCredentials: true }),
+  }) as ApiClient;
+
+  // auth/refresh 미들웨어와 refreshAccessToken이 같은 coordinator를 공유
+  const refreshCoordinator = config.refreshCoordinator ?? new RefreshCoordinator();
+  const middlewares = resolveMiddlewares({ ...config, refreshCoordinator });
+  const ctx: MiddlewareContext = { client, clientName: name };
+  const refresh = createTokenRefresher(config);
+  const recover = createRefreshRecovery(config);
+
+  client.refreshAccessToken = () => refreshCoordinator.run(() => refresh(client), recover);
+
+  client.use = (middleware: ApiMiddleware) => {
+    middlewares.push(middleware);
+    return () => {
+      const index = middlewares.indexOf(middleware);
+      if (index !== -1) middlewares.splice(index, 1);
+    };
+  };
 
-  // Request interceptor - Add auth token
+  // Request interceptor - Run onRequest middlewares
   client.interceptors.request.use(
-    (requestConfig: InternalAxiosRequestConfig) => {
-      const token = config.getAccessToken();
-      if (token) {
-        requestConfig.headers.Authorization = `Bearer ${token}`;
-      }
-      return requestConfig;
-    },
+    (requestConfig: InternalAxiosRequestConfig) =>
+      runMiddlewareChain(
+        middlewares.flatMap((m) => (m.onRequest ? [m.onRequest] : [])),
+        requestConfig,
+        (finalConfig) => Promise.resolve(finalConfig),
+        ctx
+      ),
     (error) => Promise.reject(error)
   );
 
-  // Response interceptor - Handle errors and token refresh
-  let isRefreshing = false;
-  let failedQueue: Array<{
-    resolve: (value: unknown) => void;
-    reject: (error: unknown) => void;
-    config: AxiosRequestConfig;
-  }> = [];
-
-  const processQueue = (error: Error | null, token: string | null = null) => {
-    failedQueue.forEach(({ resolve, reject, config }) => {
-      if (error) {
-        reject(error);
-      } else if (token) {
-        config.headers = { ...config.headers, Authorization: `Bearer ${token}` };
-        resolve(client(config));
-      }
-    });
-    failedQueue = [];
-  };
-
+  // Response interceptor - Run onResponse / onError middlewares
   client.interceptors.response.use(
-    (response) => response,
-    async (error: AxiosError<ErrorResponse>) => {
-      const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
-
-      // Handle 401 Unauthorized
-      if (error.response?.status === 401 && !originalRequest._retry) {
-        // Skip refresh for auth endpoints
-        if (originalRequest.url?.includes('/auth/login') ||
-            originalRequest.url?.includes('/auth/refresh')) {
-          config.clearTokens();
-          config.onUnauthorized?.();
-          return Promise.reject(error);
-        }
-
-        if (isRefreshing) {
-          // Queue the request while refreshing
-          return new Promise((resolve, reject) => {
-            failedQueue.push({ resolve, reject, config: originalRequest });
-          });
-        }
-
-        originalRequest._retry = true;
-        isRefreshing = true;
-
-        try {
-          const refreshToken = config.getRefreshToken();
-          if (!refreshToken) {
-            throw new Error('No refresh token available');
-          }
-
-          // 설정된 클라이언트를 사용하여 refresh 요청 (인터셉터 적용)
-          const response = await client.post<ApiResponse<RefreshTokenResponse>>(
-            refreshEndpoint,
-            { refreshToken }
-          );
-
-          const { accessToken } = response.data.data;
-          config.setTokens(accessToken);
-
-          originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-          processQueue(null, accessToken);
-
-          return client(originalRequest);
-        } catch (refreshError) {
-          processQueue(refreshError as Error);
-          config.clearTokens();
-          config.onUnauthorized?.();
-          return Promise.reject(refreshError);
-        } finally {
-          isRefreshing = false;
-        }
+    (response: AxiosResponse) =>
+      runMiddlewareChain(
+        middlewares.flatMap((m) => (m.onResponse ? [m.onResponse] : [])),
+        response,
+        (finalResponse) => Promise.resolve(finalResponse),
+        ctx
+      ),
+    (error: AxiosError<ErrorResponse>) => {
+      // Cancelled request - skip middlewares (onCancel만 호출)
+      if (axios.isCancel(error)) {
+        middlewares.forEach((m) => m.onCancel?.(error.config, ctx));
+        return Promise.reject(createAbortedError(error.config?.url));
       }
 
-      // Retry logic for network errors and specific status codes
-      const retryCount = (originalRequest as InternalAxiosRequestConfig & { _retryCount?: number })._retryCount || 0;
-      const shouldRetry =
-        retryCount < retryConfig.maxRetries &&
-        (
-          // Network error (no response)
-          !error.response ||
-          // Specific status codes
-          (error.response?.status && retryConfig.retryOn.includes(error.response.status))
-        ) &&
-        // Don't retry POST/PUT/PATCH by default (not idempotent) unless explicitly safe
-        (!['POST', 'PUT', 'PATCH'].includes(originalRequest.method?.toUpperCase() || '') ||
-          originalRequest.headers?.['X-Idempotent'] === 'true');
-
-      if (shouldRetry) {
-        (originalRequest as InternalAxiosRequestConfig & { _retryCount?: number })._retryCount = retryCount + 1;
-        const delay = calculateRetryDelay(retryCount + 1, retryConfig.retryDelay);
-
-        console.warn(
-          `[API] Retry ${retryCount + 1}/${retryConfig.maxRetries} after ${Math.round(delay)}ms for ${originalRequest.url}`
-        );
-
-        await sleep(delay);
-        return client(originalRequest);
+      // Already transformed (e.g., thrown by an onRequest middleware)
+      if (error instanceof ApiError) {
+        return Promise.reject(error);
       }
 
-      // Transform error response
-      if (error.response?.data) {
-        return Promise.reject(new ApiError(error.response.data));
-      }
-
-      // Network or other errors
-      return Promise.reject(
-        new ApiError({
-          status: error.response?.status || 0,
-          code: 'NETWORK_ERROR',
-          message: error.message || 'Network error occurred',
-          timestamp: new Date().toISOString(),
-          path: originalRequest?.url || '',
-        })
+      return runMiddlewareChain(
+        middlewares.flatMap((m) => (m.onError ? [m.onError] : [])),
+        error,
+        transformError,
+        ctx
       );
     }
   );
@@ -210,17 +162,88 @@ export function createApiClient(config: ApiClientConfig): AxiosInstance {
   return client;
 }
 
-// Default instance holder
-let defaultClient: AxiosInstance | null = null;
+// Parse error body of blob/text/arraybuffer requests (http.getRaw, http.download)
+async function readErrorBody(data: unknown): Promise<ErrorResponse | null> {
+  if (!data) return null;
+
+  try {
+    if (data instanceof Blob) return JSON.parse(await data.text());
+    if (data instanceof ArrayBuffer) return JSON.parse(new TextDecoder().decode(data));
+    if (typeof data === 'string') return JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  return data as ErrorResponse;
+}
+
+// Transform unhandled error to ApiError
+async function transformError(error: AxiosError<ErrorResponse>): Promise<never> {
+  if (!axios.isAxiosError(error)) {
+    return Promise.reject(error);
+  }
+
+  const data = await readErrorBody(error.response?.data);
+  if (data) {
+    return Promise.reject(new ApiError(data));
+  }
 
-export function getApiClient(): AxiosInstance {
-  if (!defaultClient) {
-    throw new Error('API client not initialized. Call initializeApiClient first.');
+  // Network or other errors
+  return Promise.reject(
+    new ApiError({
+      status: error.response?.status || 0,
+      code: 'NETWORK_ERROR',
+      message: error.message || 'Network error occurred',
+      timestamp: new Date().toISOString(),
+      path: error.config?.url || '',
+    })
+  );
+}
+
+// Named client registry
+export const DEFAULT_CLIENT_NAME = 'default';
+
+const clients = new Map<string, ApiClient>();
+
+/**
+ * Get initialized client by name (기본: 'default')
+ */
+export function getApiClient(name: string = DEFAULT_CLIENT_NAME): ApiClient {
+  const client = clients.get(name);
+  if (!client) {
+    throw new Error(
+      name === DEFAULT_CLIENT_NAME
+        ? 'API client not initialized. Call initializeApiClient first.'
+        : `API client "${name}" not initialized. Call initializeApiClient('${name}', config) first.`
+    );
   }
-  return defaultClient;
+  return client;
+}
+
+/**
+ * Create and register a client
+ * initializeApiClient(config) → 'default', initializeApiClient('analytics', config) → named client
+ */
+export function initializeApiClient(config: ApiClientConfig): ApiClient;
+export function initializeApiClient(name: string, config: ApiClientConfig): ApiClient;
+export function initializeApiClient(
+  nameOrConfig: string | ApiClientConfig,
+  maybeConfig?: ApiClientConfig
+): ApiClient {
+  const [name, config] =
+    typeof nameOrConfig === 'string'
+      ? [nameOrConfig, maybeConfig as ApiClientConfig]
+      : [DEFAULT_CLIENT_NAME, nameOrConfig];
+
+  const client = createApiClient(config, name);
+  clients.set(name, client);
+  return client;
+}
+
+export function hasApiClient(name: string = DEFAULT_CLIENT_NAME): boolean {
+  return clients.has(name);
 }
 
-export function initializeApiClient(config: ApiClientConfig): AxiosInstance {
-  defaultClient = createApiClient(config);
-  return defaultClient;
+export function removeApiClient(name: string): boolean {
+  return clients.delete(name);
 }
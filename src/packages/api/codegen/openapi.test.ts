@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { generateApiFromOpenApi, type OpenApiDocument } from './openapi';
+
+const envelope = (data: object) => ({
+  type: 'object',
+  properties: { success: { type: 'boolean' }, code: { type: 'string' }, data },
+});
+
+const doc: OpenApiDocument = {
+  openapi: '3.0.1',
+  info: { title: 'Sample API', version: 'v1' },
+  'x-error-codes': {
+    INVALID_INPUT_VALUE: 'C001',
+    EXPIRED_TOKEN: { code: 'A002', description: 'Access token expired' },
+  },
+  paths: {
+    '/api/ads': {
+      get: {
+        tags: ['ad-controller'],
+        operationId: 'getAds',
+        parameters: [{ name: 'page', in: 'query', schema: { type: 'integer' } }],
+        responses: {
+          '200': { content: { '*/*': { schema: { $ref: '#/components/schemas/ApiResponsePageResponseAdConfig' } } } },
+        },
+      },
+      post: {
+        tags: ['ad-controller'],
+        operationId: 'createAdConfig',
+        summary: 'Create ad configuration',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/AdConfigCreateRequest' } } },
+        },
+        responses: {
+          '200': { content: { '*/*': { schema: { $ref: '#/components/schemas/ApiResponseAdConfig' } } } },
+        },
+      },
+    },
+    '/api/ads/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      delete: {
+        tags: ['ad-controller'],
+        operationId: 'deleteAdConfig',
+        responses: {
+          '200': { content: { '*/*': { schema: { $ref: '#/components/schemas/ApiResponseString' } } } },
+        },
+      },
+    },
+    '/api/health/ping': {
+      get: {
+        tags: ['Health'],
+        operationId: 'ping',
+        responses: { '200': { content: { 'text/plain': { schema: { type: 'string' } } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      AdType: { type: 'string', enum: ['INTERSTITIAL', 'BANNER'] },
+      AdConfig: {
+        type: 'object',
+        required: ['id', 'type'],
+        properties: {
+          id: { type: 'string' },
+          type: { $ref: '#/components/schemas/AdType' },
+          endDate: { type: 'string', format: 'date-time', nullable: true },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      AdConfigCreateRequest: {
+        type: 'object',
+        required: ['type'],
+        properties: { type: { $ref: '#/components/schemas/AdType' }, priority: { type: 'integer' } },
+      },
+      ApiResponseAdConfig: envelope({ $ref: '#/components/schemas/AdConfig' }),
+      ApiResponseString: envelope({ type: 'string' }),
+      PageResponseAdConfig: {
+        type: 'object',
+        properties: {
+          content: { type: 'array', items: { $ref: '#/components/schemas/AdConfig' } },
+          totalElements: { type: 'integer' },
+          totalPages: { type: 'integer' },
+        },
+      },
+      ApiResponsePageResponseAdConfig: envelope({ $ref: '#/components/schemas/PageResponseAdConfig' }),
+    },
+  },
+};
+
+describe('generateApiFromOpenApi', () => {
+  const files = generateApiFromOpenApi(doc);
+
+  it('모델/에러코드/서비스/index 파일 생성', () => {
+    expect(Object.keys(files).sort()).toEqual([
+      'errorCodes.ts',
+      'index.ts',
+      'models.ts',
+      'services/ad.ts',
+      'services/health.ts',
+    ]);
+  });
+
+  it('DTO interface 생성 (envelope/page 스키마 제외)', () => {
+    const models = files['models.ts'];
+
+    expect(models).toContain("export type AdType = 'INTERSTITIAL' | 'BANNER';");
+    expect(models).toContain('export interface AdConfig {');
+    expect(models).toContain('  type: AdType;');
+    expect(models).toContain('  endDate?: string | null;');
+    expect(models).toContain('  tags?: string[];');
+    expect(models).not.toContain('ApiResponseAdConfig');
+    expect(models).not.toContain('PageResponseAdConfig');
+  });
+
+  it('ErrorCodes 상수 생성', () => {
+    expect(files['errorCodes.ts']).toContain("  INVALID_INPUT_VALUE: 'C001',");
+    expect(files['errorCodes.ts']).toContain("  /** Access token expired */\n  EXPIRED_TOKEN: 'A002',");
+  });
+
+  it('tag별 서비스 생성 (ApiResponse unwrap, PageResponse 매핑)', () => {
+    const ad = files['services/ad.ts'];
+
+    expect(ad).toContain("const AD_BASE = '/api/ads';");
+    expect(ad).toContain('export const adApi = {');
+    expect(ad).toContain("import type { AdConfig, AdConfigCreateRequest } from '../models';");
+    expect(ad).toContain('): Promise<PageResponse<AdConfig>> => {');
+    expect(ad).toContain('{ params, ...options }');
+    expect(ad).toContain('    request: AdConfigCreateRequest,\n');
+    expect(ad).toContain('deleteAdConfig: async (id: string, options?: RequestOptions): Promise<string> => {');
+    expect(ad).toContain('`${AD_BASE}/${id}`');
+  });
+
+  it('envelope가 아닌 응답은 response.data 반환', () => {
+    const health = files['services/health.ts'];
+
+    expect(health).toContain("const HEALTH_BASE = '/api/health';");
+    expect(health).toContain('getApiClient().get<string>(');
+    expect(health).toContain('`${HEALTH_BASE}/ping`');
+    expect(health).toContain('return response.data;');
+  });
+
+  it('body가 있는 DELETE는 data와 함께 options를 전달', () => {
+    const ad = generateApiFromOpenApi({
+      ...doc,
+      paths: {
+        '/api/ads/bulk': {
+          delete: {
+            tags: ['ad-controller'],
+            operationId: 'deleteAds',
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } },
+            },
+            responses: { '200': { content: { '*/*': { schema: { $ref: '#/components/schemas/ApiResponseString' } } } } },
+          },
+        },
+      },
+    })['services/ad.ts'];
+
+    expect(ad).toContain('{ data: request, ...options }');
+  });
+
+  it('OpenAPI 3.x가 아니면 에러', () => {
+    expect(() => generateApiFromOpenApi({ openapi: '2.0' })).toThrow('Unsupported OpenAPI version');
+  });
+});
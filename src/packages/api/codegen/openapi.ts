@@ -0,0 +1,537 @@
+/**
+ * OpenAPI Codegen - Generate typed API services from an OpenAPI 3 document
+ *
+ * 출력 파일 (output 디렉터리 기준):
+ * - models.ts: components.schemas → DTO interfaces
+ * - errorCodes.ts: x-error-codes → ErrorCodes constants
+ * - services/{tag}.ts: tag별 서비스 객체 (adApi 스타일)
+ * - index.ts: public exports
+ *
+ * ApiResponse<T> envelope와 PageResponse<T> 형태의 스키마는 기존 타입으로 매핑됩니다.
+ * 파일 입출력은 scripts/generate-api.ts 에서 처리합니다.
+ */
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: Array<string | number | boolean | null>;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  nullable?: boolean;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required?: boolean;
+    content?: Record<string, OpenApiMediaType>;
+  };
+  responses?: Record<string, { description?: string; content?: Record<string, OpenApiMediaType> }>;
+}
+
+export type ErrorCodeDefinition = string | { code: string; description?: string };
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths?: Record<string, Record<string, OpenApiOperation | OpenApiParameter[] | string | undefined>>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+  };
+  /** Server ErrorCode enum (NAME → code) */
+  'x-error-codes'?: Record<string, ErrorCodeDefinition>;
+}
+
+export interface GenerateOptions {
+  /** Import path from generated services/ to the api package (default: '../..') */
+  apiImportPath?: string;
+}
+
+/** Generated files keyed by path relative to the output directory */
+export type GeneratedFiles = Record<string, string>;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+const BODYLESS_METHODS: HttpMethod[] = ['get', 'delete'];
+
+interface ServiceOperation {
+  name: string;
+  method: HttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+  parameters: OpenApiParameter[];
+}
+
+// === Naming ===
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function camelCase(value: string): string {
+  return words(value)
+    .map((word, index) =>
+      index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join('');
+}
+
+function constantCase(value: string): string {
+  return words(value).map((word) => word.toUpperCase()).join('_');
+}
+
+function kebabCase(value: string): string {
+  return words(value).map((word) => word.toLowerCase()).join('-');
+}
+
+/** Spring schema names may contain generics (e.g., Map«string,object») */
+function typeName(name: string): string {
+  const sanitized = name.replace(/[^A-Za-z0-9_$]/g, '');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name);
+}
+
+function quote(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+function refName(ref: string): string {
+  return ref.split('/').pop() ?? ref;
+}
+
+function docComment(lines: Array<string | undefined>, indent: string): string {
+  const content = lines.filter((line): line is string => Boolean(line));
+  if (content.length === 0) return '';
+  if (content.length === 1 && indent) return `${indent}/** ${content[0]} */\n`;
+  return [`${indent}/**`, ...content.map((line) => `${indent} * ${line}`), `${indent} */`].join('\n') + '\n';
+}
+
+// === Type rendering ===
+
+class TypeRenderer {
+  private schemas: Record<string, OpenApiSchema>;
+
+  constructor(doc: OpenApiDocument) {
+    this.schemas = doc.components?.schemas ?? {};
+  }
+
+  resolve(schema: OpenApiSchema | undefined): OpenApiSchema | undefined {
+    if (!schema?.$ref) return schema;
+    return this.schemas[refName(schema.$ref)];
+  }
+
+  /** ApiResponse envelope (success + data) */
+  isEnvelope(schema: OpenApiSchema | undefined): boolean {
+    const properties = this.resolve(schema)?.properties;
+    return Boolean(properties && 'success' in properties && 'data' in properties);
+  }
+
+  /** PageResponse (content + totalElements + totalPages) */
+  isPage(schema: OpenApiSchema | undefined): boolean {
+    const properties = this.resolve(schema)?.properties;
+    return Boolean(
+      properties && 'content' in properties && 'totalElements' in properties && 'totalPages' in properties
+    );
+  }
+
+  render(schema: OpenApiSchema | undefined): string {
+    if (!schema) return 'unknown';
+
+    const nullable =
+      schema.nullable || (Array.isArray(schema.type) && schema.type.includes('null'));
+    const type = this.renderNonNull(schema);
+    return nullable && type !== 'unknown' ? `${type} | null` : type;
+  }
+
+  private renderNonNull(schema: OpenApiSchema): string {
+    if (schema.$ref) {
+      if (this.isEnvelope(schema)) {
+        return `ApiResponse<${this.render(this.resolve(schema)?.properties?.data)}>`;
+      }
+      if (this.isPage(schema)) {
+        return `PageResponse<${this.render(this.resolve(schema)?.properties?.content?.items)}>`;
+      }
+      return typeName(refName(schema.$ref));
+    }
+
+    if (schema.allOf) return this.join(schema.allOf, ' & ');
+    if (schema.oneOf) return this.join(schema.oneOf, ' | ');
+    if (schema.anyOf) return this.join(schema.anyOf, ' | ');
+
+    if (schema.enum) {
+      return schema.enum.map((value) => (value === null ? 'null' : quote(value))).join(' | ');
+    }
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((t) => t !== 'null')
+      : schema.type;
+
+    switch (type) {
+      case 'string':
+        return schema.format === 'binary' ? 'Blob' : 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array':
+        return `${this.wrap(this.render(schema.items))}[]`;
+      case 'object':
+      case undefined:
+        return this.renderObject(schema);
+      default:
+        return 'unknown';
+    }
+  }
+
+  private renderObject(schema: OpenApiSchema): string {
+    if (schema.properties) {
+      const required = new Set(schema.required ?? []);
+      const fields = Object.entries(schema.properties).map(
+        ([key, value]) => `${propertyKey(key)}${required.has(key) ? '' : '?'}: ${this.render(value)}`
+      );
+      return fields.length > 0 ? `{ ${fields.join('; ')} }` : 'Record<string, unknown>';
+    }
+
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      return `Record<string, ${this.render(schema.additionalProperties)}>`;
+    }
+
+    return schema.type === 'object' ? 'Record<string, unknown>' : 'unknown';
+  }
+
+  private join(schemas: OpenApiSchema[], separator: string): string {
+    const types = Array.from(new Set(schemas.map((s) => this.wrap(this.render(s)))));
+    return types.join(separator);
+  }
+
+  private wrap(type: string): string {
+    return /[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+  }
+}
+
+// === Models ===
+
+function generateModels(doc: OpenApiDocument, renderer: TypeRenderer): string {
+  const schemas = doc.components?.schemas ?? {};
+  const blocks: string[] = [];
+
+  Object.entries(schemas).forEach(([name, schema]) => {
+    const ref = { $ref: `#/components/schemas/${name}` };
+    // 기존 ApiResponse / PageResponse 타입을 사용
+    if (renderer.isEnvelope(ref) || renderer.isPage(ref)) return;
+
+    const comment = docComment([schema.description], '');
+
+    if (schema.properties && !schema.allOf) {
+      const required = new Set(schema.required ?? []);
+      const fields = Object.entries(schema.properties).map(
+        ([key, value]) =>
+          docComment([value.description], '  ') +
+          `  ${propertyKey(key)}${required.has(key) ? '' : '?'}: ${renderer.render(value)};`
+      );
+      blocks.push(`${comment}export interface ${typeName(name)} {\n${fields.join('\n')}\n}`);
+      return;
+    }
+
+    blocks.push(`${comment}export type ${typeName(name)} = ${renderer.render(schema)};`);
+  });
+
+  return blocks.join('\n\n');
+}
+
+function generateErrorCodes(doc: OpenApiDocument): string | null {
+  const errorCodes = doc['x-error-codes'];
+  if (!errorCodes || Object.keys(errorCodes).length === 0) return null;
+
+  const entries = Object.entries(errorCodes).map(([name, definition]) => {
+    const { code, description } =
+      typeof definition === 'string' ? { code: definition, description: undefined } : definition;
+    return `${docComment([description], '  ')}  ${constantCase(name)}: ${quote(code)},`;
+  });
+
+  return [
+    '// API Error codes matching Spring Boot ErrorCode enum',
+    `export const ErrorCodes = {\n${entries.join('\n')}\n} as const;`,
+    '',
+    'export type ErrorCodeType = typeof ErrorCodes[keyof typeof ErrorCodes];',
+  ].join('\n');
+}
+
+// === Services ===
+
+function collectOperations(doc: OpenApiDocument): Map<string, ServiceOperation[]> {
+  const groups = new Map<string, ServiceOperation[]>();
+  const sharedParameters = doc.components?.parameters ?? {};
+  const resolveParameter = (parameter: OpenApiParameter) =>
+    parameter.$ref ? sharedParameters[refName(parameter.$ref)] : parameter;
+
+  Object.entries(doc.paths ?? {}).forEach(([path, pathItem]) => {
+    const pathParameters = (pathItem.parameters as OpenApiParameter[] | undefined) ?? [];
+
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method] as OpenApiOperation | undefined;
+      if (!operation) return;
+
+      // Operation 레벨 파라미터가 path 레벨 파라미터를 덮어씀
+      const parameters = new Map<string, OpenApiParameter>();
+      [...pathParameters, ...(operation.parameters ?? [])]
+        .map(resolveParameter)
+        .filter((parameter): parameter is OpenApiParameter => Boolean(parameter))
+        .forEach((parameter) => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+
+      const tag = operation.tags?.[0] ?? 'default';
+      const group = groups.get(tag) ?? [];
+      group.push({
+        name: camelCase(operation.operationId ?? `${method} ${path.replace(/[{}]/g, '')}`),
+        method,
+        path,
+        operation,
+        parameters: Array.from(parameters.values()),
+      });
+      groups.set(tag, group);
+    });
+  });
+
+  return groups;
+}
+
+/** Common static path prefix (e.g., /api/ads/{id}, /api/ads/active → /api/ads) */
+function basePath(paths: string[]): string {
+  const segmentLists = paths.map((path) => path.split('/').filter(Boolean));
+  const prefix: string[] = [];
+
+  // 단일 엔드포인트만 있으면 상위 경로를 base로 사용 (/api/health/ping → /api/health)
+  if (new Set(paths).size === 1 && segmentLists[0].length > 2) {
+    segmentLists[0] = segmentLists[0].slice(0, -1);
+  }
+
+  for (let i = 0; i < segmentLists[0].length; i++) {
+    const segment = segmentLists[0][i];
+    if (segment.includes('{') || !segmentLists.every((segments) => segments[i] === segment)) break;
+    prefix.push(segment);
+  }
+
+  return `/${prefix.join('/')}`;
+}
+
+function pickJsonSchema(content?: Record<string, OpenApiMediaType>): OpenApiSchema | undefined {
+  if (!content) return undefined;
+  const mediaType =
+    content['application/json'] ?? content['*/*'] ?? Object.values(content)[0];
+  return mediaType?.schema;
+}
+
+function successResponse(operation: OpenApiOperation): OpenApiSchema | undefined {
+  const responses = operation.responses ?? {};
+  const status = Object.keys(responses)
+    .filter((code) => /^2/.test(code))
+    .sort()[0];
+  return status ? pickJsonSchema(responses[status].content) : undefined;
+}
+
+function generateMethod(
+  op: ServiceOperation,
+  baseConstant: string,
+  base: string,
+  renderer: TypeRenderer
+): string {
+  const { operation, method } = op;
+  const pathParams = op.parameters.filter((p) => p.in === 'path');
+  const queryParams = op.parameters.filter((p) => p.in === 'query');
+
+  // Response type (ApiResponse envelope는 data 타입으로 unwrap)
+  const responseSchema = successResponse(operation);
+  const isEnvelope = renderer.isEnvelope(responseSchema);
+  const returnType = isEnvelope
+    ? renderer.render(renderer.resolve(responseSchema)?.properties?.data)
+    : responseSchema
+      ? renderer.render(responseSchema)
+      : 'void';
+
+  // Arguments: path params → request body → query params → options
+  const args: string[] = pathParams.map(
+    (p) => `${camelCase(p.name)}: ${renderer.render(p.schema ?? { type: 'string' })}`
+  );
+
+  const bodySchema = pickJsonSchema(operation.requestBody?.content);
+  const hasBody = Boolean(operation.requestBody);
+  if (hasBody) {
+    const optional = operation.requestBody?.required ? '' : '?';
+    args.push(`request${optional}: ${renderer.render(bodySchema)}`);
+  }
+
+  if (queryParams.length > 0) {
+    const optional = queryParams.some((p) => p.required) ? '' : '?';
+    const fields = queryParams.map(
+      (p) => `${propertyKey(p.name)}${p.required ? '' : '?'}: ${renderer.render(p.schema)}`
+    );
+    args.push(`params${optional}: { ${fields.join('; ')} }`);
+  }
+
+  args.push('options?: RequestOptions');
+
+  // URL expression relative to the service base constant
+  let rest = op.path.slice(base === '/' ? 0 : base.length);
+  pathParams.forEach((p) => {
+    rest = rest.replace(`{${p.name}}`, `\${${camelCase(p.name)}}`);
+  });
+  const url = rest ? `\`\${${baseConstant}}${rest}\`` : baseConstant;
+
+  // Axios call arguments
+  const config: string[] = [];
+  if (hasBody && BODYLESS_METHODS.includes(method)) config.push('data: request');
+  if (queryParams.length > 0) config.push('params');
+  const configArg = config.length > 0 ? `{ ${[...config, '...options'].join(', ')} }` : 'options';
+  const callArgs = [url, ...(hasBody && !BODYLESS_METHODS.includes(method) ? ['request'] : []), configArg];
+
+  const responseType = isEnvelope ? `ApiResponse<${returnType}>` : returnType;
+  const result = isEnvelope ? 'response.data.data' : 'response.data';
+
+  const inline = `  ${op.name}: async (${args.join(', ')}): Promise<${returnType}> => {`;
+  const signature =
+    inline.length <= 100
+      ? inline
+      : `  ${op.name}: async (\n${args.map((arg) => `    ${arg}`).join(',\n')}\n  ): Promise<${returnType}> => {`;
+
+  return [
+    docComment(
+      [
+        operation.summary ?? operation.description,
+        operation.deprecated ? '@deprecated' : undefined,
+        `${method.toUpperCase()} ${op.path}`,
+      ],
+      '  '
+    ) + signature,
+    `    const response = await getApiClient().${method}<${responseType}>(`,
+    callArgs.map((arg) => `      ${arg}`).join(',\n'),
+    '    );',
+    `    return ${result};`,
+    '  },',
+  ].join('\n');
+}
+
+function generateService(
+  tag: string,
+  operations: ServiceOperation[],
+  renderer: TypeRenderer,
+  modelNames: Set<string>,
+  apiImportPath: string
+): { serviceName: string; fileName: string; source: string } {
+  const resource = tag.replace(/[-_ ]?controller$/i, '');
+  const serviceName = `${camelCase(resource)}Api`;
+  const baseConstant = `${constantCase(resource)}_BASE`;
+  const base = basePath(operations.map((op) => op.path));
+
+  const methods = operations.map((op) => generateMethod(op, baseConstant, base, renderer));
+  const body = methods.join('\n\n');
+
+  // Import only the types referenced in this service
+  const usedModels = Array.from(modelNames).filter((name) => new RegExp(`\\b${name}\\b`).test(body));
+  const apiTypes = ['ApiResponse', 'PageResponse'].filter((name) => body.includes(`${name}<`));
+
+  const imports = [
+    `import { getApiClient } from '${apiImportPath}/client';`,
+    `import type { RequestOptions } from '${apiImportPath}/http';`,
+    apiTypes.length > 0 ? `import type { ${apiTypes.join(', ')} } from '${apiImportPath}/types';` : '',
+    usedModels.length > 0 ? `import type { ${usedModels.join(', ')} } from '../models';` : '',
+  ].filter(Boolean);
+
+  const source = [
+    imports.join('\n'),
+    `const ${baseConstant} = '${base}';`,
+    `export const ${serviceName} = {\n${body}\n};`,
+  ].join('\n\n');
+
+  return { serviceName, fileName: kebabCase(resource), source };
+}
+
+function header(title: string, doc: OpenApiDocument): string {
+  const source = [doc.info?.title, doc.info?.version].filter(Boolean).join(' ');
+  return [
+    '/**',
+    ` * ${title}`,
+    ` * Generated from OpenAPI${source ? ` (${source})` : ''} - DO NOT EDIT`,
+    ' * Run `npm run api:generate` to update',
+    ' */',
+  ].join('\n');
+}
+
+/**
+ * Generate typed API modules from an OpenAPI 3 document
+ */
+export function generateApiFromOpenApi(
+  doc: OpenApiDocument,
+  options: GenerateOptions = {}
+): GeneratedFiles {
+  if (!doc.openapi?.startsWith('3.')) {
+    throw new Error(`Unsupported OpenAPI version: ${doc.openapi ?? 'unknown'} (3.x required)`);
+  }
+
+  const apiImportPath = options.apiImportPath ?? '../..';
+  const renderer = new TypeRenderer(doc);
+  const files: GeneratedFiles = {};
+  const indexLines: string[] = [];
+
+  // Models
+  const models = generateModels(doc, renderer);
+  const modelNames = new Set(
+    Array.from(models.matchAll(/^export (?:interface|type) (\w+)/gm), (match) => match[1])
+  );
+  if (modelNames.size > 0) {
+    files['models.ts'] = `${header('API Models', doc)}\n\n${models}\n`;
+    indexLines.push(`export type {\n${Array.from(modelNames).map((name) => `  ${name},`).join('\n')}\n} from './models';`);
+  }
+
+  // Error codes
+  const errorCodes = generateErrorCodes(doc);
+  if (errorCodes) {
+    files['errorCodes.ts'] = `${header('API Error Codes', doc)}\n\n${errorCodes}\n`;
+    indexLines.push(`export { ErrorCodes } from './errorCodes';`, `export type { ErrorCodeType } from './errorCodes';`);
+  }
+
+  // Services
+  collectOperations(doc).forEach((operations, tag) => {
+    const service = generateService(tag, operations, renderer, modelNames, apiImportPath);
+    files[`services/${service.fileName}.ts`] =
+      `${header(`${service.serviceName} Service`, doc)}\n\n${service.source}\n`;
+    indexLines.push(`export { ${service.serviceName} } from './services/${service.fileName}';`);
+  });
+
+  files['index.ts'] = `${header('Generated API - Public exports', doc)}\n\n${indexLines.join('\n')}\n`;
+
+  return files;
+}
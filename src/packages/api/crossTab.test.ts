@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTabChannel, createTabLock } from './crossTab';
+import { RefreshCoordinator } from './refreshCoordinator';
+
+describe('createTabChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('BroadcastChannel로 다른 탭에 전달', async () => {
+    const tabA = createTabChannel<{ value: number }>('test-channel');
+    const tabB = createTabChannel<{ value: number }>('test-channel');
+    const listener = vi.fn();
+    tabB.subscribe(listener);
+
+    tabA.post({ value: 1 });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ value: 1 }));
+    tabA.close();
+    tabB.close();
+  });
+
+  it('BroadcastChannel이 없으면 storage 이벤트 사용', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const channel = createTabChannel<{ type: string }>('fallback');
+    const listener = vi.fn();
+    channel.subscribe(listener);
+
+    channel.post({ type: 'logout' });
+    const [key, value] = vi.mocked(localStorage.setItem).mock.calls[0];
+    expect(localStorage.removeItem).toHaveBeenCalledWith(key);
+
+    // 다른 탭에서 발생하는 storage 이벤트
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: value }));
+    expect(listener).toHaveBeenCalledWith({ type: 'logout' });
+    channel.close();
+  });
+});
+
+describe('createTabLock (localStorage lease)', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.mocked(localStorage.getItem).mockImplementation((key) => store.get(key) ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store.set(key, value);
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation((key) => {
+      store.delete(key);
+    });
+  });
+
+  it('작업을 한 번에 하나씩 실행', async () => {
+    const lock = createTabLock('test-lock');
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`${name}:start`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push(`${name}:end`);
+      return name;
+    };
+
+    const results = await Promise.all([lock.run(task('a')), lock.run(task('b'))]);
+
+    expect(results).toEqual(['a', 'b']);
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+});
+
+describe('RefreshCoordinator with lock', () => {
+  it('lock을 기다리는 동안 다른 탭이 갱신한 토큰은 refresh 없이 사용', async () => {
+    let token = 'old-token';
+    let releaseOtherTab: () => void = () => {};
+    const otherTab = new Promise<void>((resolve) => {
+      releaseOtherTab = resolve;
+    });
+
+    // 다른 탭이 lock을 잡고 refresh 중인 상황
+    let locked = true;
+    const lock = {
+      run: async <T,>(task: () => Promise<T>) => {
+        if (locked) await otherTab;
+        return task();
+      },
+    };
+    const coordinator = new RefreshCoordinator({ lock, getAccessToken: () => token });
+    const refresh = vi.fn().mockResolvedValue('own-token');
+
+    const pending = coordinator.run(refresh);
+    token = 'token-from-other-tab';
+    locked = false;
+    releaseOtherTab();
+
+    await expect(pending).resolves.toBe('token-from-other-tab');
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('refresh 실패 후 재로그인 프롬프트는 lock을 놓은 뒤 실행', async () => {
+    let held = false;
+    const lock = {
+      run: async <T,>(task: () => Promise<T>) => {
+        held = true;
+        try {
+          return await task();
+        } finally {
+          held = false;
+        }
+      },
+    };
+    const coordinator = new RefreshCoordinator({ lock, getAccessToken: () => 'old-token' });
+    const recover = vi.fn(async () => {
+      expect(held).toBe(false);
+      return 'relogin-token';
+    });
+
+    await expect(coordinator.run(() => Promise.reject(new Error('expired')), recover)).resolves.toBe(
+      'relogin-token'
+    );
+    expect(recover).toHaveBeenCalledWith(new Error('expired'));
+  });
+});
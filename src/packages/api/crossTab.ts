@@ -0,0 +1,173 @@
+/**
+ * Cross-Tab - Messaging and mutual exclusion between browser tabs
+ *
+ * - TabChannel: BroadcastChannel, 미지원 환경에서는 localStorage 'storage' 이벤트로 대체
+ * - TabLock: Web Locks API, 미지원 환경에서는 localStorage lease로 대체
+ */
+
+export interface TabChannel<T> {
+  /** 'storage'면 메시지가 잠시 localStorage에 기록됨 (토큰 등 민감한 값 전송 주의) */
+  readonly transport: 'broadcast' | 'storage';
+  /** Send to every other tab (not delivered to the sender) */
+  post(message: T): void;
+  /** Listen to messages from other tabs (returns unsubscribe) */
+  subscribe(listener: (message: T) => void): () => void;
+  close(): void;
+}
+
+export interface TabLock {
+  /** Run task while holding the lock (one tab at a time) */
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+interface LockLease {
+  owner: string;
+  expiresAt: number;
+}
+
+/** Unique id of the current tab */
+export const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const STORAGE_PREFIX = 'cross-tab';
+// Lease 기본 유지 시간 (작업이 끝나지 않아도 이 시간이 지나면 다른 탭이 획득)
+const DEFAULT_LEASE_TIME = 10000;
+const LEASE_POLL_INTERVAL = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create a channel between tabs of the same origin
+ */
+export function createTabChannel<T>(name: string): TabChannel<T> {
+  const listeners = new Set<(message: T) => void>();
+  const emit = (message: T) => listeners.forEach((listener) => listener(message));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<T>) => emit(event.data);
+
+    return {
+      transport: 'broadcast',
+      post: (message) => channel.postMessage(message),
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      close: () => {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  // Fallback - storage 이벤트는 값을 쓴 탭을 제외한 다른 탭에서만 발생
+  const key = `${STORAGE_PREFIX}:${name}`;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      emit((JSON.parse(event.newValue) as { message: T }).message);
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorage);
+  }
+
+  return {
+    transport: 'storage',
+    post: (message) => {
+      try {
+        // nonce로 같은 메시지 연속 전송 시에도 이벤트 발생
+        localStorage.setItem(key, JSON.stringify({ message, nonce: Math.random() }));
+        localStorage.removeItem(key);
+      } catch {
+        // Storage unavailable - single tab only
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('storage', handleStorage);
+      }
+    },
+  };
+}
+
+function readLease(key: string): LockLease | null {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? (JSON.parse(value) as LockLease) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a lock shared by tabs of the same origin
+ */
+export function createTabLock(name: string, leaseTime: number = DEFAULT_LEASE_TIME): TabLock {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return {
+      run: <T>(task: () => Promise<T>) => navigator.locks.request(name, () => task()) as Promise<T>,
+    };
+  }
+
+  const key = `${STORAGE_PREFIX}:lock:${name}`;
+
+  const acquire = async (): Promise<void> => {
+    const giveUpAt = Date.now() + leaseTime;
+
+    while (Date.now() < giveUpAt) {
+      const lease = readLease(key);
+      if (!lease || lease.expiresAt <= Date.now()) {
+        try {
+          localStorage.setItem(key, JSON.stringify({ owner: TAB_ID, expiresAt: Date.now() + leaseTime }));
+        } catch {
+          return;
+        }
+        // 동시에 쓴 다른 탭이 있는지 확인 후 획득
+        await sleep(LEASE_POLL_INTERVAL);
+        if (readLease(key)?.owner === TAB_ID) return;
+      } else {
+        await sleep(LEASE_POLL_INTERVAL);
+      }
+    }
+    // 오래 걸리는 탭이 있으면 lease 만료로 간주하고 진행
+  };
+
+  const release = () => {
+    try {
+      if (readLease(key)?.owner === TAB_ID) localStorage.removeItem(key);
+    } catch {
+      // Ignore
+    }
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    run: <T>(task: () => Promise<T>): Promise<T> => {
+      // 같은 탭 안에서도 순서대로 실행
+      const result = queue.then(async () => {
+        await acquire();
+        try {
+          return await task();
+        } finally {
+          release();
+        }
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { parseContentDisposition, saveBlob } from './download';
+import { http } from './http';
+import { createApiClient, ApiError } from './client';
+
+const mockGet = vi.fn();
+
+vi.mock('./client', async () => {
+  const actual = await vi.importActual<typeof import('./client')>('./client');
+  return {
+    ...actual,
+    getApiClient: () => ({ get: mockGet }),
+  };
+});
+
+describe('parseContentDisposition', () => {
+  it('filename 파라미터 파싱', () => {
+    expect(parseContentDisposition('attachment; filename="report.csv"')).toBe('report.csv');
+    expect(parseContentDisposition('attachment; filename=report.csv')).toBe('report.csv');
+  });
+
+  it("filename*=UTF-8''를 우선 사용", () => {
+    expect(
+      parseContentDisposition(
+        "attachment; filename=\"report.csv\"; filename*=UTF-8''%EA%B4%91%EA%B3%A0%20%ED%86%B5%EA%B3%84.csv"
+      )
+    ).toBe('광고 통계.csv');
+  });
+
+  it('헤더가 없으면 null', () => {
+    expect(parseContentDisposition(undefined)).toBeNull();
+    expect(parseContentDisposition('inline')).toBeNull();
+  });
+});
+
+describe('http.getRaw / http.download', () => {
+  beforeEach(() => {
+    mockGet.mockReset();
+  });
+
+  it('envelope 없이 응답 데이터와 파일명 반환', async () => {
+    mockGet.mockResolvedValue({
+      status: 200,
+      data: 'a,b\n1,2',
+      headers: { 'content-type': 'text/csv', 'content-disposition': 'attachment; filename="stats.csv"' },
+    });
+
+    const response = await http.getRaw('/api/export', { id: 1 }, { responseType: 'text' });
+
+    expect(response).toEqual({
+      data: 'a,b\n1,2',
+      filename: 'stats.csv',
+      contentType: 'text/csv',
+      status: 200,
+    });
+    expect(mockGet).toHaveBeenCalledWith(
+      '/api/export',
+      expect.objectContaining({ params: { id: 1 }, responseType: 'text' })
+    );
+  });
+
+  it('다운로드 진행률 콜백', async () => {
+    const onProgress = vi.fn();
+    mockGet.mockImplementation(async (_url, config) => {
+      config.onDownloadProgress({ loaded: 25, total: 100 });
+      return { status: 200, data: new Blob(['x']), headers: {} };
+    });
+
+    await http.getRaw('/api/export', undefined, { onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith({ loaded: 25, total: 100, percent: 25 });
+  });
+
+  it('Content-Disposition 파일명으로 저장', async () => {
+    const createObjectURL = vi.fn(() => 'blob:url');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    mockGet.mockResolvedValue({
+      status: 200,
+      data: new Blob(['x']),
+      headers: { 'content-disposition': 'attachment; filename="server.csv"' },
+    });
+
+    await http.download('/api/export', undefined, { filename: 'fallback.csv' });
+
+    expect(mockGet.mock.calls[0][1].responseType).toBe('blob');
+    expect(click).toHaveBeenCalledTimes(1);
+    expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('server.csv');
+    click.mockRestore();
+  });
+
+  it('blob 에러 응답 본문을 ApiError로 변환', async () => {
+    const client = createApiClient({
+      baseURL: 'http://localhost:8080',
+      getAccessToken: () => null,
+      getRefreshToken: () => null,
+      setTokens: vi.fn(),
+      clearTokens: vi.fn(),
+    });
+    const body = { status: 404, code: 'REPORT_NOT_FOUND', message: '리포트가 없습니다', timestamp: '', path: '/api/export' };
+    client.defaults.adapter = (requestConfig: InternalAxiosRequestConfig) =>
+      Promise.reject(
+        new axios.AxiosError('Not Found', 'ERR_BAD_REQUEST', requestConfig, null, {
+          status: 404,
+          statusText: 'Not Found',
+          headers: {},
+          config: requestConfig,
+          data: new Blob([JSON.stringify(body)], { type: 'application/json' }),
+        })
+      );
+    mockGet.mockImplementation((url, config) => client.get(url, config));
+
+    const error = await http.download('/api/export').catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, code: 'REPORT_NOT_FOUND', message: '리포트가 없습니다' });
+  });
+});
+
+describe('saveBlob', () => {
+  it('앵커 클릭으로 다운로드', () => {
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:url'), revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    saveBlob(new Blob(['x']), 'file.txt');
+
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(document.querySelector('a[download]')).toBeNull();
+    click.mockRestore();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Download - Raw (non-envelope) responses and browser file save
+ */
+
+import type { AxiosProgressEvent, AxiosResponse } from 'axios';
+import type { UploadProgress } from './upload';
+
+export type RawResponseType = 'blob' | 'text' | 'arraybuffer';
+
+export type RawResponseData<R extends RawResponseType> = R extends 'text'
+  ? string
+  : R extends 'arraybuffer'
+    ? ArrayBuffer
+    : Blob;
+
+export type DownloadProgress = UploadProgress;
+
+export interface RawResponse<T> {
+  data: T;
+  /** Filename from Content-Disposition (null if absent) */
+  filename: string | null;
+  contentType: string | null;
+  status: number;
+}
+
+/**
+ * Parse filename from Content-Disposition header
+ * RFC 5987 filename*=UTF-8''... 를 우선 사용 (한글 파일명)
+ */
+export function parseContentDisposition(header?: string | null): string | null {
+  if (!header) return null;
+
+  const encoded = header.match(/filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to plain filename
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("([^"]*)"|[^;]+)/i);
+  if (plain) {
+    return (plain[2] ?? plain[1]).trim();
+  }
+
+  return null;
+}
+
+/**
+ * Save blob as a file in the browser
+ */
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // 다운로드 시작 후 해제
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function toDownloadProgressHandler(
+  onProgress?: (progress: DownloadProgress) => void
+): ((event: AxiosProgressEvent) => void) | undefined {
+  if (!onProgress) return undefined;
+
+  return (event) => {
+    const total = event.total ?? 0;
+    onProgress({
+      loaded: event.loaded,
+      total,
+      percent: total > 0 ? Math.min(100, Math.round((event.loaded / total) * 100)) : 0,
+    });
+  };
+}
+
+export function toRawResponse<T>(response: AxiosResponse<T>): RawResponse<T> {
+  const header = (name: string) => {
+    const value = response.headers?.[name];
+    return typeof value === 'string' ? value : null;
+  };
+
+  return {
+    data: response.data,
+    filename: parseContentDisposition(header('content-disposition')),
+    contentType: header('content-type'),
+    status: response.status,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * API Errors - ApiError class and error helpers
+ */
+
+import axios from 'axios';
+import type { ErrorResponse } from './types';
+import type { SchemaIssue } from './schema';
+
+// Custom error class
+export class ApiError extends Error {
+  public status: number;
+  public code: string;
+  public path?: string;
+  public errors?: Array<{ field: string; value: string; reason: string }>;
+
+  constructor(errorResponse: ErrorResponse) {
+    super(errorResponse.message);
+    this.name = 'ApiError';
+    this.status = errorResponse.status;
+    this.code = errorResponse.code;
+    this.path = errorResponse.path;
+    this.errors = errorResponse.errors;
+  }
+}
+
+// Error code for cancelled requests (AbortController)
+export const ABORTED_ERROR_CODE = 'ABORTED';
+
+// Error code for requests rejected by an open circuit breaker
+export const CIRCUIT_OPEN_ERROR_CODE = 'CIRCUIT_OPEN';
+
+// Error code for mutations stored in the offline queue
+export const OFFLINE_QUEUED_ERROR_CODE = 'OFFLINE_QUEUED';
+
+// Error code for responses that do not match the expected schema
+export const SCHEMA_MISMATCH_ERROR_CODE = 'SCHEMA_MISMATCH';
+
+export function createAbortedError(path?: string): ApiError {
+  return new ApiError({
+    status: 0,
+    code: ABORTED_ERROR_CODE,
+    message: 'Request aborted',
+    timestamp: new Date().toISOString(),
+    path: path || '',
+  });
+}
+
+/**
+ * Create schema mismatch error (errors[].field = invalid path)
+ */
+export function createSchemaMismatchError(
+  issues: SchemaIssue[],
+  path?: string,
+  status = 200
+): ApiError {
+  const paths = issues.map((issue) => issue.path || '(root)');
+
+  return new ApiError({
+    status,
+    code: SCHEMA_MISMATCH_ERROR_CODE,
+    message: `Response does not match schema: ${paths.join(', ')}`,
+    timestamp: new Date().toISOString(),
+    path: path || '',
+    errors: issues.map((issue, index) => ({
+      field: paths[index],
+      value: issue.received,
+      reason: `expected ${issue.expected}`,
+    })),
+  });
+}
+
+/**
+ * Check if error is a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof ApiError) return error.code === ABORTED_ERROR_CODE;
+  if (axios.isCancel(error)) return true;
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Normalize any thrown value to ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (isAbortError(error)) return createAbortedError();
+
+  return new ApiError({
+    status: 0,
+    code: 'UNKNOWN_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    timestamp: new Date().toISOString(),
+    path: '',
+  });
+}
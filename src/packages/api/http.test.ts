@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { http } from './http';
+
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+
+vi.mock('./client', async () => {
+  const actual = await vi.importActual<typeof import('./client')>('./client');
+  return {
+    ...actual,
+    getApiClient: () => ({ get: mockGet, post: mockPost }),
+  };
+});
+
+describe('http.getCursorPage', () => {
+  it('cursor를 query로 보내고 signal을 전달한 뒤 envelope를 unwrap', async () => {
+    const page = { content: ['c'], nextCursor: null, prevCursor: 'c', size: 1, hasNext: false, hasPrevious: true };
+    mockGet.mockResolvedValue({ data: { success: true, data: page } });
+    const controller = new AbortController();
+
+    const result = await http.getCursorPage<string>('/api/feed', { after: 'b', size: 1 }, { signal: controller.signal });
+
+    expect(mockGet).toHaveBeenCalledWith(
+      '/api/feed',
+      expect.objectContaining({ params: { after: 'b', size: 1 }, signal: controller.signal })
+    );
+    expect(result).toEqual(page);
+  });
+});
+
+describe('http.upload', () => {
+  it('청크 offset을 Content-Range로 보내고 전체 파일 기준 진행률 보고 후 마지막 응답을 unwrap', async () => {
+    mockPost.mockImplementation(async (_url, form: FormData, config) => {
+      config.onUploadProgress({ loaded: 5 });
+      const last = form.get('chunkIndex') === '2';
+      return { status: 200, data: { success: true, data: last ? { url: 'done' } : null } };
+    });
+    const onProgress = vi.fn();
+    const controller = new AbortController();
+    const file = new File([new Uint8Array(25)], 'creative.png');
+
+    const result = await http.upload('/api/files', file, { chunkSize: 10, onProgress, signal: controller.signal });
+
+    expect(result).toEqual({ url: 'done' });
+    const configs = mockPost.mock.calls.map(([, , config]) => config);
+    expect(configs.map((config) => config.headers['Content-Range'])).toEqual([
+      'bytes 0-9/25',
+      'bytes 10-19/25',
+      'bytes 20-24/25',
+    ]);
+    expect(configs.every((config) => config.signal === controller.signal)).toBe(true);
+    expect(onProgress.mock.calls.map(([progress]) => progress.loaded)).toEqual([0, 5, 15, 25, 25]);
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 25, total: 25, percent: 100 });
+  });
+});
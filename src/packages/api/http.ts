@@ -3,128 +3,330 @@
  * Wraps axios with generic type enforcement
  */
 
-import type { AxiosRequestConfig } from 'axios';
-import { getApiClient, ApiError } from './client';
-import type { ApiResponse, PageRequest, PageResponse } from './types';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { getApiClient, ApiError, isAbortError } from './client';
+import { createSchemaMismatchError } from './errors';
+import { uploadFile, type UploadConfig } from './upload';
+import {
+  saveBlob,
+  toDownloadProgressHandler,
+  toRawResponse,
+  type DownloadProgress,
+  type RawResponse,
+  type RawResponseData,
+  type RawResponseType,
+} from './download';
+import { schema, apiResponseSchema, pageResponseSchema, validateSchema, type Schema } from './schema';
+import type {
+  ApiResponse,
+  CursorPageRequest,
+  CursorPageResponse,
+  PageRequest,
+  PageResponse,
+} from './types';
 
-export interface RequestOptions extends Omit<AxiosRequestConfig, 'url' | 'method' | 'data' | 'params'> {
+/**
+ * Per-request options
+ * signal: AbortSignal - 취소 시 ApiError(code: 'ABORTED')로 reject
+ */
+export interface RequestOptions<T = unknown>
+  extends Omit<AxiosRequestConfig, 'url' | 'method' | 'data' | 'params'> {
   /** Show toast on error */
   showError?: boolean;
   /** Retry count on failure */
   retryCount?: number;
-}
-
-/**
- * Type-safe HTTP methods
- */
-export const http = {
+  /** Queue mutation while offline and replay when online (POST/PUT/PATCH/DELETE) */
+  offline?: boolean;
   /**
-   * GET request with type-safe response
+   * Send a stable Idempotency-Key header (same across retries and token-refresh replays)
+   * POST/PUT/PATCH 요청도 재시도 대상이 됩니다.
    */
-  async get<T>(url: string, params?: Record<string, unknown>, options?: RequestOptions): Promise<T> {
-    const client = getApiClient();
-    const response = await client.get<ApiResponse<T>>(url, { params, ...options });
-    return response.data.data;
-  },
-
+  idempotent?: boolean;
+  /** Share identical in-flight GET requests (default: true) */
+  dedupe?: boolean;
   /**
-   * POST request with type-safe request and response
+   * Send as part of a batch request (collected within ApiClientConfig.batch.window)
+   * 실패한 항목은 호출자별 ApiError로 reject 됩니다.
    */
-  async post<TRequest, TResponse>(
-    url: string,
-    data?: TRequest,
-    options?: RequestOptions
-  ): Promise<TResponse> {
-    const client = getApiClient();
-    const response = await client.post<ApiResponse<TResponse>>(url, data, options);
-    return response.data.data;
-  },
-
+  batch?: boolean;
   /**
-   * PUT request with type-safe request and response
+   * Response data schema (ApiResponse envelope is validated as well)
+   * 불일치 시 ApiError(code: 'SCHEMA_MISMATCH', errors[].field = path)
    */
-  async put<TRequest, TResponse>(
-    url: string,
-    data?: TRequest,
-    options?: RequestOptions
-  ): Promise<TResponse> {
-    const client = getApiClient();
-    const response = await client.put<ApiResponse<TResponse>>(url, data, options);
-    return response.data.data;
-  },
+  schema?: Schema<T>;
+  /** Mismatch handling (default: 'warn' in dev, 'throw' in production) */
+  schemaMode?: 'throw' | 'warn';
+}
 
-  /**
-   * PATCH request with type-safe request and response
-   */
-  async patch<TRequest, TResponse>(
-    url: string,
-    data?: TRequest,
-    options?: RequestOptions
-  ): Promise<TResponse> {
-    const client = getApiClient();
-    const response = await client.patch<ApiResponse<TResponse>>(url, data, options);
-    return response.data.data;
-  },
+/**
+ * Upload options (multipart/form-data)
+ * chunkSize를 지정하면 큰 파일은 청크로 나눠 전송하고 네트워크 끊김 후 이어서 전송합니다.
+ */
+export interface UploadOptions<T = unknown> extends RequestOptions<T>, UploadConfig {}
 
-  /**
-   * DELETE request with type-safe response
-   */
-  async delete<T = void>(url: string, options?: RequestOptions): Promise<T> {
-    const client = getApiClient();
-    const response = await client.delete<ApiResponse<T>>(url, options);
-    return response.data.data;
-  },
+/**
+ * Options for responses without the ApiResponse envelope
+ */
+export interface RawRequestOptions<R extends RawResponseType = 'blob'>
+  extends Omit<RequestOptions, 'responseType' | 'schema' | 'schemaMode'> {
+  /** Response type (default: 'blob') */
+  responseType?: R;
+  /** Download progress callback (total is 0 without Content-Length) */
+  onProgress?: (progress: DownloadProgress) => void;
+}
 
-  /**
-   * Paginated GET request
-   */
-  async getPage<T>(
-    url: string,
-    pageRequest?: PageRequest,
-    options?: RequestOptions
-  ): Promise<PageResponse<T>> {
-    const client = getApiClient();
-    const response = await client.get<ApiResponse<PageResponse<T>>>(url, {
-      params: pageRequest,
-      ...options,
-    });
-    return response.data.data;
-  },
-};
+export interface DownloadOptions extends Omit<RawRequestOptions<'blob'>, 'responseType'> {
+  /** Filename used when Content-Disposition is missing (default: 'download') */
+  filename?: string;
+  /** Save to disk via browser download (default: true) */
+  save?: boolean;
+}
+
+/**
+ * Strip schema options before passing to axios
+ */
+function toRequestConfig<T>(options?: RequestOptions<T>): AxiosRequestConfig {
+  const config = { ...options };
+  delete config.schema;
+  delete config.schemaMode;
+  return config;
+}
+
+/**
+ * Validate envelope + data against schema and unwrap data
+ */
+function unwrap<T>(response: AxiosResponse<ApiResponse<T>>, options?: RequestOptions<T>): T {
+  if (options?.schema) {
+    const issues = validateSchema(response.data, apiResponseSchema(options.schema));
+
+    if (issues.length > 0) {
+      const error = createSchemaMismatchError(issues, response.config?.url, response.status);
+      const mode = options.schemaMode ?? (import.meta.env.DEV ? 'warn' : 'throw');
+
+      if (mode === 'throw') {
+        throw error;
+      }
+      console.warn(`[API] ${error.message}`, error.errors);
+    }
+  }
+
+  return response.data.data;
+}
+
+/**
+ * Type-safe HTTP methods bound to a named client
+ * @param clientName - initializeApiClient(name, config)로 등록한 클라이언트 (기본: 'default')
+ */
+export function createHttp(clientName?: string) {
+  const getClient = () => getApiClient(clientName);
+
+  const api = {
+    /**
+     * GET request with type-safe response
+     */
+    async get<T>(url: string, params?: Record<string, unknown>, options?: RequestOptions<T>): Promise<T> {
+      const client = getClient();
+      const response = await client.get<ApiResponse<T>>(url, { params, ...toRequestConfig(options) });
+      return unwrap(response, options);
+    },
+
+    /**
+     * POST request with type-safe request and response
+     */
+    async post<TRequest, TResponse>(
+      url: string,
+      data?: TRequest,
+      options?: RequestOptions<TResponse>
+    ): Promise<TResponse> {
+      const client = getClient();
+      const response = await client.post<ApiResponse<TResponse>>(url, data, toRequestConfig(options));
+      return unwrap(response, options);
+    },
+
+    /**
+     * PUT request with type-safe request and response
+     */
+    async put<TRequest, TResponse>(
+      url: string,
+      data?: TRequest,
+      options?: RequestOptions<TResponse>
+    ): Promise<TResponse> {
+      const client = getClient();
+      const response = await client.put<ApiResponse<TResponse>>(url, data, toRequestConfig(options));
+      return unwrap(response, options);
+    },
+
+    /**
+     * PATCH request with type-safe request and response
+     */
+    async patch<TRequest, TResponse>(
+      url: string,
+      data?: TRequest,
+      options?: RequestOptions<TResponse>
+    ): Promise<TResponse> {
+      const client = getClient();
+      const response = await client.patch<ApiResponse<TResponse>>(url, data, toRequestConfig(options));
+      return unwrap(response, options);
+    },
+
+    /**
+     * DELETE request with type-safe response
+     */
+    async delete<T = void>(url: string, options?: RequestOptions<T>): Promise<T> {
+      const client = getClient();
+      const response = await client.delete<ApiResponse<T>>(url, toRequestConfig(options));
+      return unwrap(response, options);
+    },
+
+    /**
+     * Paginated GET request
+     */
+    async getPage<T>(
+      url: string,
+      pageRequest?: PageRequest,
+      options?: RequestOptions<PageResponse<T>>
+    ): Promise<PageResponse<T>> {
+      const client = getClient();
+      const response = await client.get<ApiResponse<PageResponse<T>>>(url, {
+        params: pageRequest,
+        ...toRequestConfig(options),
+      });
+      return unwrap(response, options);
+    },
+
+    /**
+     * Multipart file upload with progress (chunked when options.chunkSize is set)
+     */
+    async upload<T>(url: string, file: Blob, options?: UploadOptions<T>): Promise<T> {
+      const { fieldName, fields, onProgress, chunkSize, chunkRetries, ...requestOptions } = options ?? {};
+      const response = await uploadFile<T>(
+        getClient(),
+        url,
+        file,
+        { fieldName, fields, onProgress, chunkSize, chunkRetries },
+        toRequestConfig(requestOptions)
+      );
+      return unwrap(response, requestOptions);
+    },
+
+    /**
+     * GET request without ApiResponse envelope (blob / text / arraybuffer)
+     */
+    async getRaw<R extends RawResponseType = 'blob'>(
+      url: string,
+      params?: Record<string, unknown>,
+      options?: RawRequestOptions<R>
+    ): Promise<RawResponse<RawResponseData<R>>> {
+      const { responseType = 'blob', onProgress, ...requestOptions } = options ?? {};
+      const client = getClient();
+      const response = await client.get<RawResponseData<R>>(url, {
+        params,
+        ...requestOptions,
+        responseType,
+        onDownloadProgress: toDownloadProgressHandler(onProgress),
+      });
+      return toRawResponse(response);
+    },
+
+    /**
+     * Download file and save it with the Content-Disposition filename
+     */
+    async download(
+      url: string,
+      params?: Record<string, unknown>,
+      options?: DownloadOptions
+    ): Promise<RawResponse<Blob>> {
+      const { filename, save = true, ...rawOptions } = options ?? {};
+      const response = await api.getRaw<'blob'>(url, params, rawOptions);
+
+      if (save) {
+        saveBlob(response.data, response.filename ?? filename ?? 'download');
+      }
+      return response;
+    },
+
+    /**
+     * Cursor-paginated GET request (after/before cursor)
+     */
+    async getCursorPage<T>(
+      url: string,
+      cursorRequest?: CursorPageRequest,
+      options?: RequestOptions<CursorPageResponse<T>>
+    ): Promise<CursorPageResponse<T>> {
+      const client = getClient();
+      const response = await client.get<ApiResponse<CursorPageResponse<T>>>(url, {
+        params: cursorRequest,
+        ...toRequestConfig(options),
+      });
+      return unwrap(response, options);
+    },
+  };
+
+  return api;
+}
+
+export type Http = ReturnType<typeof createHttp>;
+
+/**
+ * Type-safe HTTP methods (default client)
+ */
+export const http: Http = createHttp();
 
 /**
  * Create a typed API service
+ * @param itemSchema - Optional entity schema used to validate every response
+ * @param clientName - Named client to send requests with (기본: 'default')
  */
 export function createApiService<T extends Record<string, unknown>>(
-  baseUrl: string
+  baseUrl: string,
+  itemSchema?: Schema<T>,
+  clientName?: string
 ) {
+  const api = clientName ? createHttp(clientName) : http;
+  const withSchema = <R>(responseSchema: Schema<R> | undefined, options?: RequestOptions<R>) =>
+    responseSchema ? { schema: responseSchema, ...options } : options;
+
+  const listSchema = itemSchema && schema.array(itemSchema);
+  const pageSchema = itemSchema && pageResponseSchema(itemSchema);
+
   return {
-    async getAll(params?: Record<string, unknown>): Promise<T[]> {
-      return http.get<T[]>(baseUrl, params);
+    async getAll(params?: Record<string, unknown>, options?: RequestOptions<T[]>): Promise<T[]> {
+      return api.get<T[]>(baseUrl, params, withSchema(listSchema, options));
     },
 
-    async getById(id: string | number): Promise<T> {
-      return http.get<T>(`${baseUrl}/${id}`);
+    async getById(id: string | number, options?: RequestOptions<T>): Promise<T> {
+      return api.get<T>(`${baseUrl}/${id}`, undefined, withSchema(itemSchema, options));
     },
 
-    async getPage(pageRequest?: PageRequest): Promise<PageResponse<T>> {
-      return http.getPage<T>(baseUrl, pageRequest);
+    async getPage(
+      pageRequest?: PageRequest,
+      options?: RequestOptions<PageResponse<T>>
+    ): Promise<PageResponse<T>> {
+      return api.getPage<T>(baseUrl, pageRequest, withSchema(pageSchema, options));
     },
 
-    async create<TCreate = Partial<T>>(data: TCreate): Promise<T> {
-      return http.post<TCreate, T>(baseUrl, data);
+    async create<TCreate = Partial<T>>(data: TCreate, options?: RequestOptions<T>): Promise<T> {
+      return api.post<TCreate, T>(baseUrl, data, withSchema(itemSchema, options));
     },
 
-    async update<TUpdate = Partial<T>>(id: string | number, data: TUpdate): Promise<T> {
-      return http.put<TUpdate, T>(`${baseUrl}/${id}`, data);
+    async update<TUpdate = Partial<T>>(
+      id: string | number,
+      data: TUpdate,
+      options?: RequestOptions<T>
+    ): Promise<T> {
+      return api.put<TUpdate, T>(`${baseUrl}/${id}`, data, withSchema(itemSchema, options));
     },
 
-    async patch<TUpdate = Partial<T>>(id: string | number, data: TUpdate): Promise<T> {
-      return http.patch<TUpdate, T>(`${baseUrl}/${id}`, data);
+    async patch<TUpdate = Partial<T>>(
+      id: string | number,
+      data: TUpdate,
+      options?: RequestOptions<T>
+    ): Promise<T> {
+      return api.patch<TUpdate, T>(`${baseUrl}/${id}`, data, withSchema(itemSchema, options));
     },
 
-    async delete(id: string | number): Promise<void> {
-      return http.delete<void>(`${baseUrl}/${id}`);
+    async delete(id: string | number, options?: RequestOptions<void>): Promise<void> {
+      return api.delete<void>(`${baseUrl}/${id}`, options);
     },
   };
 }
@@ -150,6 +352,11 @@ export function handleApiError(
     return;
   }
 
+  // Cancelled request is not an error
+  if (isAbortError(error)) {
+    return;
+  }
+
   switch (error.status) {
     case 400:
       handlers?.onBadRequest?.(error);
@@ -0,0 +1,16 @@
+/**
+ * Idempotency - Idempotency-Key header helpers
+ * 서버는 같은 키의 요청을 한 번만 처리하므로 POST/PUT/PATCH도 안전하게 재전송할 수 있습니다.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Generate a unique idempotency key
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
@@ -3,12 +3,65 @@
  */
 
 // Client
-export { createApiClient, getApiClient, initializeApiClient, ApiError } from './client';
-export type { ApiClientConfig } from './client';
+export {
+  createApiClient,
+  getApiClient,
+  initializeApiClient,
+  hasApiClient,
+  removeApiClient,
+  DEFAULT_CLIENT_NAME,
+  ApiError,
+  ABORTED_ERROR_CODE,
+  CIRCUIT_OPEN_ERROR_CODE,
+  OFFLINE_QUEUED_ERROR_CODE,
+  SCHEMA_MISMATCH_ERROR_CODE,
+  isAbortError,
+  toApiError,
+} from './client';
+export type { ApiClientConfig, ApiClient } from './client';
+
+// Middleware
+export {
+  authMiddleware,
+  batchMiddleware,
+  circuitBreakerMiddleware,
+  createRefreshRecovery,
+  createTokenRefresher,
+  dedupeMiddleware,
+  idempotencyMiddleware,
+  offlineMiddleware,
+  refreshMiddleware,
+  retryMiddleware,
+  RetryBudget,
+  retryBudget,
+  DEFAULT_MIDDLEWARES,
+} from './middleware';
+export type {
+  ApiMiddleware,
+  BuiltInMiddleware,
+  MiddlewareContext,
+  RequestNext,
+  ResponseNext,
+  ErrorNext,
+} from './middleware';
 
 // HTTP abstraction
-export { http, createApiService, handleApiError } from './http';
-export type { RequestOptions } from './http';
+export { http, createHttp, createApiService, handleApiError } from './http';
+export type { Http, RequestOptions, UploadOptions, RawRequestOptions, DownloadOptions } from './http';
+export { uploadFile, runWithConcurrency } from './upload';
+export type { UploadConfig, UploadProgress } from './upload';
+export { parseContentDisposition, saveBlob } from './download';
+export type { RawResponse, RawResponseType, RawResponseData, DownloadProgress } from './download';
+
+// Response schema
+export {
+  schema,
+  apiResponseSchema,
+  pageResponseSchema,
+  cursorPageResponseSchema,
+  validateSchema,
+} from './schema';
+export type { Schema, SchemaIssue, Infer } from './schema';
 
 // Types
 export type {
@@ -17,6 +70,8 @@ export type {
   FieldError,
   PageRequest,
   PageResponse,
+  CursorPageRequest,
+  CursorPageResponse,
   LoginRequest,
   LoginResponse,
   RefreshTokenRequest,
@@ -31,16 +86,63 @@ export { ErrorCodes } from './types';
 // API Hooks
 export {
   useApi,
+  useQuery,
+  useMutation,
   usePaginatedApi,
+  useCursorPaginatedApi,
+  useUpload,
+  useCircuitState,
+  useOfflineQueue,
+  withSignal,
+  withRequestOptions,
 } from './useApi';
 export type {
   UseApiState,
   UseApiOptions,
   UseApiResult,
+  ApiFunction,
+  AbortableApiFunction,
+  UseQueryOptions,
+  UseQueryResult,
+  UseMutationOptions,
+  UseMutationResult,
+  OptimisticUpdate,
+  UseOfflineQueueResult,
   UsePaginatedApiOptions,
   UsePaginatedApiResult,
+  UseCursorPaginatedApiOptions,
+  UseCursorPaginatedApiResult,
+  UseUploadOptions,
+  UseUploadResult,
+  UploadItem,
+  UploadStatus,
 } from './useApi';
 
+// Circuit breaker
+export { CircuitBreaker, circuitBreaker, parseRetryAfter } from './circuitBreaker';
+export type { CircuitState, CircuitBreakerConfig } from './circuitBreaker';
+
+// Refresh coordination
+export { RefreshCoordinator } from './refreshCoordinator';
+export type { RefreshCoordinatorConfig } from './refreshCoordinator';
+export { createTabChannel, createTabLock, TAB_ID } from './crossTab';
+export type { TabChannel, TabLock } from './crossTab';
+export { TokenRefreshScheduler, decodeJwtPayload, getTokenExpiresAt } from './tokenRefresh';
+export type { TokenRefreshSchedulerConfig } from './tokenRefresh';
+
+// Request dedupe / batching
+export { RequestBatcher, RequestDeduper } from './batch';
+export type { BatchConfig, BatchRequestItem, BatchResponseItem } from './batch';
+
+// Offline queue
+export { OfflineQueue, offlineQueue } from './offlineQueue';
+export { generateIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from './idempotency';
+export type { QueuedRequest, FailedRequest, OfflineQueueSnapshot } from './offlineQueue';
+
+// Query cache
+export { QueryCache, queryCache, invalidateQueries, hashQueryKey } from './queryCache';
+export type { QueryKey, QueryState, QueryFetchOptions } from './queryCache';
+
 // Services
 export { authApi } from './services/auth';
 export { healthApi } from './services/health';
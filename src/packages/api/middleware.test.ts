@@ -0,0 +1,444 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios, { type AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import {
+  runMiddlewareChain,
+  authMiddleware,
+  idempotencyMiddleware,
+  retryMiddleware,
+  retryBudget,
+  RetryBudget,
+  refreshMiddleware,
+  circuitBreakerMiddleware,
+  offlineMiddleware,
+  createRefreshRecovery,
+  createTokenRefresher,
+  resolveMiddlewares,
+  type MiddlewareContext,
+} from './middleware';
+import { createApiClient, type ApiClientConfig } from './client';
+import { RefreshCoordinator } from './refreshCoordinator';
+import { CircuitBreaker } from './circuitBreaker';
+import { OfflineQueue } from './offlineQueue';
+
+const createRequestConfig = (overrides: Partial<InternalAxiosRequestConfig> = {}) =>
+  ({ url: '/api/test', method: 'get', headers: {}, ...overrides }) as InternalAxiosRequestConfig;
+
+const createContext = () => {
+  const client = vi.fn().mockResolvedValue({ status: 200, data: 'ok' });
+  return { client: client as unknown as AxiosInstance, clientName: 'default' } satisfies MiddlewareContext;
+};
+
+const baseConfig: ApiClientConfig = {
+  baseURL: 'http://localhost:8080',
+  getAccessToken: () => null,
+  getRefreshToken: () => null,
+  setTokens: vi.fn(),
+  clearTokens: vi.fn(),
+};
+
+describe('runMiddlewareChain', () => {
+  it('등록 순서대로 실행 후 final 호출', async () => {
+    const order: string[] = [];
+    const handler = (name: string) => async (value: string, next: (v: string) => Promise<string>) => {
+      order.push(name);
+      return next(`${value}-${name}`);
+    };
+
+    const result = await runMiddlewareChain(
+      [handler('a'), handler('b')],
+      'start',
+      async (value) => `${value}-final`,
+      createContext()
+    );
+
+    expect(order).toEqual(['a', 'b']);
+    expect(result).toBe('start-a-b-final');
+  });
+
+  it('next를 호출하지 않으면 체인 중단', async () => {
+    const final = vi.fn();
+
+    const result = await runMiddlewareChain(
+      [async () => 'stopped', vi.fn()],
+      'start',
+      final,
+      createContext()
+    );
+
+    expect(result).toBe('stopped');
+    expect(final).not.toHaveBeenCalled();
+  });
+});
+
+describe('authMiddleware', () => {
+  it('토큰이 있으면 Authorization 헤더 추가', async () => {
+    const middleware = authMiddleware({ getAccessToken: () => 'test-token' });
+
+    const config = await middleware.onRequest!(createRequestConfig(), async (c) => c, createContext());
+
+    expect(config.headers.Authorization).toBe('Bearer test-token');
+  });
+
+  it('토큰이 없으면 헤더 없음', async () => {
+    const middleware = authMiddleware({ getAccessToken: () => null });
+
+    const config = await middleware.onRequest!(createRequestConfig(), async (c) => c, createContext());
+
+    expect(config.headers.Authorization).toBeUndefined();
+  });
+});
+
+describe('authMiddleware - refresh 대기', () => {
+  it('토큰 갱신 중인 요청은 갱신 후 새 토큰으로 전송', async () => {
+    const refreshCoordinator = new RefreshCoordinator();
+    let token = 'old-token';
+    let finishRefresh: () => void = () => {};
+    refreshCoordinator.run(
+      () =>
+        new Promise<string>((resolve) => {
+          finishRefresh = () => {
+            token = 'new-token';
+            resolve(token);
+          };
+        })
+    );
+
+    const middleware = authMiddleware({ getAccessToken: () => token, refreshCoordinator });
+    const next = vi.fn(async (config: InternalAxiosRequestConfig) => config);
+    const pending = middleware.onRequest!(createRequestConfig(), next, createContext());
+
+    await Promise.resolve();
+    expect(next).not.toHaveBeenCalled();
+
+    finishRefresh();
+    const config = await pending;
+    expect(config.headers.Authorization).toBe('Bearer new-token');
+  });
+});
+
+describe('idempotencyMiddleware', () => {
+  it('idempotent 요청에 Idempotency-Key 헤더 추가', async () => {
+    const middleware = idempotencyMiddleware();
+    const requestConfig = Object.assign(createRequestConfig({ method: 'post' }), { idempotent: true });
+
+    const config = await middleware.onRequest!(requestConfig, async (c) => c, createContext());
+
+    expect(config.headers['Idempotency-Key']).toEqual(expect.any(String));
+  });
+
+  it('재전송 시 기존 키 유지', async () => {
+    const middleware = idempotencyMiddleware();
+    const requestConfig = Object.assign(
+      createRequestConfig({ method: 'post', headers: { 'Idempotency-Key': 'fixed-key' } as never }),
+      { idempotent: true }
+    );
+
+    const config = await middleware.onRequest!(requestConfig, async (c) => c, createContext());
+
+    expect(config.headers['Idempotency-Key']).toBe('fixed-key');
+  });
+});
+
+describe('retryMiddleware', () => {
+  it('재시도 대상 상태 코드면 요청 재전송', async () => {
+    vi.useFakeTimers();
+    const middleware = retryMiddleware({ maxRetries: 1, retryDelay: 10 });
+    const ctx = createContext();
+    const next = vi.fn();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const error = { config: createRequestConfig(), response: { status: 503 } } as AxiosError;
+    const promise = middleware.onError!(error as AxiosError<never>, next, ctx);
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual({ status: 200, data: 'ok' });
+    expect(ctx.client).toHaveBeenCalledTimes(1);
+    expect(next).not.toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it('POST 요청은 기본적으로 재시도하지 않음', async () => {
+    const middleware = retryMiddleware();
+    const ctx = createContext();
+    const next = vi.fn().mockResolvedValue('passed');
+
+    const error = {
+      config: createRequestConfig({ method: 'post' }),
+      response: { status: 503 },
+    } as AxiosError;
+
+    await expect(middleware.onError!(error as AxiosError<never>, next, ctx)).resolves.toBe('passed');
+    expect(ctx.client).not.toHaveBeenCalled();
+  });
+
+  it('Idempotency-Key가 있는 POST 요청은 재시도', async () => {
+    vi.useFakeTimers();
+    const middleware = retryMiddleware({ maxRetries: 1, retryDelay: 10 });
+    const ctx = createContext();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const error = {
+      config: createRequestConfig({
+        method: 'post',
+        headers: { 'Idempotency-Key': 'key-1' } as never,
+      }),
+      response: { status: 503 },
+    } as AxiosError;
+    const promise = middleware.onError!(error as AxiosError<never>, vi.fn(), ctx);
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual({ status: 200, data: 'ok' });
+    vi.useRealTimers();
+  });
+
+  it('대기 중에 취소되면 지연을 기다리지 않고 바로 넘김 (axios가 취소로 reject)', async () => {
+    vi.useFakeTimers();
+    const middleware = retryMiddleware({ maxRetries: 1, retryDelay: 10000 });
+    const ctx = createContext();
+    const controller = new AbortController();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const error = {
+      config: createRequestConfig({ signal: controller.signal }),
+      response: { status: 503 },
+    } as AxiosError;
+    const promise = middleware.onError!(error as AxiosError<never>, vi.fn(), ctx);
+    controller.abort();
+
+    await promise;
+    expect(ctx.client).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+    expect(vi.getTimerCount()).toBe(0);
+    vi.useRealTimers();
+  });
+
+  it('재시도 예산은 기본적으로 모든 클라이언트가 공유', async () => {
+    const budget = new RetryBudget(1, 10000);
+    const first = retryMiddleware({ maxRetries: 1, retryDelay: 0, budget });
+    const second = retryMiddleware({ maxRetries: 1, retryDelay: 0, budget });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = () => ({ config: createRequestConfig(), response: { status: 503 } }) as AxiosError;
+    const next = vi.fn().mockResolvedValue('passed');
+
+    await first.onError!(error() as AxiosError<never>, next, createContext());
+    await expect(second.onError!(error() as AxiosError<never>, next, createContext())).resolves.toBe('passed');
+
+    const shared = vi.spyOn(retryBudget, 'tryAcquire').mockReturnValue(false);
+    await expect(retryMiddleware().onError!(error() as AxiosError<never>, next, createContext())).resolves.toBe(
+      'passed'
+    );
+    expect(shared).toHaveBeenCalled();
+  });
+});
+
+describe('refreshMiddleware', () => {
+  it('coordinator를 공유하는 클라이언트들의 동시 401은 refresh 한 번으로 처리', async () => {
+    const refreshCoordinator = new RefreshCoordinator();
+    const setTokens = vi.fn();
+    let resolveRefresh: (value: unknown) => void = () => {};
+    const post = vi.fn(
+      () => new Promise((resolve) => {
+        resolveRefresh = resolve;
+      })
+    );
+
+    const createClient = (clientName: string) => {
+      const client = Object.assign(vi.fn().mockResolvedValue({ status: 200, data: 'ok' }), { post });
+      return { client: client as unknown as AxiosInstance, clientName };
+    };
+    const main = createClient('default');
+    const analytics = createClient('analytics');
+
+    const config = { ...baseConfig, getRefreshToken: () => 'refresh', setTokens, refreshCoordinator };
+    const unauthorized = () =>
+      ({ config: createRequestConfig(), response: { status: 401 } }) as AxiosError<never>;
+
+    const pending = [
+      refreshMiddleware(config).onError!(unauthorized(), vi.fn(), main),
+      refreshMiddleware(config).onError!(unauthorized(), vi.fn(), analytics),
+    ];
+    await vi.waitFor(() => expect(post).toHaveBeenCalledTimes(1));
+    resolveRefresh({ data: { data: { accessToken: 'new-token' } } });
+
+    await expect(Promise.all(pending)).resolves.toHaveLength(2);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(setTokens).toHaveBeenCalledWith('new-token', undefined, undefined);
+    const replayed = vi.mocked(analytics.client as unknown as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(replayed.headers.Authorization).toBe('Bearer new-token');
+  });
+});
+
+describe('refreshMiddleware - 이미 갱신된 토큰', () => {
+  it('요청 이후 토큰이 바뀌었으면 refresh 없이 새 토큰으로 재요청', async () => {
+    const ctx = createContext();
+    const post = vi.fn();
+    Object.assign(ctx.client, { post });
+    const middleware = refreshMiddleware({ ...baseConfig, getAccessToken: () => 'synced-token' });
+    const error = {
+      config: createRequestConfig({ headers: { Authorization: 'Bearer old-token' } as never }),
+      response: { status: 401 },
+    } as AxiosError<never>;
+
+    await middleware.onError!(error, vi.fn(), ctx);
+
+    expect(post).not.toHaveBeenCalled();
+    const replayed = vi.mocked(ctx.client as unknown as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(replayed.headers.Authorization).toBe('Bearer synced-token');
+  });
+});
+
+describe('createTokenRefresher', () => {
+  it('cookie 모드에서는 body 없이 withCredentials로 refresh', async () => {
+    const post = vi.fn().mockResolvedValue({ data: { data: { accessToken: 'new-token', expiresIn: 900 } } });
+    const setTokens = vi.fn();
+    const refresh = createTokenRefresher({ ...baseConfig, setTokens, refreshTokenMode: 'cookie' });
+
+    await expect(refresh({ post } as unknown as AxiosInstance)).resolves.toBe('new-token');
+
+    expect(post).toHaveBeenCalledWith(
+      '/api/auth/refresh',
+      undefined,
+      expect.objectContaining({ withCredentials: true })
+    );
+    expect(setTokens).toHaveBeenCalledWith('new-token', undefined, 900);
+  });
+
+});
+
+describe('createRefreshRecovery', () => {
+  it('refresh 실패 시 재로그인 결과 토큰을 사용하고 세션 유지', async () => {
+    const clearTokens = vi.fn();
+    const onUnauthorized = vi.fn();
+    const recover = createRefreshRecovery({
+      clearTokens,
+      onUnauthorized,
+      reauthenticate: () => Promise.resolve('relogin-token'),
+    });
+
+    await expect(recover(new Error('expired'))).resolves.toBe('relogin-token');
+    expect(clearTokens).not.toHaveBeenCalled();
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it('재로그인을 포기하면 토큰 삭제 후 onUnauthorized 호출', async () => {
+    const clearTokens = vi.fn();
+    const onUnauthorized = vi.fn();
+    const recover = createRefreshRecovery({
+      clearTokens,
+      onUnauthorized,
+      reauthenticate: () => Promise.resolve(null),
+    });
+
+    await expect(recover(new Error('expired'))).rejects.toThrow('expired');
+    expect(clearTokens).toHaveBeenCalled();
+    expect(onUnauthorized).toHaveBeenCalled();
+  });
+});
+
+describe('resolveMiddlewares', () => {
+  it('기본 내장 미들웨어 순서', () => {
+    expect(resolveMiddlewares(baseConfig).map((m) => m.name)).toEqual([
+      'dedupe',
+      'batch',
+      'idempotency',
+      'offline',
+      'auth',
+      'circuitBreaker',
+      'refresh',
+      'retry',
+    ]);
+  });
+
+  it('내장 미들웨어 제외/재배치 및 커스텀 미들웨어 추가', () => {
+    const tenant = { name: 'tenant' };
+
+    const middlewares = resolveMiddlewares({
+      ...baseConfig,
+      middlewares: [tenant, 'retry', 'auth'],
+    });
+
+    expect(middlewares.map((m) => m.name)).toEqual(['tenant', 'retry', 'auth']);
+  });
+});
+
+describe('circuitBreakerMiddleware', () => {
+  // cooldown이 지나 half-open 상태인 breaker
+  const openBreaker = () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now - 1000);
+    breaker.recordFailure('/api/ads');
+    dateNow.mockRestore();
+    return breaker;
+  };
+
+  it('취소된 half-open 시험 요청은 슬롯을 반환', async () => {
+    const breaker = openBreaker();
+    const client = createApiClient({ ...baseConfig, middlewares: [circuitBreakerMiddleware(breaker)] });
+    const adapter = vi.fn((requestConfig: InternalAxiosRequestConfig) =>
+      new Promise<never>((_, reject) => {
+        requestConfig.signal?.addEventListener?.('abort', () => reject(Object.assign(new axios.CanceledError(), { config: requestConfig })));
+      })
+    );
+    client.defaults.adapter = adapter;
+
+    const controller = new AbortController();
+    const trial = client.get('/api/ads', { signal: controller.signal });
+    await vi.waitFor(() => expect(adapter).toHaveBeenCalled());
+    await expect(client.get('/api/ads')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    controller.abort();
+    await expect(trial).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(breaker.acquire('/api/ads')).toBe(0);
+  });
+
+  it('failureStatuses가 아닌 에러 응답은 시험 요청 성공으로 처리', async () => {
+    const breaker = openBreaker();
+    const client = createApiClient({ ...baseConfig, middlewares: [circuitBreakerMiddleware(breaker)] });
+    client.defaults.adapter = (requestConfig) =>
+      Promise.reject(
+        new axios.AxiosError('Not Found', 'ERR_BAD_REQUEST', requestConfig, null, {
+          status: 404,
+          statusText: 'Not Found',
+          headers: {},
+          config: requestConfig,
+          data: { status: 404, code: 'NOT_FOUND', message: 'Not Found', timestamp: '', path: '/api/ads/1' },
+        })
+      );
+
+    await expect(client.get('/api/ads/1')).rejects.toMatchObject({ status: 404 });
+    expect(breaker.getState('/api/ads')).toBe('closed');
+  });
+});
+
+describe('offlineMiddleware', () => {
+  it('오프라인이면 클라이언트 이름과 함께 큐에 저장하고 OFFLINE_QUEUED로 reject', async () => {
+    const queue = new OfflineQueue();
+    const enqueue = vi.spyOn(queue, 'enqueue').mockReturnValue('key-1');
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const requestConfig = createRequestConfig({ method: 'post', data: '{"a":1}' });
+    Object.assign(requestConfig, { offline: true });
+
+    const ctx = { ...createContext(), clientName: 'analytics' };
+    await expect(
+      (async () => offlineMiddleware(queue).onRequest!(requestConfig, async (c) => c, ctx))()
+    ).rejects.toMatchObject({ code: 'OFFLINE_QUEUED' });
+
+    expect(enqueue).toHaveBeenCalledWith(expect.objectContaining({ client: 'analytics', method: 'POST', data: { a: 1 } }));
+    vi.restoreAllMocks();
+  });
+
+  it('응답 후 해당 클라이언트의 남은 요청만 재전송', async () => {
+    const queue = new OfflineQueue();
+    const flush = vi.spyOn(queue, 'flush').mockResolvedValue();
+    vi.spyOn(queue, 'hasPending').mockImplementation((name) => name === 'analytics');
+    const middleware = offlineMiddleware(queue);
+    const response = { status: 200, data: 'ok', config: createRequestConfig() } as never;
+
+    await middleware.onResponse!(response, async (r) => r, createContext());
+    expect(flush).not.toHaveBeenCalled();
+
+    await middleware.onResponse!(response, async (r) => r, { ...createContext(), clientName: 'analytics' });
+    expect(flush).toHaveBeenCalledWith('analytics');
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,592 @@
+/**
+ * API Middleware - Ordered request/response pipeline for createApiClient
+ *
+ * 각 미들웨어는 next()를 호출해 다음 미들웨어로 넘기거나,
+ * 직접 값을 반환/throw 하여 체인을 중단할 수 있습니다.
+ */
+
+import type {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  GenericAbortSignal,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import type { ApiClientConfig } from './client';
+import type { ApiResponse, ErrorResponse, RefreshTokenResponse } from './types';
+import { ApiError, CIRCUIT_OPEN_ERROR_CODE, OFFLINE_QUEUED_ERROR_CODE } from './errors';
+import { offlineQueue as sharedOfflineQueue, type OfflineQueue } from './offlineQueue';
+import { generateIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from './idempotency';
+import { circuitBreaker as sharedCircuitBreaker, parseRetryAfter, type CircuitBreaker } from './circuitBreaker';
+import { RequestBatcher, RequestDeduper, type BatchConfig } from './batch';
+import { RefreshCoordinator } from './refreshCoordinator';
+
+export interface MiddlewareContext {
+  /** Axios instance (re-send requests with ctx.client(config)) */
+  client: AxiosInstance;
+  /** Registered client name (initializeApiClient, 기본: 'default') */
+  clientName: string;
+}
+
+export type RequestNext = (config: InternalAxiosRequestConfig) => Promise<InternalAxiosRequestConfig>;
+export type ResponseNext = (response: AxiosResponse) => Promise<AxiosResponse>;
+export type ErrorNext = (error: AxiosError<ErrorResponse>) => Promise<AxiosResponse>;
+
+export interface ApiMiddleware {
+  /** Middleware name (for debugging / removal) */
+  name: string;
+  /** Before request is sent */
+  onRequest?: (
+    config: InternalAxiosRequestConfig,
+    next: RequestNext,
+    ctx: MiddlewareContext
+  ) => Promise<InternalAxiosRequestConfig>;
+  /** After successful response */
+  onResponse?: (
+    response: AxiosResponse,
+    next: ResponseNext,
+    ctx: MiddlewareContext
+  ) => Promise<AxiosResponse>;
+  /** On error - return a response to recover, or call next(error) to pass on */
+  onError?: (
+    error: AxiosError<ErrorResponse>,
+    next: ErrorNext,
+    ctx: MiddlewareContext
+  ) => Promise<AxiosResponse>;
+  /** Request was cancelled (onError는 호출되지 않음) - 요청 단위로 잡은 자원 해제 */
+  onCancel?: (config: InternalAxiosRequestConfig | undefined, ctx: MiddlewareContext) => void;
+}
+
+/** Built-in middleware names */
+export type BuiltInMiddleware =
+  | 'dedupe'
+  | 'batch'
+  | 'idempotency'
+  | 'offline'
+  | 'auth'
+  | 'circuitBreaker'
+  | 'refresh'
+  | 'retry';
+
+export const DEFAULT_MIDDLEWARES: BuiltInMiddleware[] = [
+  'dedupe',
+  'batch',
+  'idempotency',
+  'offline',
+  'auth',
+  'circuitBreaker',
+  'refresh',
+  'retry',
+];
+
+type Handler<T, R> = (value: T, next: (value: T) => Promise<R>, ctx: MiddlewareContext) => Promise<R>;
+
+/**
+ * Run handlers in order, each receiving next() to the rest of the chain
+ */
+export function runMiddlewareChain<T, R>(
+  handlers: Array<Handler<T, R>>,
+  value: T,
+  final: (value: T) => Promise<R>,
+  ctx: MiddlewareContext
+): Promise<R> {
+  const dispatch = (index: number, current: T): Promise<R> => {
+    const handler = handlers[index];
+    if (!handler) return final(current);
+    return Promise.resolve().then(() =>
+      handler(current, (nextValue) => dispatch(index + 1, nextValue), ctx)
+    );
+  };
+  return dispatch(0, value);
+}
+
+// ============================================
+// Built-in middlewares
+// ============================================
+
+// Marks the refresh request itself (not paused by auth middleware)
+type TokenRefreshRequestConfig = InternalAxiosRequestConfig & { _tokenRefresh?: boolean };
+
+/**
+ * Auth - Add Bearer token to requests
+ * 토큰 갱신 중에는 갱신이 끝날 때까지 기다렸다가 새 토큰을 붙입니다.
+ */
+export function authMiddleware(
+  config: Pick<ApiClientConfig, 'getAccessToken' | 'refreshCoordinator'>
+): ApiMiddleware {
+  return {
+    name: 'auth',
+    onRequest: async (requestConfig, next) => {
+      const { _tokenRefresh } = requestConfig as TokenRefreshRequestConfig;
+      // 재로그인 요청은 refresh(재로그인 대기)를 기다리지 않음
+      const isLogin = requestConfig.url?.includes('/auth/login');
+      if (config.refreshCoordinator?.isRefreshing && !_tokenRefresh && !isLogin) {
+        await config.refreshCoordinator.wait();
+      }
+
+      const token = config.getAccessToken();
+      if (token) {
+        requestConfig.headers.Authorization = `Bearer ${token}`;
+      }
+      return next(requestConfig);
+    },
+  };
+}
+
+/**
+ * Idempotency - Attach a stable Idempotency-Key to requests with idempotent: true
+ * 재시도/토큰 갱신 후 재요청은 같은 config를 재사용하므로 키가 유지됩니다.
+ */
+export function idempotencyMiddleware(): ApiMiddleware {
+  return {
+    name: 'idempotency',
+    onRequest: (requestConfig, next) => {
+      const config = requestConfig as InternalAxiosRequestConfig & { idempotent?: boolean };
+
+      if (config.idempotent && !config.headers[IDEMPOTENCY_KEY_HEADER]) {
+        config.headers[IDEMPOTENCY_KEY_HEADER] = generateIdempotencyKey();
+      }
+
+      return next(requestConfig);
+    },
+  };
+}
+
+/**
+ * Dedupe - Share one network request between identical in-flight GETs
+ * 나머지 미들웨어(auth 등) 적용 후의 config로 키를 만들기 위해 next() 이후에 adapter를 감쌉니다.
+ * 요청별로 끄려면 dedupe: false
+ */
+export function dedupeMiddleware(deduper: RequestDeduper = new RequestDeduper()): ApiMiddleware {
+  return {
+    name: 'dedupe',
+    onRequest: async (requestConfig, next) => {
+      const config = await next(requestConfig);
+      const { dedupe } = config as InternalAxiosRequestConfig & { dedupe?: boolean };
+      return dedupe === false ? config : deduper.wrap(config);
+    },
+  };
+}
+
+/**
+ * Batch - Send opt-in requests (batch: true) as one request to the batch endpoint
+ * 개별 응답은 각 호출자에게 분배되며, 실패한 항목은 호출자별 에러로 reject 됩니다.
+ */
+export function batchMiddleware(config: BatchConfig = {}): ApiMiddleware {
+  const batcher = new RequestBatcher(config);
+
+  return {
+    name: 'batch',
+    onRequest: async (requestConfig, next, { client }) => {
+      batcher.setClient(client);
+      const nextConfig = await next(requestConfig);
+      const { batch } = nextConfig as InternalAxiosRequestConfig & { batch?: boolean };
+      return batch ? batcher.wrap(nextConfig) : nextConfig;
+    },
+  };
+}
+
+type OfflineRequestConfig = InternalAxiosRequestConfig & {
+  offline?: boolean;
+  _offlineReplay?: boolean;
+};
+
+const MUTATION_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+function isQueueable(config: OfflineRequestConfig | undefined): config is OfflineRequestConfig {
+  return !!config?.offline &&
+    !config._offlineReplay &&
+    MUTATION_METHODS.includes(config.method?.toUpperCase() || '');
+}
+
+// config.data is already serialized when the request failed
+function parseRequestData(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function enqueueOffline(queue: OfflineQueue, config: OfflineRequestConfig, clientName: string): never {
+  const id = queue.enqueue({
+    id: config.headers?.[IDEMPOTENCY_KEY_HEADER] as string | undefined,
+    client: clientName,
+    method: config.method?.toUpperCase() || 'POST',
+    url: config.url || '',
+    data: parseRequestData(config.data),
+    params: config.params,
+  });
+
+  throw new ApiError({
+    status: 0,
+    code: OFFLINE_QUEUED_ERROR_CODE,
+    message: `Request queued for replay when online (${id})`,
+    timestamp: new Date().toISOString(),
+    path: config.url || '',
+  });
+}
+
+/**
+ * Offline - Queue opt-in mutations (offline: true) while offline
+ * 요청은 ApiError(code: 'OFFLINE_QUEUED')로 reject 되고, 온라인 복귀 시 순서대로 재전송됩니다.
+ * 큐의 요청은 저장한 클라이언트(baseURL, 인증)로만 재전송됩니다.
+ */
+export function offlineMiddleware(queue: OfflineQueue = sharedOfflineQueue): ApiMiddleware {
+  return {
+    name: 'offline',
+    onRequest: (requestConfig, next, { client, clientName }) => {
+      queue.setClient(client, clientName);
+      const config = requestConfig as OfflineRequestConfig;
+
+      if (isQueueable(config) && typeof navigator !== 'undefined' && !navigator.onLine) {
+        enqueueOffline(queue, config, clientName);
+      }
+
+      return next(requestConfig);
+    },
+    onResponse: (response, next, { clientName }) => {
+      // Connectivity is back - replay this client's leftovers (e.g., after reload)
+      const { _offlineReplay } = response.config as OfflineRequestConfig;
+      if (!_offlineReplay && queue.hasPending(clientName)) {
+        queue.flush(clientName).catch(() => {
+          // Remaining items stay queued
+        });
+      }
+      return next(response);
+    },
+    onError: (error, next, { clientName }) => {
+      const config = error.config as OfflineRequestConfig | undefined;
+
+      // Network error (no response) on an opt-in mutation
+      if (!error.response && isQueueable(config)) {
+        enqueueOffline(queue, config, clientName);
+      }
+
+      return next(error);
+    },
+  };
+}
+
+// Default refresh endpoint
+const DEFAULT_REFRESH_ENDPOINT = '/api/auth/refresh';
+
+/**
+ * Token refresher - POST refresh endpoint and store the new access token
+ * refreshTokenMode가 'cookie'면 body 없이 httpOnly 쿠키로 refresh 합니다.
+ * 실패하면 그대로 throw - RefreshCoordinator.run에 createRefreshRecovery를 함께 넘기세요.
+ */
+export function createTokenRefresher(
+  config: Pick<
+    ApiClientConfig,
+    | 'getRefreshToken'
+    | 'setTokens'
+    | 'refreshEndpoint'
+    | 'refreshTokenMode'
+  >
+): (client: AxiosInstance) => Promise<string> {
+  const refreshEndpoint = config.refreshEndpoint ?? DEFAULT_REFRESH_ENDPOINT;
+  const cookieMode = config.refreshTokenMode === 'cookie';
+
+  return async (client) => {
+    const refreshToken = cookieMode ? null : config.getRefreshToken();
+    if (!cookieMode && !refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    // 설정된 클라이언트를 사용하여 refresh 요청 (미들웨어 적용)
+    const response = await client.post<ApiResponse<RefreshTokenResponse>>(
+      refreshEndpoint,
+      cookieMode ? undefined : { refreshToken },
+      { _tokenRefresh: true, ...(cookieMode && { withCredentials: true }) } as AxiosRequestConfig
+    );
+
+    const { accessToken, expiresIn } = response.data.data;
+    config.setTokens(accessToken, undefined, expiresIn);
+    return accessToken;
+  };
+}
+
+/**
+ * Refresh failure handling - reauthenticate(재로그인)를 기다리고,
+ * 없거나 취소되면 토큰을 삭제하고 onUnauthorized를 호출합니다.
+ * 프롬프트가 떠 있는 동안 다른 탭이 기다리지 않도록 refresh lock 밖에서 실행됩니다.
+ */
+export function createRefreshRecovery(
+  config: Pick<ApiClientConfig, 'clearTokens' | 'onUnauthorized' | 'reauthenticate'>
+): (refreshError: unknown) => Promise<string> {
+  return async (refreshError) => {
+    const accessToken = await config.reauthenticate?.().catch(() => null);
+    if (accessToken) return accessToken;
+
+    config.clearTokens();
+    config.onUnauthorized?.();
+    throw refreshError;
+  };
+}
+
+
+/**
+ * Refresh - Refresh access token on 401 and replay the request
+ * 갱신 중에 들어온 401 요청은 같은 refresh 결과를 기다렸다가 새 토큰으로 재요청됩니다.
+ * config.refreshCoordinator를 공유하면 여러 클라이언트의 refresh가 한 번으로 합쳐집니다.
+ */
+export function refreshMiddleware(
+  config: Pick<
+    ApiClientConfig,
+    | 'getAccessToken'
+    | 'getRefreshToken'
+    | 'setTokens'
+    | 'clearTokens'
+    | 'onUnauthorized'
+    | 'reauthenticate'
+    | 'refreshEndpoint'
+    | 'refreshTokenMode'
+    | 'refreshCoordinator'
+  >
+): ApiMiddleware {
+  const coordinator = config.refreshCoordinator ?? new RefreshCoordinator();
+  const refresh = createTokenRefresher(config);
+  const recover = createRefreshRecovery(config);
+
+  return {
+    name: 'refresh',
+    onError: async (error, next, { client }) => {
+      const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
+
+      if (error.response?.status !== 401 || !originalRequest || originalRequest._retry) {
+        return next(error);
+      }
+
+      // refresh 요청 자체의 실패는 refresh recovery가 처리 (재로그인 / 로그아웃)
+      if ((originalRequest as TokenRefreshRequestConfig)._tokenRefresh) {
+        return next(error);
+      }
+
+      // Skip refresh for auth endpoints
+      if (originalRequest.url?.includes('/auth/login') ||
+          originalRequest.url?.includes('/auth/refresh')) {
+        // 재로그인 중의 로그인 실패는 세션을 유지 (재로그인 프롬프트에서 처리)
+        if (!coordinator.isRefreshing) {
+          config.clearTokens();
+          config.onUnauthorized?.();
+        }
+        return next(error);
+      }
+
+      originalRequest._retry = true;
+
+      // 요청 후 이미 갱신된 토큰이 있으면 (다른 탭 / 다른 클라이언트) 바로 재요청
+      const currentToken = config.getAccessToken();
+      const sentAuthorization = originalRequest.headers.Authorization;
+      if (currentToken && sentAuthorization && sentAuthorization !== `Bearer ${currentToken}`) {
+        originalRequest.headers.Authorization = `Bearer ${currentToken}`;
+        return client(originalRequest);
+      }
+
+      const accessToken = await coordinator.run(() => refresh(client), recover);
+      originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+
+      return client(originalRequest);
+    },
+  };
+}
+
+type CircuitRequestConfig = InternalAxiosRequestConfig & { _circuitTrial?: boolean };
+
+/**
+ * Circuit Breaker - Fail fast with CIRCUIT_OPEN while an endpoint is down
+ * half-open 시험 요청은 응답, 에러, 취소 중 어떤 식으로 끝나도 슬롯을 반환합니다.
+ */
+export function circuitBreakerMiddleware(
+  breaker: CircuitBreaker = sharedCircuitBreaker
+): ApiMiddleware {
+  return {
+    name: 'circuitBreaker',
+    onRequest: (requestConfig, next) => {
+      const key = breaker.getKey(requestConfig.url);
+      const remaining = breaker.acquire(key);
+
+      if (remaining > 0) {
+        throw new ApiError({
+          status: 503,
+          code: CIRCUIT_OPEN_ERROR_CODE,
+          message: `Circuit open for ${key} (retry in ${Math.ceil(remaining / 1000)}s)`,
+          timestamp: new Date().toISOString(),
+          path: requestConfig.url || '',
+        });
+      }
+
+      if (breaker.getState(key) === 'half-open') {
+        (requestConfig as CircuitRequestConfig)._circuitTrial = true;
+      }
+      return next(requestConfig);
+    },
+    onResponse: (response, next) => {
+      breaker.recordSuccess(breaker.getKey(response.config?.url));
+      return next(response);
+    },
+    onError: (error, next) => {
+      if (error.config) {
+        breaker.recordFailure(
+          breaker.getKey(error.config.url),
+          error.response?.status,
+          parseRetryAfter(error.response?.headers?.['retry-after'])
+        );
+      }
+      return next(error);
+    },
+    onCancel: (requestConfig) => {
+      if ((requestConfig as CircuitRequestConfig | undefined)?._circuitTrial) {
+        breaker.release(breaker.getKey(requestConfig!.url));
+      }
+    },
+  };
+}
+
+// Retry configuration defaults
+export const DEFAULT_RETRY_CONFIG = {
+  maxRetries: 3,
+  retryDelay: 1000,
+  retryOn: [408, 500, 502, 503, 504], // Request Timeout, Server errors
+  // 전역 재시도 예산: window(ms) 동안 최대 maxRetries회 (모든 요청 합산)
+  budget: { maxRetries: 10, window: 10000 },
+};
+
+/**
+ * Retry budget - Sliding window limit on total retries
+ */
+export class RetryBudget {
+  private timestamps: number[] = [];
+  private maxRetries: number;
+  private window: number;
+
+  constructor(maxRetries: number, window: number) {
+    this.maxRetries = maxRetries;
+    this.window = window;
+  }
+
+  /** Consume one retry (returns false if budget exhausted) */
+  tryAcquire(): boolean {
+    const now = Date.now();
+    this.timestamps = this.timestamps.filter((t) => now - t < this.window);
+    if (this.timestamps.length >= this.maxRetries) return false;
+    this.timestamps.push(now);
+    return true;
+  }
+}
+
+// Shared instance (all API clients in this tab)
+export const retryBudget = new RetryBudget(
+  DEFAULT_RETRY_CONFIG.budget.maxRetries,
+  DEFAULT_RETRY_CONFIG.budget.window
+);
+
+// Calculate delay with exponential backoff
+function calculateRetryDelay(retryCount: number, baseDelay: number): number {
+  // Exponential backoff: 1s, 2s, 4s, ...
+  const exponentialDelay = baseDelay * Math.pow(2, retryCount - 1);
+  // Add jitter (±20%) to prevent thundering herd
+  const jitter = exponentialDelay * 0.2 * (Math.random() - 0.5);
+  return Math.min(exponentialDelay + jitter, 30000); // Max 30 seconds
+}
+
+// Sleep utility - abort 시 바로 깨어남
+const sleep = (ms: number, signal?: GenericAbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+
+/**
+ * Retry - Retry network errors and specific status codes with backoff
+ * 재시도 예산은 기본적으로 모든 클라이언트가 공유합니다 (retryBudget).
+ */
+export function retryMiddleware(retry: ApiClientConfig['retry'] = {}): ApiMiddleware {
+  const retryConfig = { ...DEFAULT_RETRY_CONFIG, ...retry };
+  const budget = !retry.budget
+    ? retryBudget
+    : retry.budget instanceof RetryBudget
+      ? retry.budget
+      : new RetryBudget(retry.budget.maxRetries, retry.budget.window);
+
+  return {
+    name: 'retry',
+    onError: async (error, next, { client }) => {
+      const originalRequest = error.config as InternalAxiosRequestConfig & { _retryCount?: number };
+      if (!originalRequest) return next(error);
+
+      const retryCount = originalRequest._retryCount || 0;
+      const shouldRetry =
+        retryCount < retryConfig.maxRetries &&
+        (
+          // Network error (no response)
+          !error.response ||
+          // Specific status codes
+          (error.response?.status && retryConfig.retryOn.includes(error.response.status))
+        ) &&
+        // Don't retry POST/PUT/PATCH by default (not idempotent) unless an Idempotency-Key is set
+        // (X-Idempotent: 'true' is still accepted for backward compatibility)
+        (!['POST', 'PUT', 'PATCH'].includes(originalRequest.method?.toUpperCase() || '') ||
+          !!originalRequest.headers?.[IDEMPOTENCY_KEY_HEADER] ||
+          originalRequest.headers?.['X-Idempotent'] === 'true');
+
+      if (!shouldRetry) {
+        return next(error);
+      }
+
+      if (!budget.tryAcquire()) {
+        console.warn(`[API] Retry budget exhausted, not retrying ${originalRequest.url}`);
+        return next(error);
+      }
+
+      originalRequest._retryCount = retryCount + 1;
+      // 429/503 Retry-After 헤더가 있으면 서버가 요청한 시간만큼 대기
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      const delay = retryAfter !== null
+        ? Math.min(retryAfter, 30000)
+        : calculateRetryDelay(retryCount + 1, retryConfig.retryDelay);
+
+      console.warn(
+        `[API] Retry ${retryCount + 1}/${retryConfig.maxRetries} after ${Math.round(delay)}ms for ${originalRequest.url}`
+      );
+
+      await sleep(delay, originalRequest.signal);
+      // Aborted while waiting - axios rejects immediately with a cancel error (요청은 보내지 않음)
+      return client(originalRequest);
+    },
+  };
+}
+
+/**
+ * Resolve middleware list (built-in names → instances)
+ */
+export function resolveMiddlewares(config: ApiClientConfig): ApiMiddleware[] {
+  const builtIns: Record<BuiltInMiddleware, () => ApiMiddleware> = {
+    dedupe: () => dedupeMiddleware(),
+    batch: () => batchMiddleware(config.batch),
+    idempotency: () => idempotencyMiddleware(),
+    offline: () => offlineMiddleware(config.offlineQueue),
+    auth: () => authMiddleware(config),
+    circuitBreaker: () => circuitBreakerMiddleware(config.circuitBreaker),
+    refresh: () => refreshMiddleware(config),
+    retry: () => retryMiddleware(config.retry),
+  };
+
+  return (config.middlewares ?? DEFAULT_MIDDLEWARES).map((middleware) =>
+    typeof middleware === 'string' ? builtIns[middleware]() : middleware
+  );
+}
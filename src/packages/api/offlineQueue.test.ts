@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AxiosInstance } from 'axios';
+import { OfflineQueue } from './offlineQueue';
+import { ApiError } from './errors';
+import type { TabLock } from './crossTab';
+import { Storage, type StorageDriver } from '../utils/storage';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  const driver: StorageDriver = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+    clear: () => items.clear(),
+  };
+  return new Storage(driver, 'test');
+};
+
+const createClient = (request = vi.fn().mockResolvedValue({ status: 200 })) =>
+  ({ request }) as unknown as AxiosInstance & { request: ReturnType<typeof vi.fn> };
+
+// Web Locks 대신 같은 테스트 안에서 공유하는 lock
+const createLock = (): TabLock => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    run: (task) => {
+      const result = queue.then(task);
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+};
+
+const serverError = (status: number) =>
+  new ApiError({ status, code: `HTTP_${status}`, message: 'fail', path: '', timestamp: '' });
+
+describe('OfflineQueue', () => {
+  let storage: Storage;
+  let queue: OfflineQueue;
+
+  beforeEach(() => {
+    storage = createStorage();
+    queue = new OfflineQueue(storage);
+  });
+
+  it('같은 id는 한 번만 저장', () => {
+    queue.enqueue({ id: 'key-1', method: 'POST', url: '/api/ads' });
+    queue.enqueue({ id: 'key-1', method: 'POST', url: '/api/ads' });
+
+    expect(queue.getSnapshot().pending).toHaveLength(1);
+  });
+
+  it('저장한 요청을 새 인스턴스에서 복원', () => {
+    queue.enqueue({ id: 'key-1', client: 'analytics', method: 'POST', url: '/api/events', data: { a: 1 } });
+
+    const restored = new OfflineQueue(storage);
+
+    expect(restored.getSnapshot().pending).toEqual([
+      expect.objectContaining({ id: 'key-1', client: 'analytics', data: { a: 1 } }),
+    ]);
+  });
+
+  it('저장 순서대로 Idempotency-Key와 함께 재전송', async () => {
+    const client = createClient();
+    queue.setClient(client);
+    queue.enqueue({ id: 'key-1', method: 'POST', url: '/api/ads' });
+    queue.enqueue({ id: 'key-2', method: 'DELETE', url: '/api/ads/1' });
+
+    await queue.flush();
+
+    expect(client.request.mock.calls.map(([config]) => [config.url, config.headers['Idempotency-Key']])).toEqual([
+      ['/api/ads', 'key-1'],
+      ['/api/ads/1', 'key-2'],
+    ]);
+    expect(queue.getSnapshot().pending).toEqual([]);
+  });
+
+  it('5xx면 중단하고 남은 요청 유지, 4xx는 failures로 이동', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(serverError(400))
+      .mockRejectedValueOnce(serverError(503));
+    queue.setClient(createClient(request));
+    queue.enqueue({ id: 'key-1', method: 'POST', url: '/api/ads' });
+    queue.enqueue({ id: 'key-2', method: 'POST', url: '/api/ads' });
+    queue.enqueue({ id: 'key-3', method: 'POST', url: '/api/ads' });
+
+    await expect(queue.flush()).rejects.toMatchObject({ status: 503 });
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(queue.getSnapshot().failures.map((item) => item.id)).toEqual(['key-1']);
+    expect(queue.getSnapshot().pending.map((item) => item.id)).toEqual(['key-2', 'key-3']);
+  });
+
+  it('요청을 저장한 클라이언트로만 재전송', async () => {
+    const main = createClient();
+    const analytics = createClient();
+    queue.setClient(main);
+    queue.enqueue({ id: 'key-1', client: 'analytics', method: 'POST', url: '/api/events' });
+    queue.enqueue({ id: 'key-2', method: 'POST', url: '/api/ads' });
+
+    await queue.flush();
+    expect(main.request).toHaveBeenCalledTimes(1);
+    expect(queue.getSnapshot().pending.map((item) => item.id)).toEqual(['key-1']);
+
+    queue.setClient(analytics, 'analytics');
+    await queue.flush('analytics');
+    expect(analytics.request).toHaveBeenCalledWith(expect.objectContaining({ url: '/api/events' }));
+    expect(main.request).toHaveBeenCalledTimes(1);
+    expect(queue.hasPending()).toBe(false);
+  });
+
+  it('scope별로 따로 저장하고, clear 후에는 다음 사용자에게 재전송하지 않음', async () => {
+    const client = createClient();
+    queue.setClient(client);
+    queue.setScope('user-a');
+    queue.enqueue({ id: 'key-a', method: 'POST', url: '/api/ads' });
+
+    // 로그아웃 → 다른 사용자 로그인
+    queue.clear();
+    queue.setScope('user-b');
+    await queue.flush();
+
+    expect(client.request).not.toHaveBeenCalled();
+    queue.setScope('user-a');
+    expect(queue.hasPending()).toBe(false);
+  });
+
+  it('다른 사용자의 scope에 저장된 요청은 보이지 않음', () => {
+    queue.setScope('user-a');
+    queue.enqueue({ id: 'key-a', method: 'POST', url: '/api/ads' });
+
+    queue.setScope('user-b');
+    expect(queue.getSnapshot().pending).toEqual([]);
+
+    queue.setScope('user-a');
+    expect(queue.getSnapshot().pending.map((item) => item.id)).toEqual(['key-a']);
+  });
+
+  it('여러 탭이 같은 저장소를 써도 서로의 요청을 덮어쓰거나 중복 재전송하지 않음', async () => {
+    const lock = createLock();
+    const tabA = new OfflineQueue(storage, lock);
+    const tabB = new OfflineQueue(storage, lock);
+    const request = vi.fn().mockResolvedValue({ status: 200 });
+    tabA.setClient(createClient(request));
+    tabB.setClient(createClient(request));
+
+    tabA.enqueue({ id: 'key-a', method: 'POST', url: '/api/a' });
+    tabB.enqueue({ id: 'key-b', method: 'POST', url: '/api/b' });
+    expect(new OfflineQueue(storage).getSnapshot().pending.map((item) => item.id)).toEqual(['key-a', 'key-b']);
+
+    await Promise.all([tabA.flush(), tabB.flush()]);
+
+    expect(request.mock.calls.map(([config]) => config.url)).toEqual(['/api/a', '/api/b']);
+    expect(tabB.hasPending()).toBe(false);
+  });
+});
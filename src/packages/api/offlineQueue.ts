@@ -0,0 +1,238 @@
+/**
+ * Offline Queue - Persist mutations made while offline and replay them in order
+ *
+ * RequestOptions.offline = true 인 POST/PUT/PATCH/DELETE 요청만 큐에 저장됩니다.
+ * 인증 헤더는 저장하지 않으며, 재전송 시 요청을 저장한 클라이언트의 현재 토큰으로 다시 인증합니다.
+ * - scope(사용자)별로 키를 나눠 저장해 다른 계정의 토큰으로 재전송되지 않게 합니다.
+ * - 여러 탭이 같은 저장소를 쓰므로 변경/재전송 전에 저장소를 다시 읽고, 재전송은 TabLock 안에서 실행합니다.
+ */
+
+import type { AxiosInstance } from 'axios';
+import { storage as defaultStorage, type Storage } from '../utils/storage';
+import { toApiError } from './errors';
+import { DEFAULT_CLIENT_NAME } from './client';
+import { createTabLock, type TabLock } from './crossTab';
+import { generateIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from './idempotency';
+
+export interface QueuedRequest {
+  /** Idempotency key (dedupe + sent as Idempotency-Key header on replay) */
+  id: string;
+  /** Client name that queued the request (replayed only through that client) */
+  client?: string;
+  method: string;
+  url: string;
+  data?: unknown;
+  params?: unknown;
+  createdAt: string;
+}
+
+export interface FailedRequest extends QueuedRequest {
+  /** Error code from server */
+  errorCode: string;
+  /** Error message from server */
+  errorMessage: string;
+  failedAt: string;
+}
+
+export interface OfflineQueueSnapshot {
+  pending: QueuedRequest[];
+  failures: FailedRequest[];
+}
+
+type QueueListener = () => void;
+
+const STORAGE_KEY = 'offline-queue';
+
+/**
+ * Persistent FIFO queue for offline mutations
+ */
+export class OfflineQueue {
+  private storage: Storage;
+  private lock: TabLock | null;
+  private storageKey = STORAGE_KEY;
+  private snapshot: OfflineQueueSnapshot;
+  private listeners: Set<QueueListener> = new Set();
+  private clients: Map<string, AxiosInstance> = new Map();
+  private flushing = false;
+
+  /**
+   * @param lock - Cross-tab lock held while replaying (한 번에 한 탭만 재전송)
+   */
+  constructor(storage: Storage = defaultStorage, lock?: TabLock) {
+    this.storage = storage;
+    this.lock = lock ?? null;
+    this.snapshot = this.read();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.flush().catch(() => {
+          // Remaining items stay queued
+        });
+      });
+    }
+  }
+
+  /** Client used to replay its own requests (set by offlineMiddleware) */
+  setClient(client: AxiosInstance, name: string = DEFAULT_CLIENT_NAME): void {
+    this.clients.set(name, client);
+  }
+
+  /**
+   * Switch the storage scope (e.g., 로그인한 사용자 id) and load its queue
+   * 이전 scope의 요청은 그 scope의 키에 그대로 남습니다. (로그아웃 시 버리려면 먼저 clear())
+   */
+  setScope(scope?: string): void {
+    const key = scope ? `${STORAGE_KEY}:${scope}` : STORAGE_KEY;
+    if (key === this.storageKey) return;
+
+    this.storageKey = key;
+    this.snapshot = this.read();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /** Check for queued requests (of one client) */
+  hasPending(clientName?: string): boolean {
+    return this.snapshot.pending.some((item) => !clientName || clientOf(item) === clientName);
+  }
+
+  /**
+   * Add request to queue (ignored if the same id is already queued)
+   * @returns queued request id
+   */
+  enqueue(request: Omit<QueuedRequest, 'id' | 'createdAt'> & { id?: string }): string {
+    const id = request.id ?? generateIdempotencyKey();
+
+    this.update(({ pending }) =>
+      pending.some((item) => item.id === id)
+        ? {}
+        : { pending: [...pending, { ...request, id, createdAt: new Date().toISOString() }] }
+    );
+
+    return id;
+  }
+
+  /**
+   * Replay queued requests in order
+   * 네트워크 오류/5xx가 나면 중단하고 남은 요청은 유지, 그 외 서버 오류는 failures로 이동
+   * 등록되지 않은 클라이언트의 요청은 건너뛰고 큐에 남깁니다.
+   * @param clientName - Only replay this client's requests (기본: 등록된 모든 클라이언트)
+   */
+  async flush(clientName?: string): Promise<void> {
+    if (this.flushing) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    this.flushing = true;
+
+    try {
+      await (this.lock ? this.lock.run(() => this.replay(clientName)) : this.replay(clientName));
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /** Remove a request from pending or failures */
+  remove(id: string): void {
+    this.update(({ pending, failures }) => ({
+      pending: pending.filter((item) => item.id !== id),
+      failures: failures.filter((item) => item.id !== id),
+    }));
+  }
+
+  /** Clear failure list */
+  clearFailures(): void {
+    this.update(() => ({ failures: [] }));
+  }
+
+  /** Drop every pending request and failure of the current scope (e.g., 로그아웃) */
+  clear(): void {
+    this.update(() => ({ pending: [], failures: [] }));
+  }
+
+  /** Current queue state (stable reference until next change) */
+  getSnapshot(): OfflineQueueSnapshot {
+    return this.snapshot;
+  }
+
+  /** Listen to queue changes */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // === Private Methods ===
+
+  private async replay(clientName?: string): Promise<void> {
+    // 다른 탭이 이미 재전송한 요청은 다시 보내지 않도록 최신 상태로 시작
+    this.reload();
+
+    let request: QueuedRequest | undefined;
+    while ((request = this.nextReplayable(clientName))) {
+      const client = this.clients.get(clientOf(request))!;
+      const { id } = request;
+      const rest = (pending: QueuedRequest[]) => pending.filter((item) => item.id !== id);
+
+      try {
+        await client.request({
+          method: request.method,
+          url: request.url,
+          data: request.data,
+          params: request.params,
+          headers: { [IDEMPOTENCY_KEY_HEADER]: request.id },
+          _offlineReplay: true,
+        } as Parameters<AxiosInstance['request']>[0]);
+
+        this.update(({ pending }) => ({ pending: rest(pending) }));
+      } catch (err) {
+        const apiError = toApiError(err);
+
+        // Still offline or server unavailable - keep remaining items
+        if (apiError.status === 0 || apiError.status >= 500) {
+          throw apiError;
+        }
+
+        const failed: FailedRequest = {
+          ...request,
+          errorCode: apiError.code,
+          errorMessage: apiError.message,
+          failedAt: new Date().toISOString(),
+        };
+        this.update(({ pending, failures }) => ({
+          pending: rest(pending),
+          failures: [...failures, failed],
+        }));
+      }
+    }
+  }
+
+  private nextReplayable(clientName?: string): QueuedRequest | undefined {
+    return this.snapshot.pending.find((item) => {
+      const name = clientOf(item);
+      return (!clientName || name === clientName) && this.clients.has(name);
+    });
+  }
+
+  private read(): OfflineQueueSnapshot {
+    return this.storage.get<OfflineQueueSnapshot>(this.storageKey) ?? { pending: [], failures: [] };
+  }
+
+  /** Pick up changes made by other tabs (저장소를 쓸 수 없으면 현재 상태 유지) */
+  private reload(): void {
+    this.snapshot = this.storage.get<OfflineQueueSnapshot>(this.storageKey) ?? this.snapshot;
+  }
+
+  /** Apply a change to the latest stored state (다른 탭의 변경을 덮어쓰지 않도록) */
+  private update(change: (snapshot: OfflineQueueSnapshot) => Partial<OfflineQueueSnapshot>): void {
+    this.reload();
+    this.snapshot = { ...this.snapshot, ...change(this.snapshot) };
+    this.storage.set(this.storageKey, this.snapshot);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// 이전 버전에서 저장된 요청은 기본 클라이언트로 재전송
+function clientOf(request: QueuedRequest): string {
+  return request.client ?? DEFAULT_CLIENT_NAME;
+}
+
+// Shared instance
+export const offlineQueue = new OfflineQueue(defaultStorage, createTabLock('offline-queue'));
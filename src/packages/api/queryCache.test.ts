@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueryCache, hashQueryKey } from './queryCache';
+import { ApiError } from './client';
+
+describe('QueryCache', () => {
+  let cache: QueryCache;
+
+  beforeEach(() => {
+    cache = new QueryCache();
+  });
+
+  describe('hashQueryKey', () => {
+    it('객체 키 순서와 무관하게 같은 해시 생성', () => {
+      expect(hashQueryKey(['ads', { a: 1, b: 2 }])).toBe(hashQueryKey(['ads', { b: 2, a: 1 }]));
+    });
+  });
+
+  describe('fetch', () => {
+    it('진행 중인 동일 요청은 하나로 합쳐짐', async () => {
+      const queryFn = vi.fn().mockResolvedValue(['ad']);
+
+      const [a, b] = await Promise.all([
+        cache.fetch(['ads'], queryFn),
+        cache.fetch(['ads'], queryFn),
+      ]);
+
+      expect(queryFn).toHaveBeenCalledTimes(1);
+      expect(a).toBe(b);
+    });
+
+    it('staleTime 내에서는 캐시 데이터 반환', async () => {
+      const queryFn = vi.fn().mockResolvedValue('data');
+
+      await cache.fetch(['key'], queryFn, { staleTime: 60000 });
+      const result = await cache.fetch(['key'], queryFn, { staleTime: 60000 });
+
+      expect(queryFn).toHaveBeenCalledTimes(1);
+      expect(result).toBe('data');
+    });
+
+    it('force 옵션은 캐시를 무시', async () => {
+      const queryFn = vi.fn().mockResolvedValue('data');
+
+      await cache.fetch(['key'], queryFn, { staleTime: 60000 });
+      await cache.fetch(['key'], queryFn, { force: true });
+
+      expect(queryFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('실패 시 ApiError로 변환하여 상태에 저장', async () => {
+      const queryFn = vi.fn().mockRejectedValue(new Error('boom'));
+
+      await expect(cache.fetch(['key'], queryFn)).rejects.toBeInstanceOf(ApiError);
+
+      const state = cache.getState(hashQueryKey(['key']));
+      expect(state.error?.code).toBe('UNKNOWN_ERROR');
+      expect(state.isFetching).toBe(false);
+    });
+  });
+
+  describe('invalidateQueries', () => {
+    it('prefix가 일치하는 구독 중인 쿼리를 다시 요청', async () => {
+      const activeFn = vi.fn().mockResolvedValue([]);
+      const otherFn = vi.fn().mockResolvedValue('user');
+
+      await cache.fetch(['ads', 'active'], activeFn, { staleTime: 60000 });
+      await cache.fetch(['users'], otherFn, { staleTime: 60000 });
+      cache.subscribe(hashQueryKey(['ads', 'active']), () => {});
+      cache.subscribe(hashQueryKey(['users']), () => {});
+
+      cache.invalidateQueries(['ads']);
+
+      expect(activeFn).toHaveBeenCalledTimes(2);
+      expect(otherFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('구독자가 없는 쿼리는 stale 표시만 함', async () => {
+      const queryFn = vi.fn().mockResolvedValue([]);
+
+      await cache.fetch(['ads', 'active'], queryFn, { staleTime: 60000 });
+      cache.invalidateQueries(['ads']);
+
+      expect(queryFn).toHaveBeenCalledTimes(1);
+      expect(cache.isStale(['ads', 'active'], 60000)).toBe(true);
+    });
+
+    it('요청 중에 invalidate되면 새로 요청하고 이전 응답은 버림', async () => {
+      let resolveStale!: (value: string) => void;
+      const queryFn = vi.fn()
+        .mockImplementationOnce(() => new Promise<string>((resolve) => { resolveStale = resolve; }))
+        .mockResolvedValueOnce('after mutation');
+
+      const stale = cache.fetch(['ads'], queryFn);
+      cache.subscribe(hashQueryKey(['ads']), () => {});
+      cache.invalidateQueries(['ads']);
+      expect(queryFn).toHaveBeenCalledTimes(2);
+
+      await vi.waitFor(() => expect(cache.getQueryData(['ads'])).toBe('after mutation'));
+      resolveStale('before mutation');
+      await stale;
+
+      expect(cache.getQueryData(['ads'])).toBe('after mutation');
+      expect(cache.getState(hashQueryKey(['ads'])).isFetching).toBe(false);
+    });
+  });
+
+  describe('setQueryData', () => {
+    it('updater 함수로 캐시 데이터 수정 후 구독자에게 알림', async () => {
+      const listener = vi.fn();
+      await cache.fetch(['ads'], () => Promise.resolve([1, 2]));
+      cache.subscribe(hashQueryKey(['ads']), listener);
+
+      cache.setQueryData<number[]>(['ads'], (prev) => [...(prev ?? []), 3]);
+
+      expect(cache.getQueryData(['ads'])).toEqual([1, 2, 3]);
+      expect(listener).toHaveBeenCalled();
+    });
+  });
+
+  describe('garbage collection', () => {
+    it('마지막 구독 해제 후 cacheTime이 지나면 제거', async () => {
+      vi.useFakeTimers();
+      await cache.fetch(['ads'], () => Promise.resolve('data'));
+      const unsubscribe = cache.subscribe(hashQueryKey(['ads']), () => {}, 1000);
+
+      unsubscribe();
+      vi.advanceTimersByTime(1000);
+
+      expect(cache.getQueryData(['ads'])).toBeUndefined();
+      vi.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Query Cache - Shared cache for API queries (stale-while-revalidate)
+ * 같은 queryKey를 사용하는 컴포넌트는 캐시된 데이터와 진행 중인 요청을 공유합니다.
+ */
+
+import { toApiError, type ApiError } from './client';
+
+/** Query key - 함수와 인자를 식별하는 배열 (e.g., ['ads', 'active']) */
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T = unknown> {
+  /** Cached data */
+  data: T | undefined;
+  /** Last error */
+  error: ApiError | null;
+  /** Last successful fetch time (0 if never fetched) */
+  updatedAt: number;
+  /** Request in flight */
+  isFetching: boolean;
+  /** Marked stale by invalidateQueries */
+  isInvalidated: boolean;
+}
+
+export interface QueryFetchOptions {
+  /** Time in ms before cached data is considered stale (default: 0) */
+  staleTime?: number;
+  /** Ignore cached data and always fetch (진행 중인 요청도 무시하고 새로 요청) */
+  force?: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  /** Latest fetch - 이전 요청의 응답은 캐시에 반영하지 않음 */
+  fetchId: number;
+  queryFn: (() => Promise<unknown>) | null;
+}
+
+// Defaults
+export const DEFAULT_STALE_TIME = 0;
+export const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+const INITIAL_STATE: QueryState = Object.freeze({
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+});
+
+// Stable JSON serialization (object key order independent)
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, val: unknown) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, key) => {
+          acc[key] = (val as Record<string, unknown>)[key];
+          return acc;
+        }, {});
+    }
+    return val;
+  });
+}
+
+/**
+ * Serialize query key to cache hash
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return stableStringify(key);
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  if (prefix.length > key.length) return false;
+  return prefix.every((part, index) => stableStringify(part) === stableStringify(key[index]));
+}
+
+/**
+ * Query cache with in-flight deduplication and background revalidation
+ */
+export class QueryCache {
+  private entries: Map<string, QueryEntry> = new Map();
+  private listeners: Map<string, Set<() => void>> = new Map();
+  private gcTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  /** Get current state (stable reference until next change) */
+  getState<T>(hash: string): QueryState<T> {
+    return (this.entries.get(hash)?.state ?? INITIAL_STATE) as QueryState<T>;
+  }
+
+  /** Get cached data */
+  getQueryData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(hashQueryKey(key)).data;
+  }
+
+  /** Update cached data manually (e.g., after a mutation) */
+  setQueryData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T)): void {
+    const entry = this.ensureEntry(key);
+    const data = typeof updater === 'function'
+      ? (updater as (prev: T | undefined) => T)(entry.state.data as T | undefined)
+      : updater;
+    this.setState(hashQueryKey(key), { data, error: null, updatedAt: Date.now() });
+  }
+
+  /** Check if cached data should be refetched */
+  isStale(key: QueryKey, staleTime = DEFAULT_STALE_TIME): boolean {
+    const { updatedAt, isInvalidated } = this.getState(hashQueryKey(key));
+    return updatedAt === 0 || isInvalidated || Date.now() - updatedAt > staleTime;
+  }
+
+  /**
+   * Fetch query data
+   * - 진행 중인 요청이 있으면 같은 Promise를 반환 (dedupe)
+   * - force면 진행 중인 요청을 대체 (invalidate 이전에 시작된 응답은 버림)
+   * - 캐시가 fresh하면 네트워크 요청 없이 캐시 데이터 반환
+   */
+  fetch<T>(key: QueryKey, queryFn: () => Promise<T>, options: QueryFetchOptions = {}): Promise<T> {
+    const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+    const hash = hashQueryKey(key);
+    const entry = this.ensureEntry(key);
+    entry.queryFn = queryFn;
+
+    if (entry.promise && !force) {
+      return entry.promise as Promise<T>;
+    }
+
+    if (!force && !this.isStale(key, staleTime)) {
+      return Promise.resolve(entry.state.data as T);
+    }
+
+    this.setState(hash, { isFetching: true });
+
+    const fetchId = ++entry.fetchId;
+    const isLatest = () => this.entries.get(hash) === entry && entry.fetchId === fetchId;
+
+    const promise: Promise<T> = queryFn()
+      .then((data) => {
+        if (!isLatest()) return data;
+        this.setState(hash, {
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: false,
+        });
+        return data;
+      })
+      .catch((err) => {
+        const apiError = toApiError(err);
+        if (isLatest()) this.setState(hash, { error: apiError, isFetching: false });
+        throw apiError;
+      })
+      .finally(() => {
+        if (entry.promise === promise) entry.promise = null;
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * Subscribe to query state changes
+   * 마지막 구독자가 해제되면 cacheTime 후 캐시에서 제거
+   */
+  subscribe(hash: string, listener: () => void, cacheTime = DEFAULT_CACHE_TIME): () => void {
+    const gcTimer = this.gcTimers.get(hash);
+    if (gcTimer) {
+      clearTimeout(gcTimer);
+      this.gcTimers.delete(hash);
+    }
+
+    let listeners = this.listeners.get(hash);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(hash, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(hash);
+        this.scheduleGc(hash, cacheTime);
+      }
+    };
+  }
+
+  /**
+   * Mark matching queries stale and refetch the ones currently in use
+   * @param prefix - Query key prefix (e.g., ['ads'] matches ['ads', 'active'])
+   */
+  invalidateQueries(prefix: QueryKey = []): void {
+    this.entries.forEach((entry, hash) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      this.setState(hash, { isInvalidated: true });
+
+      if (this.listeners.has(hash) && entry.queryFn) {
+        this.fetch(entry.key, entry.queryFn, { force: true }).catch(() => {
+          // Error is stored in query state
+        });
+      }
+    });
+  }
+
+  /** Remove matching queries from cache */
+  removeQueries(prefix: QueryKey = []): void {
+    this.entries.forEach((entry, hash) => {
+      if (matchesPrefix(entry.key, prefix)) {
+        this.entries.delete(hash);
+        this.notify(hash);
+      }
+    });
+  }
+
+  /** Clear all cached queries */
+  clear(): void {
+    this.gcTimers.forEach((timer) => clearTimeout(timer));
+    this.gcTimers.clear();
+    const hashes = Array.from(this.entries.keys());
+    this.entries.clear();
+    hashes.forEach((hash) => this.notify(hash));
+  }
+
+  // === Private Methods ===
+
+  private ensureEntry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: INITIAL_STATE, promise: null, fetchId: 0, queryFn: null };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState(hash: string, partial: Partial<QueryState>): void {
+    const entry = this.entries.get(hash);
+    if (!entry) return;
+    entry.state = { ...entry.state, ...partial };
+    this.notify(hash);
+  }
+
+  private notify(hash: string): void {
+    this.listeners.get(hash)?.forEach((listener) => listener());
+  }
+
+  private scheduleGc(hash: string, cacheTime: number): void {
+    if (!Number.isFinite(cacheTime)) return;
+
+    this.gcTimers.set(hash, setTimeout(() => {
+      this.gcTimers.delete(hash);
+      if (!this.listeners.has(hash)) {
+        this.entries.delete(hash);
+      }
+    }, cacheTime));
+  }
+}
+
+// Shared cache instance
+export const queryCache = new QueryCache();
+
+/**
+ * Invalidate cached queries by key prefix (shared cache)
+ */
+export function invalidateQueries(prefix: QueryKey = []): void {
+  queryCache.invalidateQueries(prefix);
+}
@@ -0,0 +1,72 @@
+/**
+ * Refresh Coordinator - Single-flight access token refresh
+ *
+ * 같은 auth store를 쓰는 클라이언트들이 하나의 인스턴스를 공유하면
+ * 동시에 발생한 401이 클라이언트와 관계없이 한 번의 refresh 요청으로 처리됩니다.
+ * lock(createTabLock)을 지정하면 여러 탭 중 한 탭만 refresh 하고,
+ * 나머지 탭은 lock을 기다린 뒤 동기화된 새 토큰을 사용합니다.
+ * refresh 실패 후의 복구(재로그인 프롬프트 등)는 lock을 놓은 뒤 실행합니다.
+ */
+
+import type { TabLock } from './crossTab';
+
+export interface RefreshCoordinatorConfig {
+  /** Cross-tab lock (e.g., createTabLock('auth-refresh')) */
+  lock?: TabLock;
+  /** Current access token - lock 획득 후 다른 탭에서 이미 갱신됐는지 확인 */
+  getAccessToken?: () => string | null;
+}
+
+export class RefreshCoordinator {
+  private pending: Promise<string> | null = null;
+  private config: RefreshCoordinatorConfig;
+
+  constructor(config: RefreshCoordinatorConfig = {}) {
+    this.config = config;
+  }
+
+  /** Whether a refresh is in flight */
+  get isRefreshing(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Run refresh (resolves with the new access token)
+   * 진행 중인 refresh가 있으면 새로 요청하지 않고 같은 결과를 기다립니다.
+   * @param recover - Called when refresh fails, outside the lock (e.g., 재로그인 후 새 토큰)
+   */
+  run(refresh: () => Promise<string>, recover?: (error: unknown) => Promise<string>): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.runExclusive(refresh)
+        .catch((error: unknown) => (recover ? recover(error) : Promise.reject(error)))
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  /** Resolve when the in-flight refresh settles (immediately if none) */
+  wait(): Promise<void> {
+    return this.pending
+      ? this.pending.then(
+          () => undefined,
+          () => undefined
+        )
+      : Promise.resolve();
+  }
+
+  private runExclusive(refresh: () => Promise<string>): Promise<string> {
+    const { lock, getAccessToken } = this.config;
+    if (!lock) return refresh();
+
+    const tokenBefore = getAccessToken?.() ?? null;
+
+    return lock.run(async () => {
+      // lock을 기다리는 동안 다른 탭이 갱신한 토큰을 받았으면 재사용
+      const current = getAccessToken?.() ?? null;
+      if (current && current !== tokenBefore) return current;
+      return refresh();
+    });
+  }
+}
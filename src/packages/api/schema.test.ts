@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { schema, apiResponseSchema, validateSchema } from './schema';
+import { http } from './http';
+import { ApiError, SCHEMA_MISMATCH_ERROR_CODE } from './errors';
+
+const mockGet = vi.fn();
+
+vi.mock('./client', async () => {
+  const actual = await vi.importActual<typeof import('./client')>('./client');
+  return {
+    ...actual,
+    getApiClient: () => ({ get: mockGet }),
+  };
+});
+
+const userSchema = schema.object({
+  id: schema.number(),
+  email: schema.string(),
+  nickname: schema.optional(schema.string()),
+  role: schema.enum(['USER', 'ADMIN'] as const),
+  tags: schema.array(schema.string()),
+});
+
+const envelope = (data: unknown) => ({
+  success: true,
+  code: 'S000',
+  message: 'OK',
+  data,
+  timestamp: '2024-01-01T00:00:00Z',
+});
+
+describe('schema', () => {
+  it('일치하면 issue 없음', () => {
+    const issues = validateSchema(
+      { id: 1, email: 'a@b.com', role: 'USER', tags: ['x'] },
+      userSchema
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it('불일치 경로를 모두 수집', () => {
+    const issues = validateSchema(
+      { id: '1', email: 'a@b.com', nickname: 3, role: 'GUEST', tags: ['x', 2] },
+      userSchema
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual(['id', 'nickname', 'role', 'tags[1]']);
+    expect(issues[0]).toEqual({ path: 'id', expected: 'number', received: 'string' });
+  });
+
+  it('nullable / union', () => {
+    const value = schema.nullable(schema.union(schema.string(), schema.number()));
+
+    expect(validateSchema(null, value)).toEqual([]);
+    expect(validateSchema(1, value)).toEqual([]);
+    expect(validateSchema(true, value)).toHaveLength(1);
+  });
+
+  it('ApiResponse envelope도 검증', () => {
+    const issues = validateSchema(
+      { success: true, data: { id: 1 } },
+      apiResponseSchema(schema.object({ id: schema.number() }))
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual(['code', 'message', 'timestamp']);
+  });
+});
+
+describe('http schema option', () => {
+  beforeEach(() => {
+    mockGet.mockReset();
+  });
+
+  it('일치하면 data 반환', async () => {
+    const user = { id: 1, email: 'a@b.com', role: 'ADMIN', tags: [] };
+    mockGet.mockResolvedValue({ status: 200, data: envelope(user), config: {} });
+
+    await expect(http.get('/api/users/1', undefined, { schema: userSchema })).resolves.toEqual(user);
+    // schema 옵션은 axios로 전달하지 않음
+    expect(mockGet.mock.calls[0][1]).not.toHaveProperty('schema');
+  });
+
+  it("throw 모드에서 SCHEMA_MISMATCH 에러와 경로 목록", async () => {
+    mockGet.mockResolvedValue({
+      status: 200,
+      data: envelope({ id: 1, email: null, role: 'USER', tags: [] }),
+      config: { url: '/api/users/1' },
+    });
+
+    const error = await http
+      .get('/api/users/1', undefined, { schema: userSchema, schemaMode: 'throw' })
+      .catch((err: ApiError) => err);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe(SCHEMA_MISMATCH_ERROR_CODE);
+    expect((error as ApiError).errors?.map((e) => e.field)).toEqual(['data.email']);
+  });
+
+  it('warn 모드에서는 경고 후 data 반환', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGet.mockResolvedValue({ status: 200, data: { data: { id: 1 } }, config: {} });
+
+    await expect(
+      http.get('/api/users/1', undefined, { schema: userSchema, schemaMode: 'warn' })
+    ).resolves.toEqual({ id: 1 });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Schema - Minimal runtime schema DSL for response validation
+ *
+ * @example
+ * const userSchema = schema.object({
+ *   id: schema.string(),
+ *   email: schema.optional(schema.string()),
+ * });
+ * type User = Infer<typeof userSchema>;
+ */
+
+export interface SchemaIssue {
+  /** Path to the invalid value (e.g., 'data.content[0].id') */
+  path: string;
+  /** Expected type description */
+  expected: string;
+  /** Actual value type */
+  received: string;
+}
+
+export interface Schema<T> {
+  /** Type description used in issues */
+  readonly expected: string;
+  /** Optional object key */
+  readonly isOptional?: boolean;
+  /** Collect issues for value at path */
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Type marker (not used at runtime) */
+  readonly _output?: T;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, expected, received: describe(value) });
+      }
+    },
+  };
+}
+
+/**
+ * Schema builders
+ */
+export const schema = {
+  string: () => primitive<string>('string', (v) => typeof v === 'string'),
+
+  number: () => primitive<number>('number', (v) => typeof v === 'number' && !Number.isNaN(v)),
+
+  boolean: () => primitive<boolean>('boolean', (v) => typeof v === 'boolean'),
+
+  unknown: () => primitive<unknown>('unknown', () => true),
+
+  literal: <T extends string | number | boolean>(literal: T) =>
+    primitive<T>(JSON.stringify(literal), (v) => v === literal),
+
+  enum: <T extends string | number>(values: readonly T[]) =>
+    primitive<T>(values.map((v) => JSON.stringify(v)).join(' | '), (v) => values.includes(v as T)),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: this.expected, received: describe(value) });
+        return;
+      }
+      value.forEach((element, index) => item.check(element, joinPath(path, index), issues));
+    },
+  }),
+
+  object: <S extends Shape>(shape: S): Schema<ObjectOutput<S>> => ({
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      // 추가 필드는 허용 (서버 하위 호환)
+      Object.entries(shape).forEach(([key, fieldSchema]) => {
+        fieldSchema.check(record[key], joinPath(path, key), issues);
+      });
+    },
+  }),
+
+  record: <T>(valueSchema: Schema<T>): Schema<Record<string, T>> => ({
+    expected: `Record<string, ${valueSchema.expected}>`,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: this.expected, received: describe(value) });
+        return;
+      }
+      Object.entries(value).forEach(([key, entry]) => {
+        valueSchema.check(entry, joinPath(path, key), issues);
+      });
+    },
+  }),
+
+  optional: <T>(inner: Schema<T>): OptionalSchema<T> => ({
+    expected: `${inner.expected} | undefined`,
+    isOptional: true,
+    check(value, path, issues) {
+      if (value !== undefined) inner.check(value, path, issues);
+    },
+  }),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    expected: `${inner.expected} | null`,
+    check(value, path, issues) {
+      if (value !== null) inner.check(value, path, issues);
+    },
+  }),
+
+  union: <T extends Schema<unknown>[]>(...options: T): Schema<Infer<T[number]>> => ({
+    expected: options.map((option) => option.expected).join(' | '),
+    check(value, path, issues) {
+      const matches = options.some((option) => {
+        const optionIssues: SchemaIssue[] = [];
+        option.check(value, path, optionIssues);
+        return optionIssues.length === 0;
+      });
+      if (!matches) {
+        issues.push({ path, expected: this.expected, received: describe(value) });
+      }
+    },
+  }),
+};
+
+/**
+ * ApiResponse envelope schema
+ */
+export function apiResponseSchema<T>(data: Schema<T>) {
+  return schema.object({
+    success: schema.boolean(),
+    code: schema.string(),
+    message: schema.string(),
+    data,
+    timestamp: schema.string(),
+  });
+}
+
+/**
+ * PageResponse schema
+ */
+export function pageResponseSchema<T>(item: Schema<T>) {
+  return schema.object({
+    content: schema.array(item),
+    page: schema.number(),
+    size: schema.number(),
+    totalElements: schema.number(),
+    totalPages: schema.number(),
+    first: schema.boolean(),
+    last: schema.boolean(),
+    empty: schema.boolean(),
+    hasNext: schema.boolean(),
+    hasPrevious: schema.boolean(),
+  });
+}
+
+/**
+ * CursorPageResponse schema
+ */
+export function cursorPageResponseSchema<T>(item: Schema<T>) {
+  return schema.object({
+    content: schema.array(item),
+    nextCursor: schema.nullable(schema.string()),
+    prevCursor: schema.nullable(schema.string()),
+    size: schema.number(),
+    hasNext: schema.boolean(),
+    hasPrevious: schema.boolean(),
+  });
+}
+
+/**
+ * Validate value and return issues (empty if valid)
+ */
+export function validateSchema<T>(value: unknown, valueSchema: Schema<T>, path = ''): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  valueSchema.check(value, path, issues);
+  return issues;
+}
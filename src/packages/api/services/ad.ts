@@ -4,10 +4,24 @@
  */
 
 import { getApiClient } from '../client';
+import { invalidateQueries } from '../queryCache';
+import { http, type DownloadOptions, type RequestOptions, type UploadOptions } from '../http';
+import type { RawResponse } from '../download';
 import type { ApiResponse } from '../types';
 
 const AD_BASE = '/api/ads';
 
+/**
+ * Query keys for useQuery / invalidateQueries
+ */
+export const adQueryKeys = {
+  all: ['ads'] as const,
+  active: () => [...adQueryKeys.all, 'active'] as const,
+  activeByType: (type: AdConfig['type']) => [...adQueryKeys.all, 'active', type] as const,
+  detail: (id: string) => [...adQueryKeys.all, 'detail', id] as const,
+  statistics: (id: string) => [...adQueryKeys.all, 'statistics', id] as const,
+};
+
 export interface AdConfig {
   id: string;
   type: 'INTERSTITIAL' | 'BANNER' | 'NATIVE';
@@ -39,6 +53,11 @@ export interface AdEventRequest {
   deviceInfo?: string;
 }
 
+export interface AdCreativeUploadResponse {
+  /** Public URL of the uploaded creative (use as imageUrl) */
+  url: string;
+}
+
 export interface AdStatistics {
   id: string;
   adId: string;
@@ -51,24 +70,41 @@ export interface AdStatistics {
 
 export const adApi = {
   /**
-   * Create ad configuration (Admin only)
+   * Create ad configuration (Admin only, safe to retry via Idempotency-Key)
    * POST /api/ads
    */
-  createAdConfig: async (request: AdConfigCreateRequest): Promise<AdConfig> => {
+  createAdConfig: async (
+    request: AdConfigCreateRequest,
+    options?: RequestOptions
+  ): Promise<AdConfig> => {
     const response = await getApiClient().post<ApiResponse<AdConfig>>(
       AD_BASE,
-      request
+      request,
+      { idempotent: true, ...options }
     );
+    invalidateQueries(adQueryKeys.all);
     return response.data.data;
   },
 
+  /**
+   * Upload ad creative image (Admin only)
+   * POST /api/ads/creatives (multipart, chunked when options.chunkSize is set)
+   */
+  uploadCreative: async (
+    file: Blob,
+    options?: UploadOptions<AdCreativeUploadResponse>
+  ): Promise<AdCreativeUploadResponse> => {
+    return http.upload<AdCreativeUploadResponse>(`${AD_BASE}/creatives`, file, options);
+  },
+
   /**
    * Get all active ads
    * GET /api/ads/active
    */
-  getActiveAds: async (): Promise<AdConfig[]> => {
+  getActiveAds: async (options?: RequestOptions): Promise<AdConfig[]> => {
     const response = await getApiClient().get<ApiResponse<AdConfig[]>>(
-      `${AD_BASE}/active`
+      `${AD_BASE}/active`,
+      options
     );
     return response.data.data;
   },
@@ -77,9 +113,13 @@ export const adApi = {
    * Get active ads by type
    * GET /api/ads/active/{type}
    */
-  getActiveAdsByType: async (type: AdConfig['type']): Promise<AdConfig[]> => {
+  getActiveAdsByType: async (
+    type: AdConfig['type'],
+    options?: RequestOptions
+  ): Promise<AdConfig[]> => {
     const response = await getApiClient().get<ApiResponse<AdConfig[]>>(
-      `${AD_BASE}/active/${type}`
+      `${AD_BASE}/active/${type}`,
+      options
     );
     return response.data.data;
   },
@@ -88,9 +128,10 @@ export const adApi = {
    * Get interstitial ad (for app launch)
    * GET /api/ads/interstitial
    */
-  getInterstitialAd: async (): Promise<AdConfig | null> => {
+  getInterstitialAd: async (options?: RequestOptions): Promise<AdConfig | null> => {
     const response = await getApiClient().get<ApiResponse<AdConfig | null>>(
-      `${AD_BASE}/interstitial`
+      `${AD_BASE}/interstitial`,
+      options
     );
     return response.data.data;
   },
@@ -99,9 +140,10 @@ export const adApi = {
    * Get ad configuration by ID
    * GET /api/ads/{id}
    */
-  getAdConfig: async (id: string): Promise<AdConfig> => {
+  getAdConfig: async (id: string, options?: RequestOptions): Promise<AdConfig> => {
     const response = await getApiClient().get<ApiResponse<AdConfig>>(
-      `${AD_BASE}/${id}`
+      `${AD_BASE}/${id}`,
+      options
     );
     return response.data.data;
   },
@@ -110,33 +152,43 @@ export const adApi = {
    * Delete ad configuration (Admin only)
    * DELETE /api/ads/{id}
    */
-  deleteAdConfig: async (id: string): Promise<string> => {
+  deleteAdConfig: async (id: string, options?: RequestOptions): Promise<string> => {
     const response = await getApiClient().delete<ApiResponse<string>>(
-      `${AD_BASE}/${id}`
+      `${AD_BASE}/${id}`,
+      options
     );
+    invalidateQueries(adQueryKeys.all);
     return response.data.data;
   },
 
   /**
-   * Record ad impression event
+   * Record ad impression event (queued while offline)
    * POST /api/ads/impression
    */
-  recordImpression: async (request: AdEventRequest): Promise<string> => {
+  recordImpression: async (
+    request: AdEventRequest,
+    options?: RequestOptions
+  ): Promise<string> => {
     const response = await getApiClient().post<ApiResponse<string>>(
       `${AD_BASE}/impression`,
-      request
+      request,
+      { offline: true, idempotent: true, ...options }
     );
     return response.data.data;
   },
 
   /**
-   * Record ad click event
+   * Record ad click event (queued while offline)
    * POST /api/ads/click
    */
-  recordClick: async (request: AdEventRequest): Promise<string> => {
+  recordClick: async (
+    request: AdEventRequest,
+    options?: RequestOptions
+  ): Promise<string> => {
     const response = await getApiClient().post<ApiResponse<string>>(
       `${AD_BASE}/click`,
-      request
+      request,
+      { offline: true, idempotent: true, ...options }
     );
     return response.data.data;
   },
@@ -145,11 +197,15 @@ export const adApi = {
    * Get ad statistics for a specific date
    * GET /api/ads/{id}/statistics
    */
-  getStatistics: async (id: string, date?: string): Promise<AdStatistics> => {
+  getStatistics: async (
+    id: string,
+    date?: string,
+    options?: RequestOptions
+  ): Promise<AdStatistics> => {
     const params = date ? { date } : {};
     const response = await getApiClient().get<ApiResponse<AdStatistics>>(
       `${AD_BASE}/${id}/statistics`,
-      { params }
+      { params, ...options }
     );
     return response.data.data;
   },
@@ -161,11 +217,12 @@ export const adApi = {
   getStatisticsByPeriod: async (
     id: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    options?: RequestOptions
   ): Promise<AdStatistics[]> => {
     const response = await getApiClient().get<ApiResponse<AdStatistics[]>>(
       `${AD_BASE}/${id}/statistics/period`,
-      { params: { startDate, endDate } }
+      { params: { startDate, endDate }, ...options }
     );
     return response.data.data;
   },
@@ -174,22 +231,44 @@ export const adApi = {
    * Get recent ad statistics (last 30 days)
    * GET /api/ads/{id}/statistics/recent
    */
-  getRecentStatistics: async (id: string): Promise<AdStatistics[]> => {
+  getRecentStatistics: async (
+    id: string,
+    options?: RequestOptions
+  ): Promise<AdStatistics[]> => {
     const response = await getApiClient().get<ApiResponse<AdStatistics[]>>(
-      `${AD_BASE}/${id}/statistics/recent`
+      `${AD_BASE}/${id}/statistics/recent`,
+      options
     );
     return response.data.data;
   },
 
+  /**
+   * Export ad statistics as a file (CSV / Excel)
+   * GET /api/ads/{id}/statistics/export
+   */
+  exportStatistics: async (
+    id: string,
+    params: { startDate?: string; endDate?: string; format?: 'csv' | 'xlsx' } = {},
+    options?: DownloadOptions
+  ): Promise<RawResponse<Blob>> => {
+    return http.download(`${AD_BASE}/${id}/statistics/export`, params, {
+      filename: `ad-statistics-${id}.${params.format ?? 'csv'}`,
+      ...options,
+    });
+  },
+
   /**
    * Get all ads statistics for a specific date
    * GET /api/ads/statistics/daily
    */
-  getAllStatisticsByDate: async (date?: string): Promise<AdStatistics[]> => {
+  getAllStatisticsByDate: async (
+    date?: string,
+    options?: RequestOptions
+  ): Promise<AdStatistics[]> => {
     const params = date ? { date } : {};
     const response = await getApiClient().get<ApiResponse<AdStatistics[]>>(
       `${AD_BASE}/statistics/daily`,
-      { params }
+      { params, ...options }
     );
     return response.data.data;
   },
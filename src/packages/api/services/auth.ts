@@ -4,6 +4,7 @@
  */
 
 import { getApiClient } from '../client';
+import type { RequestOptions } from '../http';
 import type {
   ApiResponse,
   LoginRequest,
@@ -19,10 +20,11 @@ export const authApi = {
    * OAuth login with token and provider
    * POST /api/auth/login
    */
-  login: async (request: LoginRequest): Promise<LoginResponse> => {
+  login: async (request: LoginRequest, options?: RequestOptions): Promise<LoginResponse> => {
     const response = await getApiClient().post<ApiResponse<LoginResponse>>(
       `${AUTH_BASE}/login`,
-      request
+      request,
+      options
     );
     return response.data.data;
   },
@@ -31,10 +33,14 @@ export const authApi = {
    * Refresh access token using refresh token
    * POST /api/auth/refresh
    */
-  refreshToken: async (request: RefreshTokenRequest): Promise<RefreshTokenResponse> => {
+  refreshToken: async (
+    request: RefreshTokenRequest,
+    options?: RequestOptions
+  ): Promise<RefreshTokenResponse> => {
     const response = await getApiClient().post<ApiResponse<RefreshTokenResponse>>(
       `${AUTH_BASE}/refresh`,
-      request
+      request,
+      options
     );
     return response.data.data;
   },
@@ -43,16 +49,16 @@ export const authApi = {
    * Logout and invalidate refresh tokens
    * POST /api/auth/logout
    */
-  logout: async (): Promise<void> => {
-    await getApiClient().post(`${AUTH_BASE}/logout`);
+  logout: async (options?: RequestOptions): Promise<void> => {
+    await getApiClient().post(`${AUTH_BASE}/logout`, undefined, options);
   },
 
   /**
    * Auth service health check
    * GET /api/auth/health
    */
-  health: async (): Promise<string> => {
-    const response = await getApiClient().get<string>(`${AUTH_BASE}/health`);
+  health: async (options?: RequestOptions): Promise<string> => {
+    const response = await getApiClient().get<string>(`${AUTH_BASE}/health`, options);
     return response.data;
   },
 };
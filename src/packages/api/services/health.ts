@@ -4,6 +4,7 @@
  */
 
 import { getApiClient } from '../client';
+import type { RequestOptions } from '../http';
 import type { ApiResponse, HealthStatus } from '../types';
 
 const HEALTH_BASE = '/api/health';
@@ -13,8 +14,8 @@ export const healthApi = {
    * Full system health check
    * GET /api/health
    */
-  check: async (): Promise<HealthStatus> => {
-    const response = await getApiClient().get<ApiResponse<HealthStatus>>(HEALTH_BASE);
+  check: async (options?: RequestOptions): Promise<HealthStatus> => {
+    const response = await getApiClient().get<ApiResponse<HealthStatus>>(HEALTH_BASE, options);
     return response.data.data;
   },
 
@@ -22,8 +23,11 @@ export const healthApi = {
    * Simple ping for load balancer
    * GET /api/health/ping
    */
-  ping: async (): Promise<string> => {
-    const response = await getApiClient().get<ApiResponse<string>>(`${HEALTH_BASE}/ping`);
+  ping: async (options?: RequestOptions): Promise<string> => {
+    const response = await getApiClient().get<ApiResponse<string>>(
+      `${HEALTH_BASE}/ping`,
+      options
+    );
     return response.data.data;
   },
 
@@ -31,9 +35,10 @@ export const healthApi = {
    * Database connection status
    * GET /api/health/db
    */
-  database: async (): Promise<{ status: string; type?: string }> => {
+  database: async (options?: RequestOptions): Promise<{ status: string; type?: string }> => {
     const response = await getApiClient().get<ApiResponse<{ status: string; type?: string }>>(
-      `${HEALTH_BASE}/db`
+      `${HEALTH_BASE}/db`,
+      options
     );
     return response.data.data;
   },
@@ -42,9 +47,10 @@ export const healthApi = {
    * Redis connection status
    * GET /api/health/redis
    */
-  redis: async (): Promise<{ status: string }> => {
+  redis: async (options?: RequestOptions): Promise<{ status: string }> => {
     const response = await getApiClient().get<ApiResponse<{ status: string }>>(
-      `${HEALTH_BASE}/redis`
+      `${HEALTH_BASE}/redis`,
+      options
     );
     return response.data.data;
   },
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { decodeJwtPayload, getTokenExpiresAt, TokenRefreshScheduler } from './tokenRefresh';
+
+const base64Url = (value: object) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createJwt = (payload: object) => `${base64Url({ alg: 'HS256' })}.${base64Url(payload)}.signature`;
+
+const setHidden = (hidden: boolean) => {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('getTokenExpiresAt', () => {
+  it('expiresIn(초)을 우선 사용', () => {
+    const token = createJwt({ exp: 2000 });
+    expect(getTokenExpiresAt(token, 3600, 1_000)).toBe(3_601_000);
+  });
+
+  it('expiresIn이 없으면 JWT exp 사용', () => {
+    expect(getTokenExpiresAt(createJwt({ sub: '1', exp: 1_700_000_000 }))).toBe(1_700_000_000_000);
+  });
+
+  it('JWT가 아니거나 exp가 없으면 null', () => {
+    expect(getTokenExpiresAt('opaque-token')).toBeNull();
+    expect(getTokenExpiresAt(createJwt({ sub: '1' }))).toBeNull();
+    expect(decodeJwtPayload('a.!!!.c')).toBeNull();
+  });
+
+  it('UTF-8 클레임 디코딩', () => {
+    expect(decodeJwtPayload(createJwt({ name: '홍길동' }))).toEqual({ name: '홍길동' });
+  });
+});
+
+describe('TokenRefreshScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    setHidden(false);
+    vi.useRealTimers();
+  });
+
+  it('만료 leadTime 전에 refresh 실행', () => {
+    const refresh = vi.fn().mockResolvedValue('token');
+    const scheduler = new TokenRefreshScheduler({ refresh, leadTime: 10_000 });
+
+    scheduler.schedule(60_000);
+    vi.advanceTimersByTime(49_999);
+    expect(refresh).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('새 만료 시간으로 다시 예약하면 이전 예약 취소', () => {
+    const refresh = vi.fn().mockResolvedValue('token');
+    const scheduler = new TokenRefreshScheduler({ refresh, leadTime: 0 });
+
+    scheduler.schedule(10_000);
+    scheduler.schedule(30_000);
+    vi.advanceTimersByTime(10_000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    scheduler.schedule(null);
+    vi.advanceTimersByTime(30_000);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('숨겨진 탭에서는 다시 보일 때까지 미룸', () => {
+    const refresh = vi.fn().mockResolvedValue('token');
+    const scheduler = new TokenRefreshScheduler({ refresh, leadTime: 0 });
+    setHidden(true);
+
+    scheduler.schedule(1_000);
+    vi.advanceTimersByTime(5_000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    setHidden(false);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+});
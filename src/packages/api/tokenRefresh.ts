@@ -0,0 +1,115 @@
+/**
+ * Token Refresh - Access token expiry tracking and proactive refresh
+ *
+ * 만료 직전에 조용히 토큰을 갱신해 만료 후 첫 요청이 401로 실패하지 않도록 합니다.
+ * 탭이 숨겨져 있는 동안에는 갱신하지 않고, 다시 보일 때 실행합니다.
+ */
+
+export interface TokenRefreshSchedulerConfig {
+  /** Refresh function (e.g., () => getApiClient().refreshAccessToken()) */
+  refresh: () => Promise<unknown>;
+  /** Refresh this many ms before expiry (default: 60000) */
+  leadTime?: number;
+}
+
+// setTimeout 최대 지연 (약 24.8일)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Decode JWT payload without verification (null if not a JWT)
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    const decoded: unknown = JSON.parse(json);
+    return decoded && typeof decoded === 'object' ? (decoded as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Access token expiry timestamp (ms)
+ * expiresIn(초)이 있으면 우선 사용하고, 없으면 JWT exp 클레임을 사용합니다.
+ */
+export function getTokenExpiresAt(token: string, expiresIn?: number, now: number = Date.now()): number | null {
+  if (typeof expiresIn === 'number' && expiresIn > 0) {
+    return now + expiresIn * 1000;
+  }
+
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * Schedule a silent refresh shortly before the access token expires
+ */
+export class TokenRefreshScheduler {
+  private refresh: () => Promise<unknown>;
+  private leadTime: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private waitingForVisible = false;
+
+  constructor(config: TokenRefreshSchedulerConfig) {
+    this.refresh = config.refresh;
+    this.leadTime = config.leadTime ?? 60000;
+  }
+
+  /** (Re)schedule for a new expiry (null cancels) */
+  schedule(expiresAt: number | null): void {
+    this.stop();
+    if (expiresAt === null) return;
+
+    const refreshAt = expiresAt - this.leadTime;
+    const delay = Math.max(0, refreshAt - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (Date.now() < refreshAt) {
+        // 최대 지연보다 긴 경우 다시 예약
+        this.schedule(expiresAt);
+        return;
+      }
+      this.trigger();
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.stopWaitingForVisible();
+  }
+
+  private trigger(): void {
+    if (typeof document !== 'undefined' && document.hidden) {
+      // 숨겨진 탭에서는 갱신하지 않음 - 다시 보일 때 실행
+      this.waitingForVisible = true;
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      return;
+    }
+
+    this.refresh().catch(() => {
+      // refresh 실패 처리(토큰 삭제, onUnauthorized)는 refresh 함수에서 수행
+    });
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.hidden || !this.waitingForVisible) return;
+    this.stopWaitingForVisible();
+    this.trigger();
+  };
+
+  private stopWaitingForVisible(): void {
+    if (!this.waitingForVisible) return;
+    this.waitingForVisible = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+}
@@ -48,10 +48,36 @@ export interface PageResponse<T> {
   hasPrevious: boolean;
 }
 
+// Cursor pagination types (feeds)
+export interface CursorPageRequest {
+  /** Load items after this cursor (older items) */
+  after?: string;
+  /** Load items before this cursor (newer items) */
+  before?: string;
+  size?: number;
+}
+
+export interface CursorPageResponse<T> {
+  content: T[];
+  /** Cursor of the last item (pass as `after`) */
+  nextCursor: string | null;
+  /** Cursor of the first item (pass as `before`) */
+  prevCursor: string | null;
+  size: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
 // Authentication types
 export interface LoginRequest {
   token: string;
   provider?: 'kakao' | 'google' | 'apple' | string;
+  /** PKCE code_verifier (authorization code 교환 시) */
+  codeVerifier?: string;
+  /** Redirect URI used for the authorization request */
+  redirectUri?: string;
+  /** OpenID Connect nonce (id_token 검증용) */
+  nonce?: string;
 }
 
 export interface LoginResponse {
@@ -68,6 +94,7 @@ export interface RefreshTokenRequest {
 export interface RefreshTokenResponse {
   accessToken: string;
   tokenType: string;
+  expiresIn?: number;
 }
 
 // Health check types
@@ -89,6 +116,11 @@ export interface User {
   email?: string;
   username?: string;
   profileImage?: string;
+  /** Primary role (e.g., 'ADMIN', 'USER') */
+  role?: string;
+  roles?: string[];
+  /** Granted permissions (e.g., 'ads:write') */
+  permissions?: string[];
   createdAt?: string;
   updatedAt?: string;
 }
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AxiosInstance } from 'axios';
+import { uploadFile, runWithConcurrency } from './upload';
+import { ApiError } from './errors';
+
+const createError = (status: number, code: string) =>
+  new ApiError({
+    status,
+    code,
+    message: 'Upload failed',
+    timestamp: new Date().toISOString(),
+    path: '',
+  });
+
+const createClient = () => {
+  const post = vi.fn().mockResolvedValue({ status: 200, data: { data: { url: 'done' } } });
+  return { client: { post } as unknown as AxiosInstance, post };
+};
+
+const createFile = (size: number) => new File([new Uint8Array(size)], 'creative.png', { lastModified: 1 });
+
+describe('uploadFile', () => {
+  beforeEach(() => {
+    // setup.ts의 localStorage mock을 실제 저장소처럼 동작시킴 (resume 검증)
+    const store = new Map<string, string>();
+    vi.mocked(localStorage.getItem).mockImplementation((key) => store.get(key) ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store.set(key, value);
+    });
+  });
+
+  it('multipart/form-data로 단일 요청 전송', async () => {
+    const { client, post } = createClient();
+    const onProgress = vi.fn();
+
+    await uploadFile(client, '/api/files', createFile(10), { onProgress, fields: { type: 'AD' } });
+
+    expect(post).toHaveBeenCalledTimes(1);
+    const [url, form, config] = post.mock.calls[0];
+    expect(url).toBe('/api/files');
+    expect(form).toBeInstanceOf(FormData);
+    expect((form as FormData).get('type')).toBe('AD');
+    expect((form as FormData).get('file')).toBeInstanceOf(File);
+    expect(config.headers['Content-Type']).toBe('multipart/form-data');
+
+    config.onUploadProgress({ loaded: 5, total: 10 });
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 5, total: 10, percent: 50 });
+  });
+
+  it('chunkSize보다 크면 청크로 나눠 순서대로 전송', async () => {
+    const { client, post } = createClient();
+
+    const response = await uploadFile(client, '/api/files', createFile(25), { chunkSize: 10 });
+
+    expect(post).toHaveBeenCalledTimes(3);
+    const ranges = post.mock.calls.map(([, , config]) => config.headers['Content-Range']);
+    expect(ranges).toEqual(['bytes 0-9/25', 'bytes 10-19/25', 'bytes 20-24/25']);
+
+    const forms = post.mock.calls.map(([, form]) => form as FormData);
+    expect(forms.map((form) => form.get('chunkIndex'))).toEqual(['0', '1', '2']);
+    expect(new Set(forms.map((form) => form.get('uploadId'))).size).toBe(1);
+    expect(response.data.data).toEqual({ url: 'done' });
+  });
+
+  it('네트워크 오류 후 같은 청크를 재전송', async () => {
+    vi.useFakeTimers();
+    const { client, post } = createClient();
+    post.mockRejectedValueOnce(createError(0, 'NETWORK_ERROR'));
+
+    const promise = uploadFile(client, '/api/files', createFile(20), { chunkSize: 10 });
+    await vi.runAllTimersAsync();
+    await promise;
+
+    const ranges = post.mock.calls.map(([, , config]) => config.headers['Content-Range']);
+    expect(ranges).toEqual(['bytes 0-9/20', 'bytes 0-9/20', 'bytes 10-19/20']);
+    vi.useRealTimers();
+  });
+
+  it('중단된 업로드는 같은 파일로 다시 시도하면 남은 청크부터 전송', async () => {
+    const { client, post } = createClient();
+    const file = createFile(30);
+    post
+      .mockResolvedValueOnce({ status: 200, data: { data: null } })
+      .mockRejectedValueOnce(createError(500, 'C003'));
+
+    await expect(uploadFile(client, '/api/files', file, { chunkSize: 10 })).rejects.toBeInstanceOf(ApiError);
+    const uploadId = (post.mock.calls[0][1] as FormData).get('uploadId');
+
+    post.mockClear();
+    await uploadFile(client, '/api/files', file, { chunkSize: 10 });
+
+    const forms = post.mock.calls.map(([, form]) => form as FormData);
+    expect(forms.map((form) => form.get('chunkIndex'))).toEqual(['1', '2']);
+    expect(forms[0].get('uploadId')).toBe(uploadId);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('동시 실행 수를 제한하고 입력 순서대로 결과 반환', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await runWithConcurrency([1, 2, 3, 4, 5], 2, async (value) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      if (value === 3) throw new Error('fail');
+      return value * 10;
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+      'fulfilled',
+    ]);
+    expect(results[4]).toEqual({ status: 'fulfilled', value: 50 });
+  });
+});
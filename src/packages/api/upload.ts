@@ -0,0 +1,263 @@
+/**
+ * Upload - Multipart file upload with progress, chunking and resume
+ *
+ * 청크 업로드 서버 계약:
+ * - 청크마다 multipart POST (fields: file, uploadId, chunkIndex, totalChunks, fileName, fileSize)
+ * - Content-Range: bytes {start}-{end}/{total}
+ * - 같은 uploadId + chunkIndex 재전송은 덮어쓰기 (멱등), 마지막 청크 응답이 최종 결과
+ *
+ * 완료된 청크 위치는 storage에 저장되어 네트워크 끊김이나 새로고침 후 같은 파일을
+ * 다시 올리면 남은 청크부터 이어서 전송합니다.
+ */
+
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { storage as defaultStorage, type Storage } from '../utils/storage';
+import { createAbortedError, isAbortError, toApiError } from './errors';
+import { generateIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from './idempotency';
+import type { ApiResponse } from './types';
+
+export interface UploadProgress {
+  /** Bytes sent */
+  loaded: number;
+  /** Total bytes */
+  total: number;
+  /** 0 - 100 */
+  percent: number;
+}
+
+export interface UploadConfig {
+  /** Form field name for the file (default: 'file') */
+  fieldName?: string;
+  /** Extra form fields */
+  fields?: Record<string, string | Blob>;
+  /** Progress callback */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Split files larger than this into chunks (bytes, default: no chunking) */
+  chunkSize?: number;
+  /** Retries per chunk after network errors (default: 3) */
+  chunkRetries?: number;
+}
+
+interface UploadSession {
+  uploadId: string;
+  nextChunk: number;
+}
+
+const STORAGE_KEY = 'upload-sessions';
+const DEFAULT_CHUNK_RETRIES = 3;
+const MULTIPART_HEADERS = { 'Content-Type': 'multipart/form-data' };
+
+function toProgress(loaded: number, total: number): UploadProgress {
+  return {
+    loaded,
+    total,
+    percent: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+  };
+}
+
+function getFileName(file: Blob): string {
+  return file instanceof File ? file.name : 'blob';
+}
+
+function createFormData(
+  fieldName: string,
+  file: Blob,
+  fileName: string,
+  fields: Record<string, string | Blob> = {}
+): FormData {
+  const form = new FormData();
+  Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+  form.append(fieldName, file, fileName);
+  return form;
+}
+
+/**
+ * Wait before retrying (until back online when offline)
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortedError());
+      return;
+    }
+
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', onReady);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onReady = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(createAbortedError());
+    };
+
+    if (offline) {
+      window.addEventListener('online', onReady);
+    } else {
+      timer = setTimeout(onReady, delay);
+    }
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Tracks completed chunks per file so uploads can resume
+ */
+class UploadSessionStore {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  get(fingerprint: string): UploadSession | null {
+    return this.storage.get<Record<string, UploadSession>>(STORAGE_KEY)?.[fingerprint] ?? null;
+  }
+
+  set(fingerprint: string, session: UploadSession): void {
+    const sessions = this.storage.get<Record<string, UploadSession>>(STORAGE_KEY) ?? {};
+    this.storage.set(STORAGE_KEY, { ...sessions, [fingerprint]: session });
+  }
+
+  delete(fingerprint: string): void {
+    const sessions = { ...this.storage.get<Record<string, UploadSession>>(STORAGE_KEY) };
+    delete sessions[fingerprint];
+    this.storage.set(STORAGE_KEY, sessions);
+  }
+}
+
+const sessionStore = new UploadSessionStore(defaultStorage);
+
+/**
+ * Upload a file as multipart/form-data (chunked when larger than chunkSize)
+ * @returns final server response (ApiResponse envelope)
+ */
+export async function uploadFile<T>(
+  client: AxiosInstance,
+  url: string,
+  file: Blob,
+  upload: UploadConfig = {},
+  config: AxiosRequestConfig = {}
+): Promise<AxiosResponse<ApiResponse<T>>> {
+  const { fieldName = 'file', fields, onProgress, chunkSize } = upload;
+
+  if (!chunkSize || file.size <= chunkSize) {
+    onProgress?.(toProgress(0, file.size));
+    return client.post<ApiResponse<T>>(
+      url,
+      createFormData(fieldName, file, getFileName(file), fields),
+      {
+        ...config,
+        headers: { ...config.headers, ...MULTIPART_HEADERS },
+        onUploadProgress: (event) => onProgress?.(toProgress(event.loaded, event.total ?? file.size)),
+      }
+    );
+  }
+
+  return uploadChunks<T>(client, url, file, chunkSize, upload, config);
+}
+
+async function uploadChunks<T>(
+  client: AxiosInstance,
+  url: string,
+  file: Blob,
+  chunkSize: number,
+  upload: UploadConfig,
+  config: AxiosRequestConfig
+): Promise<AxiosResponse<ApiResponse<T>>> {
+  const { fieldName = 'file', fields, onProgress, chunkRetries = DEFAULT_CHUNK_RETRIES } = upload;
+  const fileName = getFileName(file);
+  const totalChunks = Math.ceil(file.size / chunkSize);
+  const lastModified = file instanceof File ? file.lastModified : 0;
+  const fingerprint = `${url}|${fileName}|${file.size}|${lastModified}|${chunkSize}`;
+
+  // Resume previous session for the same file
+  const saved = sessionStore.get(fingerprint);
+  const session: UploadSession =
+    saved && saved.nextChunk < totalChunks
+      ? saved
+      : { uploadId: generateIdempotencyKey(), nextChunk: 0 };
+
+  let response: AxiosResponse<ApiResponse<T>> | null = null;
+  onProgress?.(toProgress(session.nextChunk * chunkSize, file.size));
+
+  for (let index = session.nextChunk; index < totalChunks; index++) {
+    const start = index * chunkSize;
+    const end = Math.min(start + chunkSize, file.size);
+    const form = createFormData(fieldName, file.slice(start, end), fileName, {
+      ...fields,
+      uploadId: session.uploadId,
+      chunkIndex: String(index),
+      totalChunks: String(totalChunks),
+      fileName,
+      fileSize: String(file.size),
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        response = await client.post<ApiResponse<T>>(url, form, {
+          ...config,
+          headers: {
+            ...config.headers,
+            ...MULTIPART_HEADERS,
+            'Content-Range': `bytes ${start}-${end - 1}/${file.size}`,
+            [IDEMPOTENCY_KEY_HEADER]: `${session.uploadId}-${index}`,
+          },
+          onUploadProgress: (event) =>
+            onProgress?.(toProgress(start + Math.min(event.loaded, end - start), file.size)),
+        });
+        break;
+      } catch (err) {
+        // 네트워크 오류(status 0)만 재시도, 취소/서버 오류는 중단
+        if (isAbortError(err) || toApiError(err).status !== 0 || attempt >= chunkRetries) {
+          throw err;
+        }
+        await waitForRetry(1000 * 2 ** attempt, config.signal as AbortSignal | undefined);
+      }
+    }
+
+    session.nextChunk = index + 1;
+    if (session.nextChunk < totalChunks) {
+      sessionStore.set(fingerprint, session);
+    }
+  }
+
+  sessionStore.delete(fingerprint);
+  onProgress?.(toProgress(file.size, file.size));
+  return response as AxiosResponse<ApiResponse<T>>;
+}
+
+/**
+ * Run tasks with a concurrency limit (results in input order)
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+}
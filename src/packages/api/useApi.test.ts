@@ -0,0 +1,438 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import {
+  useApi,
+  useCursorPaginatedApi,
+  useMutation,
+  usePaginatedApi,
+  useUpload,
+  withRequestOptions,
+  withSignal,
+} from './useApi';
+import { queryCache, hashQueryKey } from './queryCache';
+import { ApiError } from './client';
+import { createAbortedError } from './errors';
+import type { RequestOptions, UploadOptions } from './http';
+import type { CursorPageRequest, CursorPageResponse } from './types';
+
+describe('useApi', () => {
+  describe('signal 전달', () => {
+    it('일반 함수는 호출자 인자를 그대로 전달', async () => {
+      const apiFunction = vi.fn<(request: { name: string }, options?: RequestOptions) => Promise<string>>()
+        .mockResolvedValue('ok');
+      const { result } = renderHook(() => useApi(apiFunction));
+
+      await act(() => result.current.execute({ name: 'ad' }));
+
+      expect(apiFunction).toHaveBeenCalledWith({ name: 'ad' });
+      expect(result.current.data).toBe('ok');
+    });
+
+    it('withRequestOptions는 마지막 인자로 { signal }을 추가하고 DTO는 건드리지 않음', async () => {
+      const request = vi.fn<(body: { name: string }, options?: RequestOptions) => Promise<string>>()
+        .mockResolvedValue('created');
+      const { result } = renderHook(() =>
+        useApi(withRequestOptions((body: { name: string }, options?: RequestOptions) => request(body, options)))
+      );
+
+      await act(() => result.current.execute({ name: 'ad' }));
+
+      const [body, options] = request.mock.calls[0];
+      expect(body).toEqual({ name: 'ad' });
+      expect(options?.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('withSignal은 첫 번째 인자로 signal을 전달하고 새 execute 시 이전 요청을 취소', async () => {
+      const signals: AbortSignal[] = [];
+      const apiFunction = withSignal((signal, id: string) => {
+        signals.push(signal!);
+        return Promise.resolve(id);
+      });
+      const { result } = renderHook(() => useApi(apiFunction));
+
+      await act(async () => {
+        void result.current.execute('first');
+        await result.current.execute('second');
+      });
+
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+      expect(result.current.data).toBe('second');
+    });
+
+    it('withSignal 함수는 signal 없이 직접 호출할 수 있음', async () => {
+      const apiFunction = withSignal(async (signal, id: string) => `${id}:${signal === undefined}`);
+
+      await expect(apiFunction('ad')).resolves.toBe('ad:true');
+    });
+  });
+
+  it('signal을 무시하는 함수도 대체된 요청의 늦은 응답으로 state를 덮어쓰지 않음', async () => {
+    const responses: Array<(value: string) => void> = [];
+    const apiFunction = vi.fn<(id: string) => Promise<string>>(
+      () => new Promise<string>((resolve) => responses.push(resolve))
+    );
+    const { result } = renderHook(() => useApi(apiFunction));
+
+    let first!: Promise<string | null>;
+    let second!: Promise<string | null>;
+    act(() => {
+      first = result.current.execute('first');
+      second = result.current.execute('second');
+    });
+
+    await act(async () => {
+      responses[1]('second');
+      await second;
+      responses[0]('first');
+      await first;
+    });
+
+    await expect(first).resolves.toBeNull();
+    expect(result.current.data).toBe('second');
+  });
+
+  it('abort 후 도착한 응답은 반영하지 않음', async () => {
+    let respond: (value: string) => void = () => {};
+    const { result } = renderHook(() =>
+      useApi(() => new Promise<string>((resolve) => (respond = resolve)))
+    );
+
+    let pending!: Promise<string | null>;
+    act(() => {
+      pending = result.current.execute();
+    });
+    act(() => result.current.abort());
+
+    await act(async () => {
+      respond('late');
+      await pending;
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.loading).toBe(false);
+  });
+});
+
+const serverError = (status: number) =>
+  new ApiError({ status, code: 'SERVER_ERROR', message: 'fail', path: '/api/todos', timestamp: '' });
+
+describe('useMutation', () => {
+  const todosKey = ['todos'];
+  const addTodo = {
+    queryKey: todosKey,
+    updater: (prev: string[] | undefined, todo: string) => [...(prev ?? []), todo],
+  };
+
+  beforeEach(() => {
+    queryCache.clear();
+    queryCache.setQueryData(todosKey, ['a']);
+  });
+
+  const deferred = () => {
+    let resolve!: (value: string) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it('optimisticUpdate는 요청 전에 캐시를 갱신하고 성공 시 유지', async () => {
+    const request = deferred();
+    const { result } = renderHook(() =>
+      useMutation<string, string, string[]>(() => request.promise, { optimisticUpdate: addTodo })
+    );
+
+    let mutation!: Promise<string | null>;
+    act(() => {
+      mutation = result.current.mutate('b');
+    });
+    await vi.waitFor(() => expect(queryCache.getQueryData(todosKey)).toEqual(['a', 'b']));
+
+    await act(async () => {
+      request.resolve('b');
+      await mutation;
+    });
+    expect(queryCache.getQueryData(todosKey)).toEqual(['a', 'b']);
+    expect(result.current.data).toBe('b');
+  });
+
+  it('실패 시 optimisticUpdate를 롤백', async () => {
+    const onError = vi.fn();
+    const { result } = renderHook(() =>
+      useMutation<string, string, string[]>(() => Promise.reject(serverError(500)), {
+        optimisticUpdate: addTodo,
+        onError,
+      })
+    );
+
+    await act(() => result.current.mutate('b'));
+
+    expect(queryCache.getQueryData(todosKey)).toEqual(['a']);
+    expect(result.current.error?.status).toBe(500);
+    expect(onError).toHaveBeenCalledWith(expect.any(ApiError), 'b');
+  });
+
+  it('onMutate가 실패하면 요청하지 않고 롤백한 뒤 null로 resolve', async () => {
+    const mutationFn = vi.fn<(todo: string) => Promise<string>>().mockResolvedValue('b');
+    const onError = vi.fn();
+    const { result } = renderHook(() =>
+      useMutation<string, string, string[]>(mutationFn, {
+        optimisticUpdate: addTodo,
+        onMutate: () => Promise.reject(new Error('onMutate failed')),
+        onError,
+      })
+    );
+
+    let value: string | null = 'pending';
+    await act(async () => {
+      value = await result.current.mutate('b');
+    });
+
+    expect(value).toBeNull();
+    expect(mutationFn).not.toHaveBeenCalled();
+    expect(queryCache.getQueryData(todosKey)).toEqual(['a']);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeInstanceOf(ApiError);
+    expect(onError).toHaveBeenCalledWith(expect.any(ApiError), 'b');
+  });
+
+  it('이후 다른 mutation이 캐시를 바꿨으면 롤백하지 않고 invalidate', async () => {
+    const first = deferred();
+    const second = deferred();
+    const queryFn = vi.fn().mockResolvedValue(['a', 'c']);
+    queryCache.subscribe(hashQueryKey(todosKey), () => {});
+    await queryCache.fetch(todosKey, queryFn, { force: true });
+    queryFn.mockClear();
+    queryFn.mockResolvedValue(['a', 'c', 'd']);
+
+    const { result } = renderHook(() =>
+      useMutation(
+        (todo: string) => (todo === 'b' ? first.promise : second.promise),
+        { optimisticUpdate: addTodo }
+      )
+    );
+
+    let failing!: Promise<string | null>;
+    let succeeding!: Promise<string | null>;
+    act(() => {
+      failing = result.current.mutate('b');
+    });
+    await vi.waitFor(() => expect(queryCache.getQueryData(todosKey)).toEqual(['a', 'c', 'b']));
+    act(() => {
+      succeeding = result.current.mutate('d');
+    });
+    await vi.waitFor(() => expect(queryCache.getQueryData(todosKey)).toEqual(['a', 'c', 'b', 'd']));
+
+    await act(async () => {
+      first.reject(serverError(500));
+      await failing;
+    });
+
+    expect(queryFn).toHaveBeenCalledTimes(1);
+    await vi.waitFor(() => expect(queryCache.getQueryData(todosKey)).toEqual(['a', 'c', 'd']));
+    second.resolve('d');
+    await act(() => succeeding);
+  });
+
+  it('retry 횟수만큼 재시도', async () => {
+    vi.useFakeTimers();
+    const mutationFn = vi.fn()
+      .mockRejectedValueOnce(serverError(503))
+      .mockResolvedValueOnce('ok');
+    const { result } = renderHook(() => useMutation(mutationFn, { retry: 1, retryDelay: 100 }));
+
+    let mutation!: Promise<unknown>;
+    act(() => {
+      mutation = result.current.mutate(undefined);
+    });
+    await act(() => vi.advanceTimersByTimeAsync(100));
+    await act(async () => {
+      await mutation;
+    });
+
+    expect(mutationFn).toHaveBeenCalledTimes(2);
+    expect(result.current.data).toBe('ok');
+    vi.useRealTimers();
+  });
+
+  it('완료 후 invalidateQueries의 쿼리를 다시 요청', async () => {
+    const queryFn = vi.fn().mockResolvedValue(['a']);
+    await queryCache.fetch(todosKey, queryFn, { force: true });
+    queryCache.subscribe(hashQueryKey(todosKey), () => {});
+    const { result } = renderHook(() =>
+      useMutation(() => Promise.resolve('ok'), { invalidateQueries: [todosKey] })
+    );
+
+    await act(() => result.current.mutate(undefined));
+
+    expect(queryFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('usePaginatedApi', () => {
+  it('refresh 이후 도착한 이전 loadMore 페이지는 추가하지 않음', async () => {
+    let resolveStale!: (value: { content: string[]; hasNext: boolean }) => void;
+    const apiFunction = vi.fn((page: number) =>
+      page === 1
+        ? new Promise<{ content: string[]; hasNext: boolean }>((resolve) => { resolveStale = resolve; })
+        : Promise.resolve({ content: [`page-${page}`], hasNext: true })
+    );
+    const { result } = renderHook(() => usePaginatedApi(apiFunction));
+
+    await act(() => result.current.load());
+    let stale!: Promise<void>;
+    act(() => {
+      stale = result.current.loadMore();
+    });
+    await act(() => result.current.refresh());
+    await act(async () => {
+      resolveStale({ content: ['stale'], hasNext: false });
+      await stale;
+    });
+
+    expect(result.current.items).toEqual(['page-0']);
+    expect(result.current.hasMore).toBe(true);
+  });
+});
+
+describe('useCursorPaginatedApi', () => {
+  const page = (
+    content: string[],
+    overrides: Partial<CursorPageResponse<string>> = {}
+  ): CursorPageResponse<string> => ({
+    content,
+    nextCursor: content.at(-1) ?? null,
+    prevCursor: content[0] ?? null,
+    size: content.length,
+    hasNext: true,
+    hasPrevious: false,
+    ...overrides,
+  });
+
+  it('nextCursor로 다음 페이지를 이어 붙이고 마지막 페이지에서 멈춤', async () => {
+    const apiFunction = vi.fn(async (request: CursorPageRequest) =>
+      request.after ? page(['c'], { hasNext: false }) : page(['a', 'b'])
+    );
+    const { result } = renderHook(() => useCursorPaginatedApi(apiFunction, { pageSize: 2 }));
+
+    await act(() => result.current.load());
+    await act(() => result.current.loadMore());
+
+    expect(apiFunction).toHaveBeenLastCalledWith({ after: 'b', size: 2 }, expect.anything());
+    expect(result.current.items).toEqual(['a', 'b', 'c']);
+    expect(result.current.hasMore).toBe(false);
+
+    await act(() => result.current.loadMore());
+    expect(apiFunction).toHaveBeenCalledTimes(2);
+  });
+
+  it('refresh는 첫 페이지로 목록을 교체', async () => {
+    const apiFunction = vi.fn()
+      .mockResolvedValueOnce(page(['a', 'b']))
+      .mockResolvedValueOnce(page(['c']))
+      .mockResolvedValueOnce(page(['new', 'a']));
+    const { result } = renderHook(() => useCursorPaginatedApi<string>(apiFunction));
+
+    await act(() => result.current.load());
+    await act(() => result.current.loadMore());
+    await act(() => result.current.refresh());
+
+    expect(apiFunction).toHaveBeenLastCalledWith({ size: undefined }, expect.anything());
+    expect(result.current.items).toEqual(['new', 'a']);
+  });
+
+  it('대체된 요청은 취소되고 응답이 와도 반영하지 않음', async () => {
+    const signals: AbortSignal[] = [];
+    let resolveStale!: (value: CursorPageResponse<string>) => void;
+    const apiFunction = vi.fn((_request: CursorPageRequest, options?: RequestOptions) => {
+      signals.push(options!.signal as AbortSignal);
+      return signals.length === 1
+        ? new Promise<CursorPageResponse<string>>((resolve) => { resolveStale = resolve; })
+        : Promise.resolve(page(['fresh']));
+    });
+    const { result } = renderHook(() => useCursorPaginatedApi(apiFunction));
+
+    let stale!: Promise<void>;
+    act(() => {
+      stale = result.current.load();
+    });
+    await act(() => result.current.refresh());
+    await act(async () => {
+      // signal을 무시하고 응답한 경우
+      resolveStale(page(['stale']));
+      await stale;
+    });
+
+    expect(signals[0].aborted).toBe(true);
+    expect(result.current.items).toEqual(['fresh']);
+  });
+});
+
+describe('useUpload', () => {
+  const createFile = (name: string, size = 10) => new File([new Uint8Array(size)], name);
+
+  it('파일별 진행률과 전체 진행률을 반영하고 성공 시 결과 저장', async () => {
+    let finish!: (url: string) => void;
+    const onSuccess = vi.fn();
+    const uploader = vi.fn((_file: File, options: UploadOptions<string>) => {
+      options.onProgress?.({ loaded: 5, total: 10, percent: 50 });
+      return new Promise<string>((resolve) => { finish = resolve; });
+    });
+    const { result } = renderHook(() => useUpload(uploader, { onSuccess }));
+    const file = createFile('a.png');
+
+    let uploading!: Promise<Array<string | null>>;
+    await act(async () => {
+      uploading = result.current.upload(file);
+    });
+    expect(result.current.items[0].status).toBe('uploading');
+    expect(result.current.items[0].progress.percent).toBe(50);
+    expect(result.current.progress).toEqual({ loaded: 5, total: 10, percent: 50 });
+    expect(uploader.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+
+    let results: Array<string | null> = [];
+    await act(async () => {
+      finish('/files/a.png');
+      results = await uploading;
+    });
+
+    expect(results).toEqual(['/files/a.png']);
+    expect(result.current.items[0]).toMatchObject({ status: 'success', result: '/files/a.png' });
+    expect(result.current.progress.percent).toBe(100);
+    expect(result.current.uploading).toBe(false);
+    expect(onSuccess).toHaveBeenCalledWith('/files/a.png', file);
+  });
+
+  it('실패한 파일은 ApiError로 error 상태, 취소한 파일은 cancelled', async () => {
+    const onError = vi.fn();
+    const uploader = vi.fn((file: File, options: UploadOptions<string>) =>
+      file.name === 'fail.png'
+        ? Promise.reject(serverError(500))
+        : new Promise<string>((_, reject) => {
+            options.signal?.addEventListener?.('abort', () => reject(createAbortedError()));
+          })
+    );
+    const { result } = renderHook(() => useUpload(uploader, { onError }));
+
+    let uploading!: Promise<Array<string | null>>;
+    await act(async () => {
+      uploading = result.current.upload([createFile('fail.png'), createFile('slow.png')]);
+    });
+    expect(result.current.items.map((item) => item.status)).toEqual(['error', 'uploading']);
+
+    let results: Array<string | null> = [];
+    await act(async () => {
+      result.current.cancel(result.current.items[1].id);
+      results = await uploading;
+    });
+
+    expect(results).toEqual([null, null]);
+    expect(result.current.items.map((item) => item.status)).toEqual(['error', 'cancelled']);
+    expect(result.current.items[0].error?.status).toBe(500);
+    expect(onError).toHaveBeenCalledWith(expect.any(ApiError), expect.objectContaining({ name: 'fail.png' }));
+    expect(result.current.progress.total).toBe(0);
+  });
+});
@@ -3,8 +3,79 @@
  * Provides a simple alternative to React Query for common use cases
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { ApiError } from './client';
+import { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import { toApiError, isAbortError, type ApiError } from './client';
+import { http, type RequestOptions, type UploadOptions } from './http';
+import { runWithConcurrency, type UploadProgress } from './upload';
+import { generateIdempotencyKey } from './idempotency';
+import type { CursorPageRequest, CursorPageResponse } from './types';
+import {
+  queryCache,
+  hashQueryKey,
+  DEFAULT_STALE_TIME,
+  DEFAULT_CACHE_TIME,
+  type QueryKey,
+} from './queryCache';
+import { circuitBreaker as sharedCircuitBreaker, type CircuitBreaker, type CircuitState } from './circuitBreaker';
+import {
+  offlineQueue as sharedOfflineQueue,
+  type OfflineQueue,
+  type QueuedRequest,
+  type FailedRequest,
+} from './offlineQueue';
+
+const ABORTABLE = Symbol('abortable');
+
+/**
+ * API function that receives the hook's AbortSignal
+ * withSignal / withRequestOptions로 생성하며, 일반 함수처럼 signal 없이 호출할 수도 있습니다.
+ */
+export interface AbortableApiFunction<T, TArgs extends unknown[]> {
+  (...args: TArgs): Promise<T>;
+  readonly [ABORTABLE]: (signal: AbortSignal, args: TArgs) => Promise<T>;
+}
+
+/** useApi / usePaginatedApi에 전달하는 API 함수 (signal이 필요하면 withSignal / withRequestOptions 사용) */
+export type ApiFunction<T, TArgs extends unknown[]> =
+  | ((...args: TArgs) => Promise<T>)
+  | AbortableApiFunction<T, TArgs>;
+
+/**
+ * Pass the hook's AbortSignal as the first parameter
+ * @example useApi(withSignal((signal, id: string) => fetchReport(id, signal)))
+ */
+export function withSignal<T, TArgs extends unknown[]>(
+  apiFunction: (signal: AbortSignal | undefined, ...args: TArgs) => Promise<T>
+): AbortableApiFunction<T, TArgs> {
+  return Object.assign((...args: TArgs) => apiFunction(undefined, ...args), {
+    [ABORTABLE]: (signal: AbortSignal, args: TArgs) => apiFunction(signal, ...args),
+  });
+}
+
+/**
+ * Pass { signal } as the last parameter (RequestOptions)
+ * 호출자의 인자는 그대로 두고 마지막 위치에 options를 추가합니다.
+ * @example useApi(withRequestOptions(adApi.getAdConfig)) // (id, options?) → execute(id)
+ */
+export function withRequestOptions<T, TArgs extends unknown[]>(
+  apiFunction: (...args: [...TArgs, RequestOptions | undefined]) => Promise<T>
+): AbortableApiFunction<T, TArgs> {
+  return Object.assign((...args: TArgs) => apiFunction(...args, undefined), {
+    [ABORTABLE]: (signal: AbortSignal, args: TArgs) => apiFunction(...args, { signal }),
+  });
+}
+
+// withSignal / withRequestOptions로 만든 함수에만 signal 전달 (그 외에는 인자를 건드리지 않음)
+function callWithSignal<T, TArgs extends unknown[]>(
+  apiFunction: ApiFunction<T, TArgs>,
+  args: TArgs,
+  signal: AbortSignal
+): Promise<T> {
+  if (ABORTABLE in apiFunction) {
+    return apiFunction[ABORTABLE](signal, args);
+  }
+  return apiFunction(...args);
+}
 
 export interface UseApiState<T> {
   /** Response data */
@@ -41,11 +112,13 @@ export interface UseApiResult<T, TArgs extends unknown[]> extends UseApiState<T>
 
 /**
  * Hook for making API calls with loading/error state management
+ * withSignal / withRequestOptions로 감싼 함수에는 AbortSignal이 전달되어
+ * abort() 또는 새 execute() 호출 시 실제 요청이 취소됩니다.
  * @param apiFunction - The API function to call
  * @param options - Hook options
  */
 export function useApi<T, TArgs extends unknown[] = []>(
-  apiFunction: (...args: TArgs) => Promise<T>,
+  apiFunction: ApiFunction<T, TArgs>,
   options: UseApiOptions = {}
 ): UseApiResult<T, TArgs> {
   const {
@@ -87,8 +160,13 @@ export function useApi<T, TArgs extends unknown[] = []>(
         called: true,
       }));
 
+      const { signal } = abortControllerRef.current;
+
       try {
-        const result = await apiFunction(...args);
+        const result = await callWithSignal(apiFunction, args, signal);
+
+        // signal을 무시하는 apiFunction이어도 대체/취소된 요청의 응답은 버림
+        if (signal.aborted) return null;
 
         if (mountedRef.current) {
           setState((prev) => ({
@@ -102,13 +180,12 @@ export function useApi<T, TArgs extends unknown[] = []>(
 
         return result;
       } catch (err) {
-        const apiError = err instanceof ApiError ? err : new ApiError({
-          status: 0,
-          code: 'UNKNOWN_ERROR',
-          message: err instanceof Error ? err.message : 'Unknown error',
-          timestamp: new Date().toISOString(),
-          path: '',
-        });
+        // Cancelled request (abort() or newer execute) - no error state
+        if (isAbortError(err) || signal.aborted) {
+          return null;
+        }
+
+        const apiError = toApiError(err);
 
         if (mountedRef.current) {
           setState((prev) => ({
@@ -160,6 +237,282 @@ export function useApi<T, TArgs extends unknown[] = []>(
   };
 }
 
+/**
+ * Hook for cached queries (stale-while-revalidate)
+ */
+export interface UseQueryOptions<T> {
+  /** Fetch when true (default: true) */
+  enabled?: boolean;
+  /** Time in ms before cached data is refetched (default: 0) */
+  staleTime?: number;
+  /** Time in ms to keep unused data in cache (default: 5 minutes) */
+  cacheTime?: number;
+  /** Callback on success */
+  onSuccess?: (data: T) => void;
+  /** Callback on error */
+  onError?: (error: ApiError) => void;
+}
+
+export interface UseQueryResult<T> {
+  /** Cached or fetched data */
+  data: T | null;
+  /** Loading without any cached data */
+  loading: boolean;
+  /** Request in flight (including background revalidation) */
+  fetching: boolean;
+  /** Error object */
+  error: ApiError | null;
+  /** Last successful fetch time (0 if never fetched) */
+  updatedAt: number;
+  /** Force refetch ignoring staleTime */
+  refetch: () => Promise<T | null>;
+}
+
+/**
+ * Hook for API calls backed by the shared query cache
+ * @param queryKey - Cache key identifying the function and its arguments
+ * @param queryFn - The API function to call
+ * @param options - Hook options
+ */
+export function useQuery<T>(
+  queryKey: QueryKey,
+  queryFn: () => Promise<T>,
+  options: UseQueryOptions<T> = {}
+): UseQueryResult<T> {
+  const {
+    enabled = true,
+    staleTime = DEFAULT_STALE_TIME,
+    cacheTime = DEFAULT_CACHE_TIME,
+    onSuccess,
+    onError,
+  } = options;
+
+  const hash = hashQueryKey(queryKey);
+
+  // Keep latest key/function/callbacks without re-triggering effects
+  const latestRef = useRef({ queryKey, queryFn, onSuccess, onError });
+  useEffect(() => {
+    latestRef.current = { queryKey, queryFn, onSuccess, onError };
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(hash, listener, cacheTime),
+    [hash, cacheTime]
+  );
+  const getSnapshot = useCallback(() => queryCache.getState<T>(hash), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Fetch on mount / key change (returns cache if fresh)
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    const { queryKey: key, queryFn: fn } = latestRef.current;
+
+    queryCache
+      .fetch(key, fn, { staleTime })
+      .then((data) => {
+        if (active) latestRef.current.onSuccess?.(data);
+      })
+      .catch((err: ApiError) => {
+        if (active) latestRef.current.onError?.(err);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [hash, enabled, staleTime]);
+
+  const refetch = useCallback(async (): Promise<T | null> => {
+    const { queryKey: key, queryFn: fn } = latestRef.current;
+    try {
+      return await queryCache.fetch(key, fn, { force: true });
+    } catch {
+      return null;
+    }
+  }, []);
+
+  return {
+    data: state.data ?? null,
+    loading: state.updatedAt === 0 && (state.isFetching || (enabled && !state.error)),
+    fetching: state.isFetching,
+    error: state.error,
+    updatedAt: state.updatedAt,
+    refetch,
+  };
+}
+
+/**
+ * Hook for mutations (create/update/delete) with optimistic updates
+ */
+export interface OptimisticUpdate<TVariables, TQueryData> {
+  /** Cached query to update before the request */
+  queryKey: QueryKey;
+  /** Compute optimistic data from cached data */
+  updater: (prev: TQueryData | undefined, variables: TVariables) => TQueryData;
+}
+
+export interface UseMutationOptions<TData, TVariables, TQueryData = unknown> {
+  /**
+   * Called before the request
+   * 롤백 함수를 반환하면 요청 실패 시 자동으로 호출됩니다.
+   */
+  onMutate?: (variables: TVariables) => void | (() => void) | Promise<void | (() => void)>;
+  /**
+   * Optimistic cache update
+   * 실패 시 자동 롤백 (그 사이 캐시가 다시 바뀌었으면 롤백 대신 queryKey를 invalidate)
+   */
+  optimisticUpdate?: OptimisticUpdate<TVariables, TQueryData>;
+  /** Callback on success */
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  /** Callback on error (after rollback) */
+  onError?: (error: ApiError, variables: TVariables) => void;
+  /** Callback after success or error */
+  onSettled?: (data: TData | null, error: ApiError | null, variables: TVariables) => void;
+  /** Queries to invalidate after the mutation settles */
+  invalidateQueries?: QueryKey[];
+  /** Retry count on failure (default: 0) */
+  retry?: number;
+  /** Base retry delay in ms, doubled each attempt (default: 1000) */
+  retryDelay?: number;
+}
+
+export interface UseMutationResult<TData, TVariables> extends UseApiState<TData> {
+  /** Run the mutation */
+  mutate: (variables: TVariables) => Promise<TData | null>;
+  /** Reset state to initial */
+  reset: () => void;
+}
+
+/**
+ * Hook for mutations with optimistic update, rollback and retry
+ * @param mutationFn - The API function to call
+ * @param options - Hook options
+ */
+export function useMutation<TData, TVariables = void, TQueryData = unknown>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables, TQueryData> = {}
+): UseMutationResult<TData, TVariables> {
+  const {
+    onMutate,
+    optimisticUpdate,
+    onSuccess,
+    onError,
+    onSettled,
+    invalidateQueries,
+    retry = 0,
+    retryDelay = 1000,
+  } = options;
+
+  const [state, setState] = useState<UseApiState<TData>>({
+    data: null,
+    loading: false,
+    error: null,
+    called: false,
+  });
+
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const mutate = useCallback(
+    async (variables: TVariables): Promise<TData | null> => {
+      setState((prev) => ({ ...prev, loading: true, error: null, called: true }));
+
+      // Optimistic updates
+      const rollbacks: Array<() => void> = [];
+
+      if (optimisticUpdate) {
+        const { queryKey, updater } = optimisticUpdate;
+        const snapshot = queryCache.getQueryData<TQueryData>(queryKey);
+        queryCache.setQueryData<TQueryData>(queryKey, (prev) => updater(prev, variables));
+        const optimistic = queryCache.getQueryData<TQueryData>(queryKey);
+        rollbacks.push(() => {
+          // 이후 다른 mutation/응답이 캐시를 바꿨으면 snapshot으로 덮어쓰지 않고 서버 데이터로 다시 요청
+          if (queryCache.getQueryData(queryKey) === optimistic) {
+            queryCache.setQueryData(queryKey, snapshot);
+          } else {
+            queryCache.invalidateQueries(queryKey);
+          }
+        });
+      }
+
+      let result: TData | null = null;
+      let apiError: ApiError | null = null;
+
+      try {
+        try {
+          const rollback = await onMutate?.(variables);
+          if (typeof rollback === 'function') {
+            rollbacks.push(rollback);
+          }
+
+          for (let attempt = 0; ; attempt++) {
+            try {
+              result = await mutationFn(variables);
+              apiError = null;
+              break;
+            } catch (err) {
+              apiError = toApiError(err);
+              if (attempt >= retry || isAbortError(err)) break;
+              await new Promise((resolve) => setTimeout(resolve, retryDelay * Math.pow(2, attempt)));
+            }
+          }
+        } catch (err) {
+          // onMutate 실패 - 요청하지 않고, 이미 적용된 optimistic update는 롤백
+          apiError = toApiError(err);
+        }
+
+        if (apiError) {
+          // Rollback in reverse order
+          rollbacks.reverse().forEach((fn) => fn());
+        }
+
+        invalidateQueries?.forEach((queryKey) => queryCache.invalidateQueries(queryKey));
+      } finally {
+        if (mountedRef.current) {
+          setState((prev) => ({
+            ...prev,
+            data: apiError ? prev.data : result,
+            loading: false,
+            error: apiError,
+          }));
+        }
+      }
+
+      if (apiError) {
+        onError?.(apiError, variables);
+      } else {
+        onSuccess?.(result as TData, variables);
+      }
+      onSettled?.(result, apiError, variables);
+
+      return result;
+    },
+    [mutationFn, onMutate, optimisticUpdate, onSuccess, onError, onSettled, invalidateQueries, retry, retryDelay]
+  );
+
+  const reset = useCallback(() => {
+    setState({
+      data: null,
+      loading: false,
+      error: null,
+      called: false,
+    });
+  }, []);
+
+  return {
+    ...state,
+    mutate,
+    reset,
+  };
+}
+
 /**
  * Hook for paginated API calls
  */
@@ -199,10 +552,12 @@ export interface UsePaginatedApiResult<T, TArgs extends unknown[]> {
   refresh: (...args: TArgs) => Promise<void>;
   /** Reset state */
   reset: () => void;
+  /** Abort the current request */
+  abort: () => void;
 }
 
 export function usePaginatedApi<T, TArgs extends unknown[] = []>(
-  apiFunction: (page: number, ...args: TArgs) => Promise<T>,
+  apiFunction: ApiFunction<T, [page: number, ...args: TArgs]>,
   options: UsePaginatedApiOptions<T> = {}
 ): UsePaginatedApiResult<T, TArgs> {
   const {
@@ -228,22 +583,34 @@ export function usePaginatedApi<T, TArgs extends unknown[] = []>(
   const [page, setPage] = useState(initialPage);
   const [hasMore, setHasMore] = useState(true);
 
+  const abortControllerRef = useRef<AbortController | null>(null);
   const mountedRef = useRef(true);
 
   useEffect(() => {
     mountedRef.current = true;
     return () => {
       mountedRef.current = false;
+      abortControllerRef.current?.abort();
     };
   }, []);
 
   const load = useCallback(
     async (...args: TArgs) => {
+      // Abort previous request
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+
       setLoading(true);
+      setLoadingMore(false);
       setError(null);
 
       try {
-        const response = await apiFunction(initialPage, ...args);
+        const response = await callWithSignal(apiFunction, [initialPage, ...args], signal);
+
+        // signal을 무시하는 apiFunction이어도 대체된 요청의 응답은 버림
+        if (signal.aborted) return;
 
         if (mountedRef.current) {
           setData(response);
@@ -254,14 +621,10 @@ export function usePaginatedApi<T, TArgs extends unknown[] = []>(
           onSuccess?.(response);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
+
         if (mountedRef.current) {
-          const apiError = err instanceof ApiError ? err : new ApiError({
-            status: 0,
-            code: 'UNKNOWN_ERROR',
-            message: err instanceof Error ? err.message : 'Unknown error',
-            timestamp: new Date().toISOString(),
-            path: '',
-          });
+          const apiError = toApiError(err);
           setError(apiError);
           setLoading(false);
           onError?.(apiError);
@@ -273,13 +636,21 @@ export function usePaginatedApi<T, TArgs extends unknown[] = []>(
 
   const loadMore = useCallback(
     async (...args: TArgs) => {
-      if (!hasMore || loadingMore) return;
+      if (!hasMore || loading || loadingMore) return;
+
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
 
       setLoadingMore(true);
 
       try {
         const nextPage = page + 1;
-        const response = await apiFunction(nextPage, ...args);
+        const response = await callWithSignal(apiFunction, [nextPage, ...args], signal);
+
+        // refresh 등으로 대체된 요청의 페이지는 추가하지 않음
+        if (signal.aborted) return;
 
         if (mountedRef.current) {
           setData(response);
@@ -291,21 +662,17 @@ export function usePaginatedApi<T, TArgs extends unknown[] = []>(
           onSuccess?.(response);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
+
         if (mountedRef.current) {
-          const apiError = err instanceof ApiError ? err : new ApiError({
-            status: 0,
-            code: 'UNKNOWN_ERROR',
-            message: err instanceof Error ? err.message : 'Unknown error',
-            timestamp: new Date().toISOString(),
-            path: '',
-          });
+          const apiError = toApiError(err);
           setError(apiError);
           setLoadingMore(false);
           onError?.(apiError);
         }
       }
     },
-    [apiFunction, page, hasMore, loadingMore, getItems, hasMorePages, mergeItems, onSuccess, onError]
+    [apiFunction, page, hasMore, loading, loadingMore, getItems, hasMorePages, mergeItems, onSuccess, onError]
   );
 
   const refresh = useCallback(
@@ -316,7 +683,14 @@ export function usePaginatedApi<T, TArgs extends unknown[] = []>(
     [load]
   );
 
+  const abort = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setLoading(false);
+    setLoadingMore(false);
+  }, []);
+
   const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
     setItems([]);
     setData(null);
     setLoading(false);
@@ -338,5 +712,541 @@ export function usePaginatedApi<T, TArgs extends unknown[] = []>(
     loadMore,
     refresh,
     reset,
+    abort,
+  };
+}
+
+/**
+ * Hook for cursor-paginated API calls (feeds)
+ */
+export interface UseCursorPaginatedApiOptions<T> extends UseApiOptions {
+  /** Page size sent as `size` */
+  pageSize?: number;
+  /** Starting position (e.g., { after: cursor } to open a feed in the middle) */
+  initialCursor?: Omit<CursorPageRequest, 'size'>;
+  /** Item key used to drop duplicates when pages overlap */
+  getItemKey?: (item: T) => string | number;
+}
+
+export interface UseCursorPaginatedApiResult<T> {
+  /** Loaded items (oldest page last) */
+  items: T[];
+  /** Loading first page (load / refresh) */
+  loading: boolean;
+  /** Loading items after nextCursor */
+  loadingMore: boolean;
+  /** Loading items before prevCursor */
+  loadingPrevious: boolean;
+  /** Error object */
+  error: ApiError | null;
+  /** Has items after the last loaded item */
+  hasMore: boolean;
+  /** Has items before the first loaded item */
+  hasPrevious: boolean;
+  /** Load first page (replaces items) */
+  load: () => Promise<void>;
+  /** Load next page (after) */
+  loadMore: () => Promise<void>;
+  /** Load previous page (before) */
+  loadPrevious: () => Promise<void>;
+  /** Reload first page */
+  refresh: () => Promise<void>;
+  /** Reset state */
+  reset: () => void;
+  /** Abort all requests */
+  abort: () => void;
+  /** Props for <InfiniteScroll {...infiniteScrollProps}> */
+  infiniteScrollProps: {
+    onLoadMore: () => Promise<void>;
+    hasMore: boolean;
+    loading: boolean;
+  };
+  /** Props for <PullToRefresh {...pullToRefreshProps}> */
+  pullToRefreshProps: {
+    onRefresh: () => Promise<void>;
+  };
+}
+
+type CursorDirection = 'initial' | 'after' | 'before';
+
+interface CursorPageState<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasMore: boolean;
+  hasPrevious: boolean;
+  initialized: boolean;
+  loading: boolean;
+  loadingMore: boolean;
+  loadingPrevious: boolean;
+  error: ApiError | null;
+}
+
+const CURSOR_LOADING_KEYS = {
+  initial: 'loading',
+  after: 'loadingMore',
+  before: 'loadingPrevious',
+} as const;
+
+function createCursorPageState<T>(loading: boolean): CursorPageState<T> {
+  return {
+    items: [],
+    nextCursor: null,
+    prevCursor: null,
+    hasMore: true,
+    hasPrevious: false,
+    initialized: false,
+    loading,
+    loadingMore: false,
+    loadingPrevious: false,
+    error: null,
+  };
+}
+
+function mergeCursorItems<T>(
+  head: T[],
+  tail: T[],
+  keep: 'head' | 'tail',
+  getItemKey?: (item: T) => string | number
+): T[] {
+  if (!getItemKey) return [...head, ...tail];
+
+  // 기존 항목을 유지하고 새 페이지의 중복 항목만 제거
+  if (keep === 'head') {
+    const keys = new Set(head.map(getItemKey));
+    return [...head, ...tail.filter((item) => !keys.has(getItemKey(item)))];
+  }
+  const keys = new Set(tail.map(getItemKey));
+  return [...head.filter((item) => !keys.has(getItemKey(item))), ...tail];
+}
+
+/**
+ * Hook for cursor-based pagination with bidirectional loading
+ * apiFunction은 (request, options) 형태여야 하며 options.signal로 요청이 취소됩니다.
+ *
+ * @example
+ * const feed = useCursorPaginatedApi(
+ *   (request, options) => http.getCursorPage<Post>('/api/feed', request, options),
+ *   { immediate: true, getItemKey: (post) => post.id }
+ * );
+ * <PullToRefresh {...feed.pullToRefreshProps}>
+ *   <InfiniteScroll {...feed.infiniteScrollProps}>...</InfiniteScroll>
+ * </PullToRefresh>
+ */
+export function useCursorPaginatedApi<T>(
+  apiFunction: (
+    request: CursorPageRequest,
+    options?: RequestOptions
+  ) => Promise<CursorPageResponse<T>>,
+  options: UseCursorPaginatedApiOptions<T> = {}
+): UseCursorPaginatedApiResult<T> {
+  const { immediate = false, pageSize, initialCursor, getItemKey, onSuccess, onError } = options;
+
+  const [state, setState] = useState<CursorPageState<T>>(() => createCursorPageState<T>(immediate));
+
+  const controllersRef = useRef<Set<AbortController>>(new Set());
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    const controllers = controllersRef.current;
+    return () => {
+      mountedRef.current = false;
+      controllers.forEach((controller) => controller.abort());
+    };
+  }, []);
+
+  const fetchPage = useCallback(
+    async (direction: CursorDirection, cursor: Omit<CursorPageRequest, 'size'>) => {
+      const loadingKey = CURSOR_LOADING_KEYS[direction];
+
+      // First page replaces everything - abort in-flight requests
+      if (direction === 'initial') {
+        controllersRef.current.forEach((controller) => controller.abort());
+        controllersRef.current.clear();
+      }
+
+      const controller = new AbortController();
+      controllersRef.current.add(controller);
+
+      setState((prev) => ({
+        ...prev,
+        ...(direction === 'initial' && { loadingMore: false, loadingPrevious: false }),
+        [loadingKey]: true,
+        error: null,
+      }));
+
+      try {
+        const response = await apiFunction(
+          { ...cursor, size: pageSize },
+          { signal: controller.signal }
+        );
+
+        // 대체된 요청(refresh/reset/abort)의 응답은 signal을 무시한 경우에도 버림
+        if (!mountedRef.current || controller.signal.aborted) return;
+
+        setState((prev) => {
+          if (direction === 'initial') {
+            return {
+              ...prev,
+              items: response.content,
+              nextCursor: response.nextCursor,
+              prevCursor: response.prevCursor,
+              hasMore: response.hasNext,
+              hasPrevious: response.hasPrevious,
+              initialized: true,
+              loading: false,
+            };
+          }
+
+          if (direction === 'after') {
+            return {
+              ...prev,
+              items: mergeCursorItems(prev.items, response.content, 'head', getItemKey),
+              nextCursor: response.nextCursor,
+              hasMore: response.hasNext,
+              loadingMore: false,
+            };
+          }
+
+          return {
+            ...prev,
+            items: mergeCursorItems(response.content, prev.items, 'tail', getItemKey),
+            prevCursor: response.prevCursor,
+            hasPrevious: response.hasPrevious,
+            loadingPrevious: false,
+          };
+        });
+        onSuccess?.(response);
+      } catch (err) {
+        if (isAbortError(err) || !mountedRef.current) return;
+
+        const apiError = toApiError(err);
+        setState((prev) => ({ ...prev, [loadingKey]: false, error: apiError }));
+        onError?.(apiError);
+      } finally {
+        controllersRef.current.delete(controller);
+      }
+    },
+    [apiFunction, pageSize, getItemKey, onSuccess, onError]
+  );
+
+  const load = useCallback(
+    () => fetchPage('initial', initialCursor ?? {}),
+    [fetchPage, initialCursor]
+  );
+
+  const loadMore = useCallback(async () => {
+    // InfiniteScroll may ask for more before the first page was requested
+    if (!state.initialized) {
+      if (!state.loading) await load();
+      return;
+    }
+    if (!state.hasMore || !state.nextCursor || state.loading || state.loadingMore) return;
+
+    await fetchPage('after', { after: state.nextCursor });
+  }, [state.initialized, state.hasMore, state.nextCursor, state.loading, state.loadingMore, load, fetchPage]);
+
+  const loadPrevious = useCallback(async () => {
+    if (!state.hasPrevious || !state.prevCursor || state.loading || state.loadingPrevious) return;
+
+    await fetchPage('before', { before: state.prevCursor });
+  }, [state.hasPrevious, state.prevCursor, state.loading, state.loadingPrevious, fetchPage]);
+
+  const abort = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
+    setState((prev) => ({ ...prev, loading: false, loadingMore: false, loadingPrevious: false }));
+  }, []);
+
+  const reset = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
+    setState(createCursorPageState<T>(false));
+  }, []);
+
+  // Load first page immediately if requested
+  useEffect(() => {
+    if (immediate) {
+      load();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return {
+    items: state.items,
+    loading: state.loading,
+    loadingMore: state.loadingMore,
+    loadingPrevious: state.loadingPrevious,
+    error: state.error,
+    hasMore: state.hasMore,
+    hasPrevious: state.hasPrevious,
+    load,
+    loadMore,
+    loadPrevious,
+    refresh: load,
+    reset,
+    abort,
+    infiniteScrollProps: {
+      onLoadMore: loadMore,
+      hasMore: state.hasMore,
+      loading: state.loading || state.loadingMore,
+    },
+    pullToRefreshProps: {
+      onRefresh: load,
+    },
+  };
+}
+
+export type UploadStatus = 'pending' | 'uploading' | 'success' | 'error' | 'cancelled';
+
+export interface UploadItem<T> {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: UploadProgress;
+  result: T | null;
+  error: ApiError | null;
+}
+
+export interface UseUploadOptions<T> extends Omit<UploadOptions<T>, 'onProgress' | 'signal'> {
+  /** Max parallel uploads (default: 3) */
+  concurrency?: number;
+  /** Callback per uploaded file */
+  onSuccess?: (result: T, file: File) => void;
+  /** Callback per failed file */
+  onError?: (error: ApiError, file: File) => void;
+}
+
+export interface UseUploadResult<T> {
+  /** Upload items (in selection order) */
+  items: UploadItem<T>[];
+  /** Any upload pending or in progress */
+  uploading: boolean;
+  /** Overall progress of active and completed uploads */
+  progress: UploadProgress;
+  /** Upload files with the concurrency limit (null for failed/cancelled files) */
+  upload: (files: File | File[] | FileList) => Promise<Array<T | null>>;
+  /** Cancel one upload or all uploads */
+  cancel: (id?: string) => void;
+  /** Retry a failed or cancelled upload (chunked uploads resume) */
+  retry: (id: string) => Promise<T | null>;
+  /** Remove an item (cancels it if uploading) */
+  remove: (id: string) => void;
+  /** Cancel everything and clear items */
+  reset: () => void;
+}
+
+type Uploader<T> = (file: File, options: UploadOptions<T>) => Promise<T>;
+
+/**
+ * Hook for file uploads with per-file progress, cancel and parallel limit
+ * @param target - Upload URL (http.upload) or service function (e.g., adApi.uploadCreative)
+ */
+export function useUpload<T>(
+  target: string | Uploader<T>,
+  options: UseUploadOptions<T> = {}
+): UseUploadResult<T> {
+  const { concurrency = 3, onSuccess, onError, ...uploadOptions } = options;
+
+  const [items, setItems] = useState<UploadItem<T>[]>([]);
+
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const cancelledRef = useRef<Set<string>>(new Set());
+  const mountedRef = useRef(true);
+  const latestRef = useRef({ uploadOptions, onSuccess, onError });
+
+  useEffect(() => {
+    latestRef.current = { uploadOptions, onSuccess, onError };
+  });
+
+  useEffect(() => {
+    mountedRef.current = true;
+    const controllers = controllersRef.current;
+    return () => {
+      mountedRef.current = false;
+      controllers.forEach((controller) => controller.abort());
+    };
+  }, []);
+
+  const updateItem = useCallback((id: string, partial: Partial<UploadItem<T>>) => {
+    if (!mountedRef.current) return;
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...partial } : item)));
+  }, []);
+
+  const startUpload = useCallback(
+    async (item: UploadItem<T>): Promise<T | null> => {
+      // Cancelled while waiting for a free slot
+      if (cancelledRef.current.has(item.id)) {
+        updateItem(item.id, { status: 'cancelled' });
+        return null;
+      }
+
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      updateItem(item.id, { status: 'uploading', error: null });
+
+      const { uploadOptions: config, onSuccess: handleSuccess, onError: handleError } = latestRef.current;
+      const uploader: Uploader<T> =
+        typeof target === 'string' ? (file, opts) => http.upload<T>(target, file, opts) : target;
+
+      try {
+        const result = await uploader(item.file, {
+          ...config,
+          signal: controller.signal,
+          onProgress: (progress) => updateItem(item.id, { progress }),
+        });
+
+        updateItem(item.id, {
+          status: 'success',
+          result,
+          progress: { loaded: item.file.size, total: item.file.size, percent: 100 },
+        });
+        handleSuccess?.(result, item.file);
+        return result;
+      } catch (err) {
+        if (isAbortError(err)) {
+          updateItem(item.id, { status: 'cancelled' });
+          return null;
+        }
+
+        const apiError = toApiError(err);
+        updateItem(item.id, { status: 'error', error: apiError });
+        handleError?.(apiError, item.file);
+        return null;
+      } finally {
+        controllersRef.current.delete(item.id);
+      }
+    },
+    [target, updateItem]
+  );
+
+  const upload = useCallback(
+    async (files: File | File[] | FileList) => {
+      const list = files instanceof File ? [files] : Array.from(files);
+      const newItems: UploadItem<T>[] = list.map((file) => ({
+        id: generateIdempotencyKey(),
+        file,
+        status: 'pending',
+        progress: { loaded: 0, total: file.size, percent: 0 },
+        result: null,
+        error: null,
+      }));
+
+      setItems((prev) => [...prev, ...newItems]);
+
+      const results = await runWithConcurrency(newItems, concurrency, startUpload);
+      return results.map((result) => (result.status === 'fulfilled' ? result.value : null));
+    },
+    [concurrency, startUpload]
+  );
+
+  const cancel = useCallback(
+    (id?: string) => {
+      const ids = id ? [id] : items.map((item) => item.id);
+      ids.forEach((itemId) => {
+        cancelledRef.current.add(itemId);
+        controllersRef.current.get(itemId)?.abort();
+      });
+    },
+    [items]
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      const item = items.find((candidate) => candidate.id === id);
+      if (!item || item.status === 'uploading' || item.status === 'success') return null;
+
+      cancelledRef.current.delete(id);
+      return startUpload(item);
+    },
+    [items, startUpload]
+  );
+
+  const remove = useCallback((id: string) => {
+    cancelledRef.current.add(id);
+    controllersRef.current.get(id)?.abort();
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const reset = useCallback(() => {
+    items.forEach((item) => cancelledRef.current.add(item.id));
+    controllersRef.current.forEach((controller) => controller.abort());
+    setItems([]);
+  }, [items]);
+
+  // Overall progress (failed/cancelled files excluded)
+  const active = items.filter((item) => item.status !== 'error' && item.status !== 'cancelled');
+  const loaded = active.reduce((sum, item) => sum + item.progress.loaded, 0);
+  const total = active.reduce((sum, item) => sum + item.file.size, 0);
+
+  return {
+    items,
+    uploading: items.some((item) => item.status === 'pending' || item.status === 'uploading'),
+    progress: { loaded, total, percent: total > 0 ? Math.round((loaded / total) * 100) : 0 },
+    upload,
+    cancel,
+    retry,
+    remove,
+    reset,
+  };
+}
+
+/**
+ * Hook for circuit breaker state (e.g., show "server unavailable" banner)
+ * @param key - Circuit key (e.g., '/api/ads')
+ * @param breaker - Circuit breaker instance (default: shared instance)
+ */
+export function useCircuitState(
+  key: string,
+  breaker: CircuitBreaker = sharedCircuitBreaker
+): CircuitState {
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      breaker.onStateChange((changedKey) => {
+        if (changedKey === key) listener();
+      }),
+    [breaker, key]
+  );
+  const getSnapshot = useCallback(() => breaker.getState(key), [breaker, key]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export interface UseOfflineQueueResult {
+  /** Requests waiting for replay */
+  pending: QueuedRequest[];
+  /** Number of requests waiting for replay */
+  pendingCount: number;
+  /** Requests rejected by the server on replay */
+  failures: FailedRequest[];
+  /** Replay now (no-op while offline) */
+  flush: () => Promise<void>;
+  /** Remove a pending or failed request */
+  remove: (id: string) => void;
+  /** Clear failure list */
+  clearFailures: () => void;
+}
+
+/**
+ * Hook for offline mutation queue state
+ * @param queue - Offline queue instance (default: shared instance)
+ */
+export function useOfflineQueue(queue: OfflineQueue = sharedOfflineQueue): UseOfflineQueueResult {
+  const subscribe = useCallback((listener: () => void) => queue.subscribe(listener), [queue]);
+  const getSnapshot = useCallback(() => queue.getSnapshot(), [queue]);
+  const { pending, failures } = useSyncExternalStore(subscribe, getSnapshot);
+
+  const flush = useCallback(() => queue.flush(), [queue]);
+  const remove = useCallback((id: string) => queue.remove(id), [queue]);
+  const clearFailures = useCallback(() => queue.clearFailures(), [queue]);
+
+  return {
+    pending,
+    pendingCount: pending.length,
+    failures,
+    flush,
+    remove,
+    clearFailures,
   };
 }
@@ -1,28 +1,89 @@
 /**
- * AuthProvider - Authentication context with API client initialization
+ * Auth Provider - Initializes API client with auth store
  */
 
-import { useEffect, type ReactNode } from 'react';
-import { initializeApiClient } from '../api';
-import { useAuthStore } from '../store';
+import { useEffect, useState, type ReactNode } from 'react';
+import {
+  createTabLock,
+  getApiClient,
+  initializeApiClient,
+  offlineQueue,
+  RefreshCoordinator,
+  TokenRefreshScheduler,
+  type ApiClientConfig,
+} from '../api';
+import { setTokenStorage, syncAuthAcrossTabs, useAuthStore, type TokenStorageMode } from '../store';
+import { sessionReauth } from './session';
+
+/** Named client config - token handling is wired to the auth store */
+export type AuthClientConfig = Omit<
+  ApiClientConfig,
+  | 'getAccessToken'
+  | 'getRefreshToken'
+  | 'setTokens'
+  | 'clearTokens'
+  | 'onUnauthorized'
+  | 'reauthenticate'
+  | 'refreshCoordinator'
+  | 'refreshTokenMode'
+>;
 
 export interface AuthProviderProps {
   children: ReactNode;
   apiBaseUrl: string;
   onUnauthorized?: () => void;
+  /**
+   * Additional named clients sharing the auth store (e.g., { analytics: { baseURL } })
+   * refresh는 모든 클라이언트에서 한 번만 실행됩니다. 렌더마다 재생성되지 않도록 memoize 하세요.
+   */
+  clients?: Record<string, AuthClientConfig>;
+  /** Refresh access token this many ms before expiry (default: 60000) */
+  refreshLeadTime?: number;
+  /**
+   * Sync login/logout/tokens across tabs and refresh in one tab only (default: true)
+   * 최초 렌더 시의 값만 사용합니다.
+   */
+  syncTabs?: boolean;
+  /**
+   * Token storage strategy (default: 'local')
+   * 'memory'는 access token을 메모리에만 두고 httpOnly 쿠키(withCredentials)로 refresh 합니다.
+   */
+  tokenStorage?: TokenStorageMode;
 }
 
 export function AuthProvider({
   children,
   apiBaseUrl,
   onUnauthorized,
+  clients,
+  refreshLeadTime,
+  syncTabs = true,
+  tokenStorage = 'local',
 }: AuthProviderProps) {
   const { getAccessToken, getRefreshToken, setTokens, clearAuth } = useAuthStore();
+  const [refreshCoordinator] = useState(
+    () =>
+      new RefreshCoordinator(
+        syncTabs
+          ? {
+              lock: createTabLock('auth-refresh'),
+              getAccessToken: () => useAuthStore.getState().accessToken,
+            }
+          : {}
+      )
+  );
+
+  // Cross-tab sync
+  useEffect(() => {
+    if (!syncTabs) return;
+    return syncAuthAcrossTabs();
+  }, [syncTabs]);
 
-  // Initialize API client
+  // Initialize API clients
   useEffect(() => {
-    initializeApiClient({
-      baseURL: apiBaseUrl,
+    const refreshTokenMode: ApiClientConfig['refreshTokenMode'] =
+      tokenStorage === 'memory' ? 'cookie' : 'body';
+    const authConfig = {
       getAccessToken,
       getRefreshToken,
       setTokens,
@@ -31,8 +92,77 @@ export function AuthProvider({
         clearAuth();
         onUnauthorized?.();
       },
+      // SessionManager의 재로그인 프롬프트 (없으면 바로 로그아웃)
+      reauthenticate: () => sessionReauth.request(),
+      refreshCoordinator,
+      refreshTokenMode,
+    };
+
+    initializeApiClient({ baseURL: apiBaseUrl, ...authConfig });
+
+    Object.entries(clients ?? {}).forEach(([name, clientConfig]) => {
+      initializeApiClient(name, { ...clientConfig, ...authConfig });
+    });
+  }, [
+    apiBaseUrl,
+    clients,
+    getAccessToken,
+    getRefreshToken,
+    setTokens,
+    clearAuth,
+    onUnauthorized,
+    refreshCoordinator,
+    tokenStorage,
+  ]);
+
+  // Offline queue - 사용자별로 저장, 로그아웃하거나 사용자가 바뀌면 이전 사용자의 요청은 버림
+  useEffect(() => {
+    offlineQueue.setScope(useAuthStore.getState().user?.id);
+
+    return useAuthStore.subscribe((state, prevState) => {
+      if (state.user?.id === prevState.user?.id) return;
+      if (prevState.user) offlineQueue.clear();
+      offlineQueue.setScope(state.user?.id);
+    });
+  }, []);
+
+  // Token storage - memory 모드에서 새로고침 후 access token이 없으면 쿠키로 재발급
+  useEffect(() => {
+    let cancelled = false;
+
+    setTokenStorage(tokenStorage).then(() => {
+      const { isAuthenticated, accessToken } = useAuthStore.getState();
+      if (!cancelled && tokenStorage === 'memory' && isAuthenticated && !accessToken) {
+        getApiClient().refreshAccessToken().catch(() => {
+          // 실패 시 refresh에서 로그아웃 처리
+        });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenStorage]);
+
+  // Proactive refresh - 만료 직전에 갱신 (숨겨진 탭에서는 보일 때까지 미룸)
+  useEffect(() => {
+    const scheduler = new TokenRefreshScheduler({
+      refresh: () => getApiClient().refreshAccessToken(),
+      leadTime: refreshLeadTime,
     });
-  }, [apiBaseUrl, getAccessToken, getRefreshToken, setTokens, clearAuth, onUnauthorized]);
+
+    scheduler.schedule(useAuthStore.getState().accessTokenExpiresAt);
+    const unsubscribe = useAuthStore.subscribe((state, prevState) => {
+      if (state.accessTokenExpiresAt !== prevState.accessTokenExpiresAt) {
+        scheduler.schedule(state.accessTokenExpiresAt);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      scheduler.stop();
+    };
+  }, [refreshLeadTime]);
 
   return <>{children}</>;
 }
@@ -0,0 +1,26 @@
+/**
+ * Can - Render children only when the current user has access
+ */
+
+import type { ReactNode } from 'react';
+import { useAccess } from '../hooks/usePermission';
+import type { AccessRule } from './permissions';
+
+export interface CanProps extends AccessRule {
+  children: ReactNode;
+  /** Rendered when access is denied */
+  fallback?: ReactNode;
+}
+
+/**
+ * @example
+ * <Can permission="ads:write" fallback={<p>권한이 없습니다</p>}>
+ *   <AdManagementPage />
+ * </Can>
+ */
+export function Can({ permission, role, children, fallback = null }: CanProps) {
+  const allowed = useAccess({ permission, role });
+  return <>{allowed ? children : fallback}</>;
+}
+
+export default Can;
@@ -0,0 +1,141 @@
+/**
+ * Session Manager - Idle timeout warning and re-login prompt
+ *
+ * AuthProvider 안에 배치합니다.
+ * - idleTimeout 동안 활동이 없으면 카운트다운 경고 후 useAuthStore.logout
+ * - refresh 실패(세션 만료) 시 화면을 유지한 채 재로그인을 요청하고, 로그인 후 실패한 요청을 재전송
+ *
+ * @example
+ * <AuthProvider apiBaseUrl={config.api.baseUrl}>
+ *   <SessionManager
+ *     idleTimeout={30 * 60 * 1000}
+ *     onReauthenticate={() => loginWithOAuth('kakao', { mode: 'popup' })}
+ *   />
+ *   <App />
+ * </AuthProvider>
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ConfirmModal } from '../ui/components/Modal';
+import { selectIsAuthenticated, useAuthStore } from '../store';
+import { IdleTimer, sessionReauth } from './session';
+
+export interface SessionManagerProps {
+  /** Idle time until automatic logout (ms, 미설정 시 비활성) */
+  idleTimeout?: number;
+  /** Show the countdown this many ms before logout (default: 60000) */
+  warningTime?: number;
+  /**
+   * Log in again without leaving the current screen (e.g., OAuth popup)
+   * 미설정 시 세션 만료는 기존처럼 로그아웃 처리됩니다.
+   */
+  onReauthenticate?: () => Promise<unknown>;
+}
+
+export function SessionManager({
+  idleTimeout,
+  warningTime = 60 * 1000,
+  onReauthenticate,
+}: SessionManagerProps) {
+  const isAuthenticated = useAuthStore(selectIsAuthenticated);
+  const idleTimerRef = useRef<IdleTimer | null>(null);
+  const reauthenticateRef = useRef(onReauthenticate);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [reauthRequired, setReauthRequired] = useState(false);
+  const [reauthenticating, setReauthenticating] = useState(false);
+  const canReauthenticate = Boolean(onReauthenticate);
+
+  useEffect(() => {
+    reauthenticateRef.current = onReauthenticate;
+  });
+
+  // Idle timeout
+  useEffect(() => {
+    if (!isAuthenticated || !idleTimeout) return;
+
+    const idleTimer = new IdleTimer({
+      timeout: idleTimeout,
+      warningTime,
+      onWarning: (remaining) => setCountdown(Math.ceil(remaining / 1000)),
+      onActive: () => setCountdown(null),
+      onIdle: () => {
+        setCountdown(null);
+        useAuthStore.getState().logout();
+      },
+    });
+    idleTimerRef.current = idleTimer;
+    idleTimer.start();
+
+    return () => {
+      idleTimer.stop();
+      idleTimerRef.current = null;
+      setCountdown(null);
+    };
+  }, [isAuthenticated, idleTimeout, warningTime]);
+
+  // Countdown
+  const isWarning = countdown !== null;
+  useEffect(() => {
+    if (!isWarning) return;
+
+    const interval = setInterval(() => {
+      setCountdown((seconds) => (seconds !== null && seconds > 1 ? seconds - 1 : seconds));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isWarning]);
+
+  // Session expiry - 재로그인 UI가 있을 때만 API 클라이언트가 기다림
+  useEffect(() => {
+    if (!canReauthenticate) return;
+    return sessionReauth.subscribe(setReauthRequired);
+  }, [canReauthenticate]);
+
+  const handleContinue = () => {
+    idleTimerRef.current?.reset();
+    setCountdown(null);
+  };
+
+  const handleIdleLogout = () => {
+    setCountdown(null);
+    useAuthStore.getState().logout();
+  };
+
+  const handleReauthenticate = async () => {
+    setReauthenticating(true);
+    try {
+      await reauthenticateRef.current?.();
+      sessionReauth.resolve(useAuthStore.getState().accessToken);
+    } catch (error) {
+      // 로그인 실패/취소 시 프롬프트 유지 (다시 시도 또는 로그아웃)
+      console.warn('Re-authentication failed:', error);
+    } finally {
+      setReauthenticating(false);
+    }
+  };
+
+  return (
+    <>
+      <ConfirmModal
+        isOpen={isAuthenticated && countdown !== null && !reauthRequired}
+        onClose={handleIdleLogout}
+        onConfirm={handleContinue}
+        title="곧 로그아웃됩니다"
+        message={`활동이 없어 ${countdown ?? 0}초 후 자동으로 로그아웃됩니다.`}
+        confirmText="계속 사용"
+        cancelText="로그아웃"
+      />
+      <ConfirmModal
+        isOpen={reauthRequired}
+        onClose={() => sessionReauth.resolve(null)}
+        onConfirm={handleReauthenticate}
+        title="세션이 만료되었습니다"
+        message="다시 로그인하면 보던 화면에서 이어서 진행합니다."
+        confirmText="다시 로그인"
+        cancelText="로그아웃"
+        loading={reauthenticating}
+      />
+    </>
+  );
+}
+
+export default SessionManager;
@@ -3,4 +3,19 @@
  */
 
 export { AuthProvider } from './AuthProvider';
-export type { AuthProviderProps } from './AuthProvider';
+export type { AuthProviderProps, AuthClientConfig } from './AuthProvider';
+export { SessionManager } from './SessionManager';
+export type { SessionManagerProps } from './SessionManager';
+export { IdleTimer, SessionReauth, sessionReauth } from './session';
+export type { IdleTimerConfig } from './session';
+export { Can } from './Can';
+export type { CanProps } from './Can';
+export {
+  checkAccess,
+  hasPermission,
+  extractAccessClaims,
+  mergeAccessClaims,
+  setRolePermissions,
+} from './permissions';
+export type { Permission, AccessClaims, AccessRule, AccessGuard } from './permissions';
+export * from './oauth';
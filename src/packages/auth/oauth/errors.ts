@@ -0,0 +1,25 @@
+/**
+ * OAuth Errors
+ */
+
+export type OAuthErrorCode =
+  | 'invalid_provider'
+  | 'state_mismatch'
+  | 'missing_token'
+  | 'popup_blocked'
+  | 'popup_closed'
+  | 'pkce_unsupported'
+  // provider가 내려준 error 파라미터 (e.g., 'access_denied')
+  | (string & {});
+
+export class OAuthError extends Error {
+  public code: OAuthErrorCode;
+  public provider?: string;
+
+  constructor(code: OAuthErrorCode, message?: string, provider?: string) {
+    super(message ?? code);
+    this.name = 'OAuthError';
+    this.code = code;
+    this.provider = provider;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * OAuth Login Flow - Authorization URL → callback → authApi.login
+ *
+ * 1. loginWithOAuth('kakao') - state/PKCE 생성 후 redirect 또는 popup으로 인가 요청
+ * 2. handleOAuthCallback() - callback 페이지에서 호출, state 검증 (CSRF 방지)
+ * 3. 받은 code(또는 id_token)를 authApi.login으로 교환하고 토큰을 스토어에 저장
+ */
+
+import { useAuthStore } from '../../store';
+import { sessionStore } from '../../utils/storage';
+import type { LoginResponse } from '../../api';
+import { OAuthError } from './errors';
+import { createPkcePair, generateRandomString, type PkcePair } from './pkce';
+import { getOAuthProvider, type OAuthProviderConfig } from './providers';
+
+export type OAuthLoginMode = 'redirect' | 'popup';
+
+export interface OAuthLoginOptions {
+  /** default: 'redirect' */
+  mode?: OAuthLoginMode;
+  /** App path to return to after login (redirect mode) */
+  returnTo?: string;
+}
+
+export interface OAuthLoginResult {
+  provider: string;
+  response: LoginResponse;
+  returnTo?: string;
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  redirectUri: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  nonce?: string;
+}
+
+interface PendingAuthorization {
+  provider: string;
+  redirectUri: string;
+  codeVerifier?: string;
+  nonce?: string;
+  returnTo?: string;
+  createdAt: number;
+}
+
+interface OAuthCallbackMessage {
+  type: typeof OAUTH_MESSAGE_TYPE;
+  url: string;
+}
+
+const PENDING_KEY_PREFIX = 'oauth:';
+const PENDING_TTL = 10 * 60 * 1000;
+const OAUTH_MESSAGE_TYPE = 'oauth:callback';
+const POPUP_NAME = 'oauth-popup';
+const POPUP_POLL_INTERVAL = 500;
+
+const defaultRedirectUri = () => `${window.location.origin}/oauth/callback`;
+
+/**
+ * Build provider authorization URL
+ */
+export function buildAuthorizationUrl(
+  provider: OAuthProviderConfig,
+  request: AuthorizationRequest
+): string {
+  const url = new URL(provider.authorizationEndpoint);
+  const params: Record<string, string | undefined> = {
+    client_id: provider.clientId,
+    redirect_uri: request.redirectUri,
+    response_type: provider.responseType ?? 'code',
+    state: request.state,
+    scope: provider.scope?.join(' ') || undefined,
+    response_mode: provider.responseMode === 'fragment' ? 'fragment' : undefined,
+    code_challenge: request.codeChallenge,
+    code_challenge_method: request.codeChallenge ? request.codeChallengeMethod : undefined,
+    nonce: request.nonce,
+    ...provider.params,
+  };
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, value);
+  });
+  return url.toString();
+}
+
+/**
+ * Start OAuth login
+ * redirect 모드는 페이지를 떠나므로 null을 반환하고, 결과는 handleOAuthCallback에서 받습니다.
+ */
+export async function loginWithOAuth(
+  providerName: string,
+  options: OAuthLoginOptions = {}
+): Promise<OAuthLoginResult | null> {
+  const provider = getOAuthProvider(providerName);
+  const mode = options.mode ?? 'redirect';
+
+  // 팝업 차단을 피하기 위해 비동기 작업 전에 먼저 연다
+  const popup = !provider.authorize && mode === 'popup' ? openPopup(providerName) : null;
+
+  const state = generateRandomString();
+  const redirectUri = provider.redirectUri ?? defaultRedirectUri();
+  let pkce: PkcePair | null = null;
+  if (provider.pkce !== false && (provider.responseType ?? 'code') === 'code') {
+    try {
+      pkce = await createPkcePair(provider.pkce === 'plain' ? 'plain' : 'S256');
+    } catch (error) {
+      popup?.close();
+      throw error;
+    }
+  }
+  const nonce = provider.responseType === 'id_token' ? generateRandomString(16) : undefined;
+
+  sessionStore.set<PendingAuthorization>(PENDING_KEY_PREFIX + state, {
+    provider: providerName,
+    redirectUri,
+    codeVerifier: pkce?.codeVerifier,
+    nonce,
+    returnTo: options.returnTo,
+    createdAt: Date.now(),
+  });
+
+  const authorizationUrl = buildAuthorizationUrl(provider, {
+    state,
+    redirectUri,
+    codeChallenge: pkce?.codeChallenge,
+    codeChallengeMethod: pkce?.codeChallengeMethod,
+    nonce,
+  });
+
+  if (provider.authorize) {
+    return completeOAuthLogin(await provider.authorize(authorizationUrl));
+  }
+
+  if (popup) {
+    popup.location.href = authorizationUrl;
+    return completeOAuthLogin(await waitForPopupCallback(popup, providerName));
+  }
+
+  window.location.assign(authorizationUrl);
+  return null;
+}
+
+/**
+ * Handle the OAuth callback page
+ * - popup 창이면 callback URL을 opener로 전달하고 창을 닫음 (null 반환)
+ * - OAuth 파라미터가 없으면 null 반환
+ */
+export async function handleOAuthCallback(
+  url: string = window.location.href
+): Promise<OAuthLoginResult | null> {
+  if (!readCallbackParams(url)) return null;
+
+  if (window.name === POPUP_NAME && window.opener && window.opener !== window) {
+    const message: OAuthCallbackMessage = { type: OAUTH_MESSAGE_TYPE, url };
+    (window.opener as Window).postMessage(message, window.location.origin);
+    window.close();
+    return null;
+  }
+
+  // 주소창에서 code/state 제거
+  if (url === window.location.href) {
+    window.history.replaceState(window.history.state, '', window.location.pathname);
+  }
+
+  return completeOAuthLogin(url);
+}
+
+/**
+ * Verify state and exchange the callback result through authApi.login
+ */
+export async function completeOAuthLogin(callbackUrl: string): Promise<OAuthLoginResult> {
+  const params = readCallbackParams(callbackUrl) ?? new URLSearchParams();
+  const state = params.get('state');
+  const pending = state ? takePendingAuthorization(state) : null;
+
+  if (!pending) {
+    throw new OAuthError('state_mismatch', 'OAuth state does not match any pending login');
+  }
+
+  const error = params.get('error');
+  if (error) {
+    throw new OAuthError(error, params.get('error_description') ?? error, pending.provider);
+  }
+
+  const provider = getOAuthProvider(pending.provider);
+  const token = params.get(provider.responseType ?? 'code');
+  if (!token) {
+    throw new OAuthError('missing_token', 'OAuth callback has no authorization result', pending.provider);
+  }
+
+  const response = await useAuthStore.getState().login({
+    token,
+    provider: pending.provider,
+    codeVerifier: pending.codeVerifier,
+    redirectUri: pending.redirectUri,
+    nonce: pending.nonce,
+  });
+
+  return { provider: pending.provider, response, returnTo: pending.returnTo };
+}
+
+// query + fragment 파라미터 (OAuth 파라미터가 없으면 null)
+function readCallbackParams(url: string): URLSearchParams | null {
+  const parsed = new URL(url, window.location.origin);
+  const params = new URLSearchParams(parsed.search);
+  new URLSearchParams(parsed.hash.slice(1)).forEach((value, key) => params.set(key, value));
+
+  return params.has('state') || params.has('error') ? params : null;
+}
+
+// 일회용: 조회와 동시에 삭제
+function takePendingAuthorization(state: string): PendingAuthorization | null {
+  const key = PENDING_KEY_PREFIX + state;
+  const pending = sessionStore.get<PendingAuthorization>(key);
+  sessionStore.remove(key);
+
+  if (!pending || Date.now() - pending.createdAt > PENDING_TTL) return null;
+  return pending;
+}
+
+function openPopup(provider: string): Window {
+  const width = 480;
+  const height = 640;
+  const left = window.screenX + (window.outerWidth - width) / 2;
+  const top = window.screenY + (window.outerHeight - height) / 2;
+
+  const popup = window.open(
+    'about:blank',
+    POPUP_NAME,
+    `width=${width},height=${height},left=${left},top=${top}`
+  );
+  if (!popup) {
+    throw new OAuthError('popup_blocked', 'OAuth popup was blocked', provider);
+  }
+  return popup;
+}
+
+function waitForPopupCallback(popup: Window, provider: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearInterval(timer);
+    };
+
+    const onMessage = (event: MessageEvent<OAuthCallbackMessage>) => {
+      if (event.origin !== window.location.origin || event.source !== popup) return;
+      if (event.data?.type !== OAUTH_MESSAGE_TYPE) return;
+      cleanup();
+      resolve(event.data.url);
+    };
+
+    const timer = setInterval(() => {
+      if (!popup.closed) return;
+      cleanup();
+      reject(new OAuthError('popup_closed', 'OAuth popup was closed', provider));
+    }, POPUP_POLL_INTERVAL);
+
+    window.addEventListener('message', onMessage);
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * OAuth - Social login (PKCE + state) public exports
+ */
+
+export { OAuthError } from './errors';
+export type { OAuthErrorCode } from './errors';
+export { createPkcePair, generateRandomString } from './pkce';
+export type { PkcePair, CodeChallengeMethod } from './pkce';
+export {
+  registerOAuthProvider,
+  getOAuthProvider,
+  hasOAuthProvider,
+  removeOAuthProvider,
+  mockOAuthProvider,
+  OAUTH_PROVIDER_PRESETS,
+} from './providers';
+export type { OAuthProviderConfig, OAuthProviderOptions, MockOAuthProviderOptions } from './providers';
+export {
+  buildAuthorizationUrl,
+  loginWithOAuth,
+  handleOAuthCallback,
+  completeOAuthLogin,
+} from './flow';
+export type { OAuthLoginMode, OAuthLoginOptions, OAuthLoginResult, AuthorizationRequest } from './flow';
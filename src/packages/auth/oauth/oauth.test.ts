@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { authApi } from '../../api/services/auth';
+import { useAuthStore } from '../../store';
+import { OAuthError } from './errors';
+import { createPkcePair } from './pkce';
+import { mockOAuthProvider, registerOAuthProvider, removeOAuthProvider } from './providers';
+import { buildAuthorizationUrl, completeOAuthLogin, loginWithOAuth } from './flow';
+
+const loginResponse = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  tokenType: 'Bearer',
+  expiresIn: 3600,
+};
+
+describe('OAuth', () => {
+  beforeEach(() => {
+    useAuthStore.getState().clearAuth();
+    vi.spyOn(authApi, 'login').mockResolvedValue(loginResponse);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    removeOAuthProvider('mock');
+    sessionStorage.clear();
+  });
+
+  it('S256 code_challenge 생성', async () => {
+    const pkce = await createPkcePair();
+
+    expect(pkce.codeChallengeMethod).toBe('S256');
+    expect(pkce.codeChallenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(pkce.codeChallenge).not.toBe(pkce.codeVerifier);
+  });
+
+  it('crypto.subtle이 없으면 plain으로 대체하지 않고 에러', async () => {
+    vi.spyOn(crypto, 'subtle', 'get').mockReturnValue(undefined as unknown as SubtleCrypto);
+
+    await expect(createPkcePair()).rejects.toMatchObject({ code: 'pkce_unsupported' });
+    await expect(createPkcePair('plain')).resolves.toMatchObject({ codeChallengeMethod: 'plain' });
+  });
+
+  it('preset 기반 인가 URL 생성', () => {
+    const provider = registerOAuthProvider('google', { clientId: 'google-client' });
+    const url = new URL(
+      buildAuthorizationUrl(provider, {
+        state: 'state-1',
+        redirectUri: 'http://localhost/oauth/callback',
+        codeChallenge: 'challenge',
+        codeChallengeMethod: 'S256',
+      })
+    );
+
+    expect(url.origin + url.pathname).toBe('https://accounts.google.com/o/oauth2/v2/auth');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'google-client',
+      redirect_uri: 'http://localhost/oauth/callback',
+      response_type: 'code',
+      state: 'state-1',
+      scope: 'openid email profile',
+      code_challenge: 'challenge',
+      code_challenge_method: 'S256',
+    });
+    removeOAuthProvider('google');
+  });
+
+  it('등록되지 않은 provider는 invalid_provider 에러', async () => {
+    expect(() => registerOAuthProvider('unknown', { clientId: 'x' })).toThrow(OAuthError);
+    await expect(loginWithOAuth('unknown')).rejects.toMatchObject({ code: 'invalid_provider' });
+  });
+
+  it('mock provider로 code 교환 후 로그인', async () => {
+    registerOAuthProvider('mock', mockOAuthProvider({ code: 'test-code' }));
+
+    const result = await loginWithOAuth('mock', { returnTo: '/ads' });
+
+    expect(result).toEqual({ provider: 'mock', response: loginResponse, returnTo: '/ads' });
+    expect(authApi.login).toHaveBeenCalledWith({
+      token: 'test-code',
+      provider: 'mock',
+      codeVerifier: expect.any(String),
+      redirectUri: 'http://localhost:3000/oauth/callback',
+      nonce: undefined,
+    });
+    expect(useAuthStore.getState().isAuthenticated).toBe(true);
+  });
+
+  it('state 불일치 시 로그인 차단 (CSRF)', async () => {
+    registerOAuthProvider('mock', mockOAuthProvider({ state: 'forged-state' }));
+
+    await expect(loginWithOAuth('mock')).rejects.toMatchObject({ code: 'state_mismatch' });
+    expect(authApi.login).not.toHaveBeenCalled();
+  });
+
+  it('provider 에러 전달 및 state 재사용 불가', async () => {
+    const provider = mockOAuthProvider({ error: 'access_denied' });
+    let callbackUrl = '';
+    registerOAuthProvider('mock', {
+      ...provider,
+      authorize: async (url) => (callbackUrl = await provider.authorize!(url)),
+    });
+
+    await expect(loginWithOAuth('mock')).rejects.toMatchObject({
+      code: 'access_denied',
+      provider: 'mock',
+    });
+    await expect(completeOAuthLogin(callbackUrl)).rejects.toMatchObject({ code: 'state_mismatch' });
+  });
+});
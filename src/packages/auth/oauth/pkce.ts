@@ -0,0 +1,51 @@
+/**
+ * PKCE (RFC 7636) helpers
+ */
+
+import { OAuthError } from './errors';
+
+export type CodeChallengeMethod = 'S256' | 'plain';
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+  codeChallengeMethod: CodeChallengeMethod;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Cryptographically random URL-safe string (state, nonce, code_verifier)
+ */
+export function generateRandomString(byteLength: number = 32): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * Create code_verifier / code_challenge pair
+ * crypto.subtle이 없는 환경(비보안 컨텍스트)에서는 S256을 만들 수 없으므로 에러를 던집니다.
+ * 'plain'은 인가 요청이 노출되면 PKCE가 무력화되므로 provider가 명시적으로 선택한 경우에만 사용합니다.
+ */
+export async function createPkcePair(method: CodeChallengeMethod = 'S256'): Promise<PkcePair> {
+  const codeVerifier = generateRandomString(32);
+
+  if (method === 'plain') {
+    return { codeVerifier, codeChallenge: codeVerifier, codeChallengeMethod: 'plain' };
+  }
+
+  if (!globalThis.crypto?.subtle) {
+    throw new OAuthError('pkce_unsupported', 'PKCE S256 requires crypto.subtle (secure context)');
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return {
+    codeVerifier,
+    codeChallenge: base64UrlEncode(new Uint8Array(digest)),
+    codeChallengeMethod: 'S256',
+  };
+}
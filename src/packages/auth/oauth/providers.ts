@@ -0,0 +1,127 @@
+/**
+ * OAuth Provider Registry
+ *
+ * kakao / google / apple은 기본 설정(preset)이 내장되어 있어 clientId만 등록하면 되고,
+ * 그 외 provider는 authorizationEndpoint를 포함한 설정으로 추가할 수 있습니다.
+ *
+ * @example
+ * registerOAuthProvider('kakao', { clientId: import.meta.env.VITE_KAKAO_CLIENT_ID });
+ * registerOAuthProvider('naver', {
+ *   clientId: '...',
+ *   authorizationEndpoint: 'https://nid.naver.com/oauth2.0/authorize',
+ * });
+ */
+
+import { OAuthError } from './errors';
+
+export interface OAuthProviderConfig {
+  name: string;
+  clientId: string;
+  authorizationEndpoint: string;
+  /** Callback URL (default: `${origin}/oauth/callback`) */
+  redirectUri?: string;
+  scope?: string[];
+  /** Callback value exchanged through authApi.login (default: 'code') */
+  responseType?: 'code' | 'id_token';
+  /** Where the provider puts callback params (default: 'query') */
+  responseMode?: 'query' | 'fragment';
+  /**
+   * Send PKCE code_challenge (default: true = S256)
+   * 'plain'은 S256을 지원하지 않는 provider에만 명시적으로 사용
+   */
+  pkce?: boolean | 'plain';
+  /** Extra authorization params (e.g., prompt, login_hint) */
+  params?: Record<string, string>;
+  /**
+   * Custom authorize step - receives the authorization URL and resolves with the callback URL
+   * (설정 시 redirect/popup 대신 사용, mock provider 등)
+   */
+  authorize?: (authorizationUrl: string) => Promise<string>;
+}
+
+export type OAuthProviderOptions = Partial<Omit<OAuthProviderConfig, 'name'>> & {
+  clientId: string;
+};
+
+export const OAUTH_PROVIDER_PRESETS: Record<string, Omit<OAuthProviderConfig, 'name' | 'clientId'>> = {
+  kakao: {
+    authorizationEndpoint: 'https://kauth.kakao.com/oauth/authorize',
+  },
+  google: {
+    authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+    scope: ['openid', 'email', 'profile'],
+  },
+  // Apple은 scope(name, email) 요청 시 form_post만 허용하므로 기본값은 scope 없이 query 방식
+  // PKCE는 지원하지 않아 code 교환은 서버의 client_secret으로 처리합니다.
+  apple: {
+    authorizationEndpoint: 'https://appleid.apple.com/auth/authorize',
+    pkce: false,
+  },
+};
+
+const providers = new Map<string, OAuthProviderConfig>();
+
+/**
+ * Register (or replace) an OAuth provider
+ */
+export function registerOAuthProvider(name: string, options: OAuthProviderOptions): OAuthProviderConfig {
+  const config = { ...OAUTH_PROVIDER_PRESETS[name], ...options, name };
+  if (!config.authorizationEndpoint) {
+    throw new OAuthError('invalid_provider', `OAuth provider "${name}" requires authorizationEndpoint`, name);
+  }
+
+  providers.set(name, config as OAuthProviderConfig);
+  return config as OAuthProviderConfig;
+}
+
+export function getOAuthProvider(name: string): OAuthProviderConfig {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new OAuthError('invalid_provider', `OAuth provider "${name}" is not registered`, name);
+  }
+  return provider;
+}
+
+export function hasOAuthProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+export function removeOAuthProvider(name: string): boolean {
+  return providers.delete(name);
+}
+
+export interface MockOAuthProviderOptions {
+  /** Authorization code returned to the callback (default: 'mock-code') */
+  code?: string;
+  /** Provider error returned instead of a code (e.g., 'access_denied') */
+  error?: string;
+  /** Override returned state (CSRF 테스트용) */
+  state?: string;
+}
+
+/**
+ * Local mock provider - resolves the callback without leaving the page (for tests)
+ *
+ * @example
+ * registerOAuthProvider('mock', mockOAuthProvider({ code: 'test-code' }));
+ * await loginWithOAuth('mock');
+ */
+export function mockOAuthProvider(options: MockOAuthProviderOptions = {}): OAuthProviderOptions {
+  return {
+    clientId: 'mock-client',
+    authorizationEndpoint: 'http://localhost/mock-oauth/authorize',
+    authorize: async (authorizationUrl) => {
+      const request = new URL(authorizationUrl);
+      const callback = new URL(request.searchParams.get('redirect_uri') ?? window.location.origin);
+      const state = options.state ?? request.searchParams.get('state') ?? '';
+
+      if (options.error) {
+        callback.searchParams.set('error', options.error);
+      } else {
+        callback.searchParams.set('code', options.code ?? 'mock-code');
+      }
+      callback.searchParams.set('state', state);
+      return callback.toString();
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  checkAccess,
+  extractAccessClaims,
+  hasPermission,
+  mergeAccessClaims,
+  setRolePermissions,
+} from './permissions';
+
+describe('extractAccessClaims', () => {
+  it('roles/permissions/authorities/scope 필드 추출', () => {
+    const claims = extractAccessClaims({
+      role: 'USER',
+      authorities: ['ROLE_MANAGER', 'ads:read'],
+      permissions: ['ads:write'],
+      scope: 'profile email',
+    });
+
+    expect(claims.roles).toEqual(['USER', 'MANAGER']);
+    expect(claims.permissions).toEqual(['ads:write', 'profile', 'email', 'ads:read']);
+  });
+
+  it('값이 없으면 빈 배열', () => {
+    expect(extractAccessClaims(null)).toEqual({ roles: [], permissions: [] });
+  });
+
+  it('중복 제거 후 병합', () => {
+    const merged = mergeAccessClaims(
+      { roles: ['USER'], permissions: ['ads:read'] },
+      { roles: ['USER', 'ADMIN'], permissions: ['ads:read'] }
+    );
+    expect(merged).toEqual({ roles: ['USER', 'ADMIN'], permissions: ['ads:read'] });
+  });
+});
+
+describe('hasPermission', () => {
+  afterEach(() => {
+    setRolePermissions({ ADMIN: ['*'] });
+  });
+
+  it('와일드카드 권한 매칭', () => {
+    expect(hasPermission({ roles: [], permissions: ['ads:*'] }, 'ads:write')).toBe(true);
+    expect(hasPermission({ roles: [], permissions: ['ads:*'] }, 'users:write')).toBe(false);
+    expect(hasPermission({ roles: [], permissions: ['*'] }, 'users:write')).toBe(true);
+  });
+
+  it('역할에 매핑된 권한 적용', () => {
+    expect(hasPermission({ roles: ['ADMIN'], permissions: [] }, 'ads:write')).toBe(true);
+
+    setRolePermissions({ MARKETER: ['ads:read'] });
+    expect(hasPermission({ roles: ['MARKETER'], permissions: [] }, 'ads:read')).toBe(true);
+    expect(hasPermission({ roles: ['ADMIN'], permissions: [] }, 'ads:write')).toBe(false);
+  });
+});
+
+describe('checkAccess', () => {
+  const claims = { roles: ['USER'], permissions: ['ads:read'] };
+
+  it('규칙이 없으면 허용', () => {
+    expect(checkAccess(claims)).toBe(true);
+  });
+
+  it('역할은 하나만, 권한은 모두 만족해야 함', () => {
+    expect(checkAccess(claims, { role: ['ADMIN', 'USER'] })).toBe(true);
+    expect(checkAccess(claims, { role: 'ADMIN' })).toBe(false);
+    expect(checkAccess(claims, { permission: ['ads:read', 'ads:write'] })).toBe(false);
+    expect(checkAccess(claims, { role: 'USER', permission: 'ads:read' })).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Permissions - Role / permission based access control
+ *
+ * 권한 문자열은 'resource:action' 형식 (e.g., 'ads:write')
+ * 'ads:*'는 ads의 모든 action, '*'는 모든 권한을 의미합니다.
+ */
+
+export type Permission = string;
+
+export interface AccessClaims {
+  roles: string[];
+  permissions: Permission[];
+}
+
+export interface AccessRule {
+  /** Required permission(s) - all must be granted */
+  permission?: Permission | Permission[];
+  /** Allowed role(s) - any one is enough */
+  role?: string | string[];
+}
+
+/** Access rule declared on navigation items / routes */
+export interface AccessGuard extends AccessRule {
+  /** Behavior when access is denied (default: 'hide') */
+  whenDenied?: 'hide' | 'disable';
+}
+
+// 역할별 기본 권한 (서버가 role만 내려주는 경우)
+let rolePermissions: Record<string, Permission[]> = {
+  ADMIN: ['*'],
+};
+
+/**
+ * Configure permissions granted by each role
+ */
+export function setRolePermissions(map: Record<string, Permission[]>): void {
+  rolePermissions = map;
+}
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const toStringArray = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/[\s,]+/).filter(Boolean);
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+};
+
+// Spring Security authorities: 'ROLE_ADMIN' → role 'ADMIN', 그 외는 권한
+const normalizeRole = (role: string) => role.replace(/^ROLE_/, '');
+
+/**
+ * Extract roles / permissions from JWT claims or a user object
+ * 지원 필드: role, roles, authorities, permissions, scope
+ */
+export function extractAccessClaims(source: Record<string, unknown> | null | undefined): AccessClaims {
+  if (!source) return { roles: [], permissions: [] };
+
+  const authorities = toStringArray(source.authorities);
+  const roles = [
+    ...toStringArray(source.role),
+    ...toStringArray(source.roles),
+    ...authorities.filter((authority) => authority.startsWith('ROLE_')),
+  ].map(normalizeRole);
+  const permissions = [
+    ...toStringArray(source.permissions),
+    ...toStringArray(source.scope),
+    ...authorities.filter((authority) => !authority.startsWith('ROLE_')),
+  ];
+
+  return { roles: [...new Set(roles)], permissions: [...new Set(permissions)] };
+}
+
+export function mergeAccessClaims(...claims: AccessClaims[]): AccessClaims {
+  return {
+    roles: [...new Set(claims.flatMap((claim) => claim.roles))],
+    permissions: [...new Set(claims.flatMap((claim) => claim.permissions))],
+  };
+}
+
+function matchesPermission(granted: Permission, required: Permission): boolean {
+  if (granted === '*' || granted === required) return true;
+  return granted.endsWith(':*') && required.startsWith(granted.slice(0, -1));
+}
+
+export function hasPermission(claims: AccessClaims, required: Permission): boolean {
+  const granted = [
+    ...claims.permissions,
+    ...claims.roles.flatMap((role) => rolePermissions[role] ?? []),
+  ];
+  return granted.some((permission) => matchesPermission(permission, required));
+}
+
+/**
+ * Check access rule (no rule = allowed)
+ */
+export function checkAccess(claims: AccessClaims, rule?: AccessRule): boolean {
+  if (!rule) return true;
+
+  const roles = toArray(rule.role);
+  if (roles.length > 0 && !roles.some((role) => claims.roles.includes(role))) {
+    return false;
+  }
+
+  return toArray(rule.permission).every((permission) => hasPermission(claims, permission));
+}
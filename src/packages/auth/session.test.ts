@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IdleTimer, SessionReauth } from './session';
+
+describe('IdleTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('활동이 없으면 경고 후 onIdle 호출', () => {
+    const onWarning = vi.fn();
+    const onIdle = vi.fn();
+    const timer = new IdleTimer({ timeout: 10_000, warningTime: 3_000, onWarning, onIdle, channelName: false });
+    timer.start();
+
+    vi.advanceTimersByTime(7_000);
+    expect(onWarning).toHaveBeenCalledWith(3_000);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(3_000);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('활동이 있으면 타이머 연장, 경고 중에는 reset으로만 연장', () => {
+    const onWarning = vi.fn();
+    const onIdle = vi.fn();
+    const timer = new IdleTimer({ timeout: 10_000, warningTime: 3_000, onWarning, onIdle, channelName: false });
+    timer.start();
+
+    vi.advanceTimersByTime(5_000);
+    window.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(5_000);
+    expect(onWarning).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(2_000);
+    expect(timer.isWarning).toBe(true);
+    window.dispatchEvent(new Event('keydown'));
+    expect(timer.isWarning).toBe(true);
+
+    timer.reset();
+    vi.advanceTimersByTime(9_000);
+    expect(onIdle).not.toHaveBeenCalled();
+    timer.stop();
+  });
+});
+
+describe('SessionReauth', () => {
+  it('재로그인 UI가 없으면 바로 null', async () => {
+    await expect(new SessionReauth().request()).resolves.toBeNull();
+  });
+
+  it('동시 요청은 하나의 재로그인 결과를 공유', async () => {
+    const reauth = new SessionReauth();
+    const listener = vi.fn();
+    reauth.subscribe(listener);
+
+    const first = reauth.request();
+    const second = reauth.request();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(true);
+
+    reauth.resolve('new-token');
+    await expect(Promise.all([first, second])).resolves.toEqual(['new-token', 'new-token']);
+    expect(listener).toHaveBeenLastCalledWith(false);
+  });
+
+  it('재로그인 UI가 사라지면 대기 중인 요청은 null', async () => {
+    const reauth = new SessionReauth();
+    const unsubscribe = reauth.subscribe(vi.fn());
+
+    const pending = reauth.request();
+    unsubscribe();
+
+    await expect(pending).resolves.toBeNull();
+  });
+});
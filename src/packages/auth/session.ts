@@ -0,0 +1,171 @@
+/**
+ * Session - Idle timeout tracking and re-authentication on session expiry
+ */
+
+import { createTabChannel, type TabChannel } from '../api';
+
+export interface IdleTimerConfig {
+  /** Idle time until logout (ms) */
+  timeout: number;
+  /** Warn this many ms before the timeout (default: 60000) */
+  warningTime?: number;
+  /** Called when the warning period starts (remaining ms) */
+  onWarning?: (remaining: number) => void;
+  /** Called when the user was idle for the whole timeout */
+  onIdle: () => void;
+  /** Called when activity in another tab cancels the warning */
+  onActive?: () => void;
+  /** DOM events counted as activity */
+  events?: string[];
+  /** Share activity across tabs (false to disable, default: 'session-activity') */
+  channelName?: string | false;
+}
+
+const DEFAULT_ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+const DEFAULT_WARNING_TIME = 60 * 1000;
+// pointermove 등 잦은 이벤트는 1초에 한 번만 처리
+const ACTIVITY_THROTTLE = 1000;
+
+/**
+ * Idle Timer - 사용자 활동이 없으면 경고 후 onIdle 호출
+ * 경고 중에는 이 탭의 활동으로 해제되지 않으며 reset()으로 명시적으로 연장합니다.
+ * 다른 탭에서의 활동은 경고를 해제합니다.
+ */
+export class IdleTimer {
+  private config: IdleTimerConfig;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private channel: TabChannel<'activity'> | null = null;
+  private unsubscribeChannel: (() => void) | null = null;
+  private lastActivity = 0;
+  private warning = false;
+
+  constructor(config: IdleTimerConfig) {
+    this.config = config;
+  }
+
+  get isWarning(): boolean {
+    return this.warning;
+  }
+
+  start(): void {
+    const { events = DEFAULT_ACTIVITY_EVENTS, channelName = 'session-activity' } = this.config;
+
+    events.forEach((event) => window.addEventListener(event, this.handleActivity, { passive: true }));
+    if (channelName) {
+      this.channel = createTabChannel<'activity'>(channelName);
+      this.unsubscribeChannel = this.channel.subscribe(() => {
+        const wasWarning = this.warning;
+        this.restart();
+        if (wasWarning) this.config.onActive?.();
+      });
+    }
+    this.restart();
+  }
+
+  stop(): void {
+    const { events = DEFAULT_ACTIVITY_EVENTS } = this.config;
+
+    events.forEach((event) => window.removeEventListener(event, this.handleActivity));
+    this.unsubscribeChannel?.();
+    this.channel?.close();
+    this.channel = null;
+    this.unsubscribeChannel = null;
+    this.clearTimer();
+    this.warning = false;
+  }
+
+  /** Extend the session (e.g., "계속 사용" in the warning dialog) */
+  reset(): void {
+    this.restart();
+    this.channel?.post('activity');
+  }
+
+  private handleActivity = () => {
+    if (this.warning || Date.now() - this.lastActivity < ACTIVITY_THROTTLE) return;
+    this.reset();
+  };
+
+  private restart(): void {
+    const { timeout, warningTime = DEFAULT_WARNING_TIME } = this.config;
+    const warningDuration = Math.min(warningTime, timeout);
+
+    this.clearTimer();
+    this.warning = false;
+    this.lastActivity = Date.now();
+
+    this.timer = setTimeout(() => {
+      this.warning = true;
+      this.config.onWarning?.(warningDuration);
+      this.timer = setTimeout(() => {
+        this.stop();
+        this.config.onIdle();
+      }, warningDuration);
+    }, timeout - warningDuration);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Session Reauth - Wait for the user to log in again when refresh fails
+ *
+ * API 클라이언트의 reauthenticate가 request()를 호출하고, 재로그인 UI(SessionManager)가
+ * 로그인 후 resolve(새 access token)를 호출하면 실패했던 요청이 재전송됩니다.
+ * 재로그인 UI가 없으면 바로 null을 반환합니다 (기존처럼 로그아웃).
+ */
+export class SessionReauth {
+  private pending: {
+    promise: Promise<string | null>;
+    resolve: (accessToken: string | null) => void;
+  } | null = null;
+  private listeners = new Set<(pending: boolean) => void>();
+
+  get isPending(): boolean {
+    return this.pending !== null;
+  }
+
+  request(): Promise<string | null> {
+    if (this.listeners.size === 0) return Promise.resolve(null);
+
+    if (!this.pending) {
+      let resolve!: (accessToken: string | null) => void;
+      const promise = new Promise<string | null>((res) => {
+        resolve = res;
+      });
+      this.pending = { promise, resolve };
+      this.notify();
+    }
+    return this.pending.promise;
+  }
+
+  /** Finish re-authentication (null = 포기하고 로그아웃) */
+  resolve(accessToken: string | null): void {
+    if (!this.pending) return;
+
+    const { resolve } = this.pending;
+    this.pending = null;
+    resolve(accessToken);
+    this.notify();
+  }
+
+  subscribe(listener: (pending: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      // 재로그인 UI가 사라지면 대기 중인 요청은 로그아웃으로 처리
+      if (this.listeners.size === 0) this.resolve(null);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.isPending));
+  }
+}
+
+// AuthProvider의 API 클라이언트와 SessionManager가 공유
+export const sessionReauth = new SessionReauth();
@@ -4,6 +4,7 @@
 
 // Authentication
 export { useAuth } from './useAuth';
+export { usePermission, useRole, useAccess, useAccessCheck } from './usePermission';
 
 // State management
 export { useLocalStorage } from './useLocalStorage';
@@ -0,0 +1,44 @@
+/**
+ * usePermission Hook - Role / permission checks against the auth store
+ */
+
+import { useCallback } from 'react';
+import { useAuthStore, selectPermissions, selectRoles } from '../store';
+import { checkAccess, type AccessRule, type Permission } from '../auth/permissions';
+
+/**
+ * Access check function bound to the current user (for filtering lists)
+ */
+export function useAccessCheck(): (rule?: AccessRule) => boolean {
+  const roles = useAuthStore(selectRoles);
+  const permissions = useAuthStore(selectPermissions);
+
+  return useCallback(
+    (rule?: AccessRule) => checkAccess({ roles, permissions }, rule),
+    [roles, permissions]
+  );
+}
+
+/**
+ * Whether the current user matches the access rule
+ */
+export function useAccess(rule?: AccessRule): boolean {
+  return useAccessCheck()(rule);
+}
+
+/**
+ * Whether the current user has every given permission
+ * @example const canWrite = usePermission('ads:write');
+ */
+export function usePermission(permission: Permission | Permission[]): boolean {
+  return useAccess({ permission });
+}
+
+/**
+ * Whether the current user has any of the given roles
+ */
+export function useRole(role: string | string[]): boolean {
+  return useAccess({ role });
+}
+
+export default usePermission;
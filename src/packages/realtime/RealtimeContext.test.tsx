@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { RealtimeProvider } from './RealtimeContext';
+import { WebSocketClient, type ConnectionState } from './WebSocketClient';
+import { useAuthStore } from '../store';
+
+describe('RealtimeProvider (syncAuth)', () => {
+  let state: ConnectionState;
+
+  beforeEach(() => {
+    state = 'connected';
+    vi.spyOn(WebSocketClient.prototype, 'getState').mockImplementation(() => state);
+    vi.spyOn(WebSocketClient.prototype, 'connect').mockResolvedValue();
+    vi.spyOn(WebSocketClient.prototype, 'reauthenticate').mockResolvedValue();
+    vi.spyOn(WebSocketClient.prototype, 'disconnect').mockImplementation(() => {});
+    vi.spyOn(WebSocketClient.prototype, 'setAccessToken');
+    vi.spyOn(WebSocketClient.prototype, 'clearPendingMessages');
+    vi.spyOn(WebSocketClient.prototype, 'setOutboxScope');
+    useAuthStore.setState({ accessToken: 'token-1', isAuthenticated: true, user: { id: 'user-a' } });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderProvider = (autoConnect = false) =>
+    render(
+      <RealtimeProvider config={{ url: 'ws://localhost:8080/ws' }} autoConnect={autoConnect}>
+        <div />
+      </RealtimeProvider>
+    );
+
+  it('토큰 갱신은 연결을 끊지 않고 다음 CONNECT용 토큰만 교체', () => {
+    renderProvider();
+
+    act(() => useAuthStore.setState({ accessToken: 'token-2' }));
+
+    expect(WebSocketClient.prototype.setAccessToken).toHaveBeenCalledWith('token-2');
+    expect(WebSocketClient.prototype.reauthenticate).not.toHaveBeenCalled();
+  });
+
+  it('토큰 없이 유지되던 연결은 새 토큰으로 재인증', () => {
+    useAuthStore.setState({ accessToken: null });
+    renderProvider();
+
+    act(() => useAuthStore.setState({ accessToken: 'token-2' }));
+
+    expect(WebSocketClient.prototype.reauthenticate).toHaveBeenCalledWith('token-2');
+  });
+
+  it('로그아웃하면 연결 종료, 재로그인하면 autoConnect로 다시 연결', () => {
+    renderProvider(true);
+    vi.mocked(WebSocketClient.prototype.connect).mockClear();
+
+    act(() => useAuthStore.setState({ accessToken: null, isAuthenticated: false }));
+    expect(WebSocketClient.prototype.clearPendingMessages).toHaveBeenCalled();
+    expect(WebSocketClient.prototype.disconnect).toHaveBeenCalled();
+
+    state = 'disconnected';
+    act(() => useAuthStore.setState({ accessToken: 'token-2', isAuthenticated: true }));
+    expect(WebSocketClient.prototype.connect).toHaveBeenCalledTimes(1);
+    expect(WebSocketClient.prototype.setAccessToken).toHaveBeenCalledWith('token-2');
+  });
+
+  it('다른 사용자로 바뀌면 이전 사용자의 outbox를 비우고 scope 전환', () => {
+    renderProvider();
+
+    act(() => useAuthStore.setState({ accessToken: 'token-b', user: { id: 'user-b' } }));
+
+    expect(WebSocketClient.prototype.clearPendingMessages).toHaveBeenCalledTimes(1);
+    expect(WebSocketClient.prototype.setOutboxScope).toHaveBeenCalledWith('user-b');
+    expect(vi.mocked(WebSocketClient.prototype.clearPendingMessages).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(WebSocketClient.prototype.setOutboxScope).mock.invocationCallOrder[0]
+    );
+  });
+});
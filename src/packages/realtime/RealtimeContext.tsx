@@ -3,7 +3,14 @@
  */
 
 import { createContext, useContext, useEffect, useState, useCallback, type ReactNode } from 'react';
-import { WebSocketClient, type WebSocketConfig, type ConnectionState } from './WebSocketClient';
+import {
+  WebSocketClient,
+  type WebSocketConfig,
+  type ConnectionState,
+  type ConnectionMetrics,
+} from './WebSocketClient';
+import { getApiClient } from '../api';
+import { useAuthStore } from '../store';
 
 interface RealtimeContextValue {
   /** WebSocket client instance */
@@ -14,8 +21,12 @@ interface RealtimeContextValue {
   connect: () => Promise<void>;
   /** Disconnect from WebSocket server */
   disconnect: () => void;
-  /** Check if connected */
+  /** Reconnect immediately - 'failed' 상태의 "다시 연결" 버튼 등 */
+  reconnectNow: () => Promise<void>;
+  /** Check if connected ('stale' 포함 - heart-beat 지연 중에도 구독 유지) */
   isConnected: boolean;
+  /** Round-trip latency / negotiated heart-beat */
+  metrics: ConnectionMetrics;
 }
 
 const RealtimeContext = createContext<RealtimeContextValue | null>(null);
@@ -28,6 +39,15 @@ export interface RealtimeProviderProps {
   autoConnect?: boolean;
   /** Get access token dynamically */
   getAccessToken?: () => string | null;
+  /**
+   * Follow useAuthStore tokens (default: true)
+   * - 토큰 갱신은 연결을 유지한 채 다음 CONNECT부터 사용, 재로그인은 새 토큰으로 재인증
+   * - 로그아웃하면 연결 종료, 보내지 못한 메시지(messageQueue)는 버림
+   * - messageQueue.persist는 사용자 id로 scope를 나눠 저장
+   * - 인증 만료 ERROR 프레임은 API 클라이언트로 refresh 후 재연결
+   * 최초 렌더 시의 값만 사용합니다.
+   */
+  syncAuth?: boolean;
 }
 
 export function RealtimeProvider({
@@ -35,9 +55,23 @@ export function RealtimeProvider({
   config,
   autoConnect = false,
   getAccessToken,
+  syncAuth = true,
 }: RealtimeProviderProps) {
-  const [client] = useState(() => new WebSocketClient(config));
+  const [client] = useState(
+    () =>
+      new WebSocketClient(
+        syncAuth
+          ? {
+              accessToken: useAuthStore.getState().accessToken ?? undefined,
+              refreshAccessToken: () => getApiClient().refreshAccessToken(),
+              ...config,
+              messageQueue: { scope: useAuthStore.getState().user?.id, ...config.messageQueue },
+            }
+          : config
+      )
+  );
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [metrics, setMetrics] = useState<ConnectionMetrics>(() => client.getMetrics());
 
   // Listen to state changes
   useEffect(() => {
@@ -45,6 +79,9 @@ export function RealtimeProvider({
     return unsubscribe;
   }, [client]);
 
+  // Listen to latency / heart-beat metrics
+  useEffect(() => client.onMetricsChange(setMetrics), [client]);
+
   // Update token when it changes
   useEffect(() => {
     if (getAccessToken) {
@@ -55,6 +92,40 @@ export function RealtimeProvider({
     }
   }, [client, getAccessToken]);
 
+  // Auth store token → 실시간 연결 재인증
+  useEffect(() => {
+    if (!syncAuth) return;
+
+    return useAuthStore.subscribe((state, prevState) => {
+      const userId = state.user?.id;
+      if (userId !== prevState.user?.id) {
+        // 다른 사용자로 바뀌면 이전 사용자의 메시지를 새 토큰으로 보내지 않도록 비우고 scope 전환
+        if (prevState.user) client.clearPendingMessages();
+        client.setOutboxScope(userId);
+      }
+
+      if (state.accessToken === prevState.accessToken) return;
+
+      if (state.accessToken) {
+        if (client.getState() === 'disconnected' && autoConnect) {
+          // 재로그인 후 (로그아웃으로 끊긴 경우) 다시 연결
+          client.setAccessToken(state.accessToken);
+          client.connect().catch(console.error);
+        } else if (!prevState.accessToken) {
+          // 토큰 없이 유지되던 세션 (e.g., 세션 만료 후 재로그인) → 새 토큰으로 재인증
+          client.reauthenticate(state.accessToken).catch(console.error);
+        } else {
+          // 주기적 refresh - 세션을 끊지 않음 (만료되면 ERROR 프레임 → refresh 후 재연결)
+          client.setAccessToken(state.accessToken);
+        }
+      } else if (!state.isAuthenticated) {
+        client.setAccessToken('');
+        client.clearPendingMessages();
+        client.disconnect();
+      }
+    });
+  }, [client, syncAuth, autoConnect]);
+
   // Auto connect
   useEffect(() => {
     if (autoConnect) {
@@ -80,12 +151,24 @@ export function RealtimeProvider({
     client.disconnect();
   }, [client]);
 
+  const reconnectNow = useCallback(async () => {
+    if (getAccessToken) {
+      const token = getAccessToken();
+      if (token) {
+        client.setAccessToken(token);
+      }
+    }
+    await client.reconnectNow();
+  }, [client, getAccessToken]);
+
   const value: RealtimeContextValue = {
     client,
     connectionState,
     connect,
     disconnect,
-    isConnected: connectionState === 'connected',
+    reconnectNow,
+    isConnected: connectionState === 'connected' || connectionState === 'stale',
+    metrics,
   };
 
   return (
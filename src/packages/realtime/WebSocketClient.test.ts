@@ -0,0 +1,397 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketClient } from './WebSocketClient';
+import { encodeFrame, frameBodyText, StompDecoder, type StompFrame, type StompHeaders } from './stomp';
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  binaryType = 'blob';
+  sent: StompFrame[] = [];
+  onopen: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
+  private decoder = new StompDecoder();
+
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string | Uint8Array) {
+    this.sent.push(...this.decoder.push(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.({ code: 1000, reason: '' });
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(command: StompFrame['command'], headers: StompHeaders = {}, body = '') {
+    this.onmessage?.({ data: encodeFrame({ command, headers, body }) as string });
+  }
+
+  heartbeat() {
+    this.onmessage?.({ data: '\n' });
+  }
+
+  lastFrame(command: string) {
+    return this.sent.filter((frame) => frame.command === command).at(-1)!;
+  }
+}
+
+describe('WebSocketClient (STOMP)', () => {
+  let client: WebSocketClient;
+  let socket: FakeWebSocket;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    client = new WebSocketClient({
+      url: 'ws://localhost:8080/ws',
+      autoReconnect: false,
+      accessToken: 'token',
+      heartbeatInterval: 1000,
+    });
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.unstubAllGlobals();
+  });
+
+  const connect = async (headers: StompHeaders = { version: '1.2' }) => {
+    const connected = client.connect();
+    socket = FakeWebSocket.instances.at(-1)!;
+    socket.open();
+    socket.receive('CONNECTED', headers);
+    await connected;
+  };
+
+  it('CONNECTED 프레임을 받아야 connected 상태', async () => {
+    const connected = client.connect();
+    socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    expect(client.getState()).toBe('connecting');
+    expect(socket.lastFrame('CONNECT').headers).toMatchObject({
+      'accept-version': '1.2',
+      host: 'localhost',
+      Authorization: 'Bearer token',
+    });
+
+    socket.receive('CONNECTED', { version: '1.2' });
+    await connected;
+    expect(client.getState()).toBe('connected');
+  });
+
+  it('CONNECTED 전 ERROR는 connect 실패', async () => {
+    const connected = client.connect();
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].receive('ERROR', { message: 'Access denied' });
+
+    await expect(connected).rejects.toThrow('Access denied');
+  });
+
+  it('send는 RECEIPT 수신 시 resolve', async () => {
+    await connect();
+    const resolved = vi.fn();
+
+    const handle = client.send('/app/chat', { text: 'hi' });
+    handle.delivered.then(resolved);
+    const frame = socket.lastFrame('SEND');
+    expect(frameBodyText(frame)).toBe('{"text":"hi"}');
+    expect(handle.status).toBe('sent');
+
+    await Promise.resolve();
+    expect(resolved).not.toHaveBeenCalled();
+
+    socket.receive('RECEIPT', { 'receipt-id': frame.headers.receipt });
+    await vi.waitFor(() => expect(resolved).toHaveBeenCalled());
+    expect(handle.status).toBe('receipted');
+  });
+
+  it('연결 전 send는 연결 후 전송', async () => {
+    const sent = client.send('/app/chat', 'queued');
+    expect(sent.status).toBe('queued');
+    expect(client.getPendingMessages()).toEqual([expect.objectContaining({ id: sent.id, status: 'queued' })]);
+    await connect();
+
+    const frame = socket.lastFrame('SEND');
+    expect(frameBodyText(frame)).toBe('queued');
+    socket.receive('RECEIPT', { 'receipt-id': frame.headers.receipt });
+    await expect(sent.delivered).resolves.toBeUndefined();
+    expect(client.getPendingMessages()).toEqual([]);
+  });
+
+  it('client-individual 구독은 ack/nack 프레임 전송', async () => {
+    await connect();
+    const handler = vi.fn();
+    client.subscribe('/topic/orders', handler, { ack: 'client-individual' });
+
+    const subscribeFrame = socket.lastFrame('SUBSCRIBE');
+    expect(subscribeFrame.headers.ack).toBe('client-individual');
+
+    socket.receive(
+      'MESSAGE',
+      { subscription: subscribeFrame.headers.id, 'message-id': 'm-1', ack: 'ack-1', 'content-type': 'application/json' },
+      '{"orderId":7}'
+    );
+    expect(handler).toHaveBeenCalledWith({ orderId: 7 }, expect.objectContaining({ headers: expect.any(Object) }));
+
+    const [, received] = handler.mock.calls[0];
+    received.ack();
+    expect(socket.lastFrame('ACK').headers.id).toBe('ack-1');
+    received.nack();
+    expect(socket.lastFrame('NACK').headers.id).toBe('ack-1');
+  });
+
+  it('연결이 끊기면 RECEIPT 대기 중인 send는 reject', async () => {
+    await connect();
+    const sent = client.send('/app/chat', 'lost');
+
+    socket.close();
+    await expect(sent.delivered).rejects.toThrow();
+    expect(sent.status).toBe('failed');
+  });
+
+  it('receiptTimeout 동안 RECEIPT가 없으면 failed 처리하고 대기 목록에서 제거', async () => {
+    vi.useFakeTimers();
+    await connect();
+    const sent = client.send('/app/chat', 'no receipt');
+    expect(client.getPendingMessages()).toHaveLength(1);
+
+    vi.advanceTimersByTime(10000);
+    await expect(sent.delivered).rejects.toThrow('No RECEIPT within 10000ms');
+    expect(sent.status).toBe('failed');
+    expect(client.getPendingMessages()).toEqual([]);
+
+    // 늦게 도착한 RECEIPT는 무시
+    socket.receive('RECEIPT', { 'receipt-id': socket.lastFrame('SEND').headers.receipt });
+    expect(sent.status).toBe('failed');
+    vi.useRealTimers();
+  });
+
+  it('CONNECTED의 heart-beat로 송수신 간격 협상', async () => {
+    await connect({ version: '1.2', 'heart-beat': '2000,500' });
+
+    expect(client.getMetrics().heartbeat).toEqual({ outgoing: 1000, incoming: 2000 });
+  });
+
+  it('서버 heart-beat가 늦으면 stale, 계속 없으면 연결 종료', async () => {
+    vi.useFakeTimers();
+    await connect({ version: '1.2', 'heart-beat': '2000,0' });
+    const states: string[] = [];
+    client.onStateChange((state) => states.push(state));
+
+    vi.advanceTimersByTime(3000);
+    expect(client.getState()).toBe('stale');
+    expect(client.isConnected()).toBe(true);
+
+    socket.heartbeat();
+    expect(client.getState()).toBe('connected');
+
+    vi.advanceTimersByTime(6000);
+    expect(states).toEqual(['stale', 'connected', 'stale', 'disconnected']);
+    vi.useRealTimers();
+  });
+
+  it('RECEIPT 왕복 시간을 latency로 기록', async () => {
+    await connect();
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+    const sent = client.send('/app/chat', 'ping');
+    dateNow.mockReturnValue(now + 42);
+    socket.receive('RECEIPT', { 'receipt-id': socket.lastFrame('SEND').headers.receipt });
+    await sent.delivered;
+
+    expect(client.getMetrics().latency).toBe(42);
+    dateNow.mockRestore();
+  });
+});
+
+describe('WebSocketClient (reconnect)', () => {
+  let client: WebSocketClient;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    client = new WebSocketClient({
+      url: 'ws://localhost:8080/ws',
+      reconnectDelay: 1000,
+      maxReconnectDelay: 5000,
+      maxReconnectAttempts: 3,
+    });
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const dropLatest = () => FakeWebSocket.instances.at(-1)!.close();
+
+  it('full jitter 지수 백오프 후 최대 횟수 초과 시 failed', () => {
+    client.connect().catch(() => {});
+    dropLatest();
+    expect(client.getState()).toBe('reconnecting');
+
+    // random 0.5 → 500ms, 1000ms, 2000ms
+    vi.advanceTimersByTime(499);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    dropLatest();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    dropLatest();
+    vi.advanceTimersByTime(2000);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+
+    dropLatest();
+    expect(client.getState()).toBe('failed');
+    vi.advanceTimersByTime(60_000);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+  });
+
+  it('reconnectNow는 failed 상태에서도 바로 재연결', async () => {
+    client.connect().catch(() => {});
+    for (let i = 0; i < 3; i++) {
+      dropLatest();
+      vi.runOnlyPendingTimers();
+    }
+    dropLatest();
+    expect(client.getState()).toBe('failed');
+
+    const reconnected = client.reconnectNow();
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.open();
+    socket.receive('CONNECTED', { version: '1.2' });
+
+    await expect(reconnected).resolves.toBeUndefined();
+    expect(client.getState()).toBe('connected');
+  });
+
+  it('오프라인이면 재연결을 멈추고 online 시 바로 재연결', () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    client.connect().catch(() => {});
+    dropLatest();
+
+    vi.advanceTimersByTime(60_000);
+    expect(client.getState()).toBe('reconnecting');
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(client.getState()).toBe('connecting');
+  });
+
+  it('탭이 다시 보이면 대기 없이 재연결', () => {
+    client.connect().catch(() => {});
+    dropLatest();
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+});
+
+describe('WebSocketClient (auth)', () => {
+  let client: WebSocketClient;
+  let refreshAccessToken: ReturnType<typeof vi.fn<() => Promise<string | null>>>;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    refreshAccessToken = vi.fn<() => Promise<string | null>>().mockResolvedValue('refreshed-token');
+    client = new WebSocketClient({ url: 'ws://localhost:8080/ws', accessToken: 'old-token', refreshAccessToken });
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.unstubAllGlobals();
+  });
+
+  const accept = (socket = FakeWebSocket.instances.at(-1)!) => {
+    socket.open();
+    socket.receive('CONNECTED', { version: '1.2' });
+    return socket;
+  };
+
+  it('연결 중 토큰이 바뀌면 구독을 유지한 채 새 토큰으로 재연결', async () => {
+    const connected = client.connect();
+    const first = accept();
+    await connected;
+    client.subscribe('/topic/chat', vi.fn());
+
+    const reauthenticated = client.reauthenticate('new-token');
+    expect(first.lastFrame('DISCONNECT')).toBeDefined();
+
+    const second = accept();
+    await reauthenticated;
+    expect(second.lastFrame('CONNECT').headers.Authorization).toBe('Bearer new-token');
+    expect(second.lastFrame('SUBSCRIBE').headers.destination).toBe('/topic/chat');
+  });
+
+  it('재인증 시 RECEIPT 대기 중인 메시지는 실패 처리하지 않고 재전송', async () => {
+    const connected = client.connect();
+    accept();
+    await connected;
+    const sent = client.send('/app/chat', 'in-flight');
+
+    const reauthenticated = client.reauthenticate('new-token');
+    expect(sent.status).toBe('queued');
+
+    const second = accept();
+    await reauthenticated;
+    const frame = second.lastFrame('SEND');
+    expect(frameBodyText(frame)).toBe('in-flight');
+
+    second.receive('RECEIPT', { 'receipt-id': frame.headers.receipt });
+    await expect(sent.delivered).resolves.toBeUndefined();
+  });
+
+  it('인증 만료 ERROR 시 토큰 refresh 후 재연결', async () => {
+    client.connect().catch(() => {});
+    const first = FakeWebSocket.instances[0];
+    first.open();
+    first.receive('ERROR', { message: 'JWT expired' });
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+
+    const second = accept();
+    expect(second.lastFrame('CONNECT').headers.Authorization).toBe('Bearer refreshed-token');
+    expect(client.getState()).toBe('connected');
+  });
+
+  it('새 토큰도 거부되면 다시 refresh하지 않고 연결 종료', async () => {
+    client.connect().catch(() => {});
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].receive('ERROR', { message: '401 Unauthorized' });
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+
+    FakeWebSocket.instances[1].open();
+    FakeWebSocket.instances[1].receive('ERROR', { message: '401 Unauthorized' });
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(client.getState()).toBe('disconnected');
+  });
+});
@@ -7,7 +7,44 @@
  * - URL에 토큰을 노출하면 브라우저 히스토리, 서버 로그, Referer 헤더에 기록될 수 있습니다.
  */
 
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+import {
+  encodeFrame,
+  frameBodyText,
+  StompDecoder,
+  type StompCommand,
+  type StompFrame,
+  type StompHeaders,
+} from './stomp';
+import {
+  OutboundMessage,
+  OutboundQueue,
+  type MessageHandle,
+  type OutboundQueueConfig,
+  type PendingMessage,
+} from './outbox';
+
+/**
+ * Connection state
+ * - 'stale': 연결은 유지 중이지만 서버 heart-beat가 늦어지고 있음 (계속 없으면 재연결)
+ * - 'reconnecting': 재연결 대기 중 (오프라인이면 온라인이 될 때까지 일시 정지)
+ * - 'failed': 최대 재연결 횟수 초과 - reconnectNow()로만 다시 시도
+ */
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'stale'
+  | 'reconnecting'
+  | 'failed';
+
+export interface ConnectionMetrics {
+  /** Last round-trip latency in ms (CONNECT→CONNECTED, SEND→RECEIPT) */
+  latency: number | null;
+  /** Smoothed round-trip latency in ms */
+  averageLatency: number | null;
+  /** Negotiated heart-beat intervals in ms (0 = disabled) */
+  heartbeat: { outgoing: number; incoming: number };
+}
 
 /**
  * 토큰 전송 방식
@@ -27,41 +64,139 @@ export interface WebSocketConfig {
   tokenTransport?: TokenTransport;
   /** Auto reconnect on disconnect */
   autoReconnect?: boolean;
-  /** Reconnect delay in ms (default: 3000) */
+  /** Base reconnect delay in ms - 시도마다 2배, full jitter 적용 (default: 3000) */
   reconnectDelay?: number;
-  /** Max reconnect attempts (default: 10) */
+  /** Reconnect delay cap in ms (default: 30000) */
+  maxReconnectDelay?: number;
+  /** Max reconnect attempts before 'failed' (default: 10) */
   maxReconnectAttempts?: number;
-  /** Heartbeat interval in ms (default: 10000) */
+  /** Outbound queue while not connected - 크기 제한, drop 정책, TTL, 영속화 */
+  messageQueue?: OutboundQueueConfig;
+  /** Heartbeat interval in ms, requested in both directions (default: 10000) */
   heartbeatInterval?: number;
+  /**
+   * Time in ms to wait for a SEND RECEIPT before 'failed' (default: 10000, 0 = 제한 없음)
+   * RECEIPT를 보내지 않는 broker(e.g., Spring simple broker)에서도 전송 상태가 무한히 대기하지 않습니다.
+   */
+  receiptTimeout?: number;
+  /**
+   * Refresh the access token when the server rejects it (ERROR frame)
+   * 새 토큰으로 재연결하며, null이거나 실패하면 재연결하지 않습니다.
+   */
+  refreshAccessToken?: () => Promise<string | null>;
+  /** Detect auth errors from ERROR frame (default: 401 / unauthorized / expired token 메시지) */
+  isAuthError?: (message: string, headers: StompHeaders) => boolean;
   /** Debug mode */
   debug?: boolean;
 }
 
-type MessageHandler = (message: unknown) => void;
+/**
+ * STOMP ack mode
+ * - 'auto': 서버가 전송 즉시 확인 처리
+ * - 'client': ack() 시 해당 메시지까지 누적 확인
+ * - 'client-individual': 메시지별로 확인
+ */
+export type AckMode = 'auto' | 'client' | 'client-individual';
+
+export interface SubscribeOptions {
+  /** Ack mode (default: 'auto') */
+  ack?: AckMode;
+  /** Additional SUBSCRIBE headers (e.g., selector) */
+  headers?: StompHeaders;
+}
+
+export interface SendOptions {
+  /** Additional SEND headers */
+  headers?: StompHeaders;
+  /** Content type (default: JSON, binary body는 application/octet-stream) */
+  contentType?: string;
+  /** Request a RECEIPT and resolve on it (default: true, receiptTimeout 동안 없으면 'failed') */
+  receipt?: boolean;
+  /** Time-to-live in ms while queued (default: messageQueue.ttl) */
+  ttl?: number;
+}
+
+/** Received MESSAGE frame details (두 번째 handler 인자) */
+export interface ReceivedMessage {
+  headers: StompHeaders;
+  /** Raw body bytes */
+  binaryBody: Uint8Array;
+  /** Acknowledge (ack: 'client' | 'client-individual' 구독에서만 동작) */
+  ack: (headers?: StompHeaders) => void;
+  /** Reject (ack: 'client' | 'client-individual' 구독에서만 동작) */
+  nack: (headers?: StompHeaders) => void;
+}
+
+type MessageHandler = (message: unknown, received: ReceivedMessage) => void;
 type ErrorHandler = (error: Error) => void;
 type StateChangeHandler = (state: ConnectionState) => void;
+type MetricsChangeHandler = (metrics: ConnectionMetrics) => void;
+type PendingChangeHandler = (messages: PendingMessage[]) => void;
 
 interface Subscription {
   id: string;
   destination: string;
   handler: MessageHandler;
+  options: SubscribeOptions;
+}
+
+interface Deferred {
+  resolve: () => void;
+  reject: (error: Error) => void;
 }
 
+interface PendingReceipt {
+  message: OutboundMessage;
+  sentAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// 서버 heart-beat가 incoming 간격의 1.5배 동안 없으면 stale, 3배면 연결 종료 후 재연결
+const STALE_HEARTBEAT_FACTOR = 1.5;
+const DEAD_HEARTBEAT_FACTOR = 3;
+// 평균 지연 시간 평활 계수 (EWMA)
+const LATENCY_SMOOTHING = 0.2;
+
+const defaultIsAuthError = (message: string) =>
+  /\b401\b|unauthori[sz]ed|expired|invalid[_ -]?token|authentication/i.test(message);
+
+// 텍스트로 해석할 content-type (그 외는 Uint8Array로 전달)
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|xml|javascript)|[^;]*\+json)/i;
+
 /**
  * WebSocket client with STOMP protocol support
  * Compatible with Spring Boot WebSocket server
  */
 export class WebSocketClient {
-  private config: Required<WebSocketConfig>;
+  private config: Required<Omit<WebSocketConfig, 'refreshAccessToken'>> &
+    Pick<WebSocketConfig, 'refreshAccessToken'>;
   private socket: WebSocket | null = null;
   private state: ConnectionState = 'disconnected';
   private subscriptions: Map<string, Subscription> = new Map();
   private reconnectAttempts = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private networkListenersAttached = false;
+  // CONNECTED 전까지 auth 에러 refresh는 한 번만 (새 토큰도 거부되면 중단)
+  private authRefreshAttempted = false;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-  private messageQueue: Array<{ destination: string; body: unknown }> = [];
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private lastIncomingAt = 0;
+  private connectSentAt = 0;
+  private metrics: ConnectionMetrics = {
+    latency: null,
+    averageLatency: null,
+    heartbeat: { outgoing: 0, incoming: 0 },
+  };
+  private outbox: OutboundQueue;
+  private pendingMessages: PendingMessage[] = [];
+  private decoder = new StompDecoder();
+  private pendingConnect: (Deferred & { promise: Promise<void> }) | null = null;
+  private pendingReceipts: Map<string, PendingReceipt> = new Map();
+  private receiptCounter = 0;
 
   private stateListeners: Set<StateChangeHandler> = new Set();
+  private metricsListeners: Set<MetricsChangeHandler> = new Set();
+  private pendingListeners: Set<PendingChangeHandler> = new Set();
   private errorListeners: Set<ErrorHandler> = new Set();
 
   constructor(config: WebSocketConfig) {
@@ -72,11 +207,20 @@ export class WebSocketClient {
       tokenTransport: config.tokenTransport ?? 'header', // 기본값: 헤더로 전송 (보안)
       autoReconnect: config.autoReconnect ?? true,
       reconnectDelay: config.reconnectDelay ?? 3000,
+      maxReconnectDelay: config.maxReconnectDelay ?? 30000,
       maxReconnectAttempts: config.maxReconnectAttempts ?? 10,
+      messageQueue: config.messageQueue ?? {},
       heartbeatInterval: config.heartbeatInterval ?? 10000,
+      receiptTimeout: config.receiptTimeout ?? 10000,
+      refreshAccessToken: config.refreshAccessToken,
+      isAuthError: config.isAuthError ?? defaultIsAuthError,
       debug: config.debug ?? false,
     };
 
+    // 새로고침 전에 보내지 못한 메시지 복원 (persist 설정 시)
+    this.outbox = new OutboundQueue(this.config.messageQueue, () => this.notifyPending());
+    this.outbox.restore().forEach((message) => this.trackMessage(message));
+
     // query 방식 사용 시 보안 경고
     if (this.config.tokenTransport === 'query' && this.config.accessToken) {
       console.warn(
@@ -86,52 +230,60 @@ export class WebSocketClient {
     }
   }
 
-  /** Connect to WebSocket server */
+  /**
+   * Connect to WebSocket server
+   * STOMP CONNECTED 프레임을 받으면 resolve 됩니다.
+   */
   connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.state === 'connected' || this.state === 'connecting') {
-        resolve();
-        return;
-      }
+    if (this.isConnected()) return Promise.resolve();
+    if (this.pendingConnect) return this.pendingConnect.promise;
 
-      this.setState('connecting');
-      this.log('Connecting to', this.config.url);
-
-      try {
-        // Create WebSocket connection
-        const url = this.buildUrl();
-        this.socket = new WebSocket(url);
-
-        this.socket.onopen = () => {
-          this.log('WebSocket connected');
-          this.sendConnectFrame();
-          this.reconnectAttempts = 0;
-          this.setState('connected');
-          this.startHeartbeat();
-          this.flushMessageQueue();
-          resolve();
-        };
-
-        this.socket.onclose = (event) => {
-          this.log('WebSocket closed:', event.code, event.reason);
-          this.handleDisconnect();
-        };
-
-        this.socket.onerror = (event) => {
-          this.log('WebSocket error:', event);
-          const error = new Error('WebSocket connection failed');
-          this.notifyError(error);
-          reject(error);
-        };
-
-        this.socket.onmessage = (event) => {
-          this.handleMessage(event.data);
-        };
-      } catch (error) {
-        this.setState('disconnected');
-        reject(error);
-      }
+    let deferred!: Deferred;
+    const promise = new Promise<void>((resolve, reject) => {
+      deferred = { resolve, reject };
     });
+    this.pendingConnect = { ...deferred, promise };
+
+    this.setState('connecting');
+    this.log('Connecting to', this.config.url);
+    if (this.config.autoReconnect) {
+      this.attachNetworkListeners();
+    }
+
+    try {
+      // Create WebSocket connection
+      const url = this.buildUrl();
+      this.socket = new WebSocket(url);
+      this.socket.binaryType = 'arraybuffer';
+      this.decoder.reset();
+
+      this.socket.onopen = () => {
+        this.log('WebSocket opened');
+        this.sendConnectFrame();
+      };
+
+      this.socket.onclose = (event) => {
+        this.log('WebSocket closed:', event.code, event.reason);
+        this.handleDisconnect();
+      };
+
+      this.socket.onerror = (event) => {
+        this.log('WebSocket error:', event);
+        const error = new Error('WebSocket connection failed');
+        this.notifyError(error);
+        this.settleConnect(error);
+      };
+
+      this.socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
+        this.markIncoming();
+        this.handleMessage(event.data);
+      };
+    } catch (error) {
+      this.setState('disconnected');
+      this.settleConnect(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    return promise;
   }
 
   /** Disconnect from WebSocket server */
@@ -139,25 +291,28 @@ export class WebSocketClient {
     this.log('Disconnecting...');
     this.stopReconnect();
     this.stopHeartbeat();
+    this.detachNetworkListeners();
 
     if (this.socket) {
       this.sendDisconnectFrame();
-      this.socket.close();
-      this.socket = null;
+      this.closeSocket();
     }
 
+    this.settleConnect(new Error('WebSocket disconnected'));
+    this.rejectPendingReceipts(new Error('WebSocket disconnected before RECEIPT'));
     this.subscriptions.clear();
     this.setState('disconnected');
   }
 
   /** Subscribe to a destination */
-  subscribe(destination: string, handler: MessageHandler): () => void {
+  subscribe(destination: string, handler: MessageHandler, options: SubscribeOptions = {}): () => void {
     const id = `sub-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const subscription: Subscription = { id, destination, handler, options };
 
-    this.subscriptions.set(id, { id, destination, handler });
+    this.subscriptions.set(id, subscription);
 
-    if (this.state === 'connected') {
-      this.sendSubscribeFrame(id, destination);
+    if (this.isConnected()) {
+      this.sendSubscribeFrame(subscription);
     }
 
     this.log('Subscribed to', destination);
@@ -172,7 +327,7 @@ export class WebSocketClient {
   private unsubscribe(id: string): void {
     const sub = this.subscriptions.get(id);
     if (sub) {
-      if (this.state === 'connected') {
+      if (this.isConnected()) {
         this.sendUnsubscribeFrame(id);
       }
       this.subscriptions.delete(id);
@@ -180,27 +335,128 @@ export class WebSocketClient {
     }
   }
 
-  /** Send message to destination */
-  send(destination: string, body: unknown): void {
-    if (this.state !== 'connected') {
-      this.messageQueue.push({ destination, body });
+  /**
+   * Send message to destination
+   * 반환된 handle로 전달 상태(queued → sent → receipted)를 확인하거나 handle.delivered를 기다립니다.
+   * 연결 전에는 큐에 보관 후 연결 시 전송하며, 큐가 가득 차고 dropPolicy가 'reject'면 에러를 던집니다.
+   * Uint8Array / ArrayBuffer 본문은 바이너리 프레임으로 전송됩니다.
+   */
+  send(destination: string, body: unknown, options: SendOptions = {}): MessageHandle {
+    const { ttl = this.outbox.defaultTtl, ...messageOptions } = options;
+    const message = new OutboundMessage(destination, body, messageOptions, ttl);
+
+    if (!this.isConnected()) {
+      this.outbox.enqueue(message);
       this.log('Message queued (not connected):', destination);
-      return;
+    } else {
+      this.sendMessageFrame(message);
+    }
+
+    this.trackMessage(message);
+    return message;
+  }
+
+  /** Messages waiting to be sent or receipted */
+  getPendingMessages(): PendingMessage[] {
+    return this.pendingMessages;
+  }
+
+  /**
+   * Drop queued messages and remove persisted ones (e.g., 로그아웃)
+   * 다음 로그인 사용자의 토큰으로 이전 사용자의 메시지가 전송되지 않게 합니다.
+   */
+  clearPendingMessages(): void {
+    this.outbox.clear();
+  }
+
+  /**
+   * Switch the persisted outbox to another scope (e.g., 로그인한 사용자 id)
+   * 해당 scope에 저장된 메시지를 복원하고, 연결 중이면 바로 전송합니다.
+   */
+  setOutboxScope(scope?: string): void {
+    this.outbox.setScope(scope).forEach((message) => this.trackMessage(message));
+    if (this.isConnected()) {
+      this.flushMessageQueue();
     }
+  }
+
+  /** Listen to pending message changes */
+  onPendingChange(handler: PendingChangeHandler): () => void {
+    this.pendingListeners.add(handler);
+    return () => this.pendingListeners.delete(handler);
+  }
 
-    this.sendMessageFrame(destination, body);
+  /**
+   * Reconnect immediately (e.g., "다시 연결" 버튼)
+   * 대기 중인 재연결 타이머를 취소하고 재연결 횟수를 초기화합니다.
+   */
+  reconnectNow(): Promise<void> {
+    if (this.isConnected()) return Promise.resolve();
+
+    this.stopReconnect();
+    return this.connect();
   }
 
-  /** Update access token */
+  /** Acknowledge a message (MESSAGE 프레임의 ack 헤더 값) */
+  ack(ackId: string, headers: StompHeaders = {}): void {
+    this.sendFrame('ACK', { ...headers, id: ackId });
+  }
+
+  /** Reject a message (MESSAGE 프레임의 ack 헤더 값) */
+  nack(ackId: string, headers: StompHeaders = {}): void {
+    this.sendFrame('NACK', { ...headers, id: ackId });
+  }
+
+  /** Update access token (다음 연결부터 사용) */
   setAccessToken(token: string): void {
     this.config.accessToken = token;
   }
 
+  /**
+   * Re-authenticate the live session with a new token
+   * STOMP는 세션 중 재인증이 없으므로 구독/큐를 유지한 채 새 CONNECT로 재연결합니다.
+   * RECEIPT를 받지 못한 메시지는 큐로 되돌려 재연결 후 다시 전송합니다 (at-least-once).
+   * 단순 토큰 갱신은 setAccessToken으로 충분합니다 (다음 CONNECT부터 사용).
+   * 연결되어 있지 않으면 토큰만 갱신합니다.
+   */
+  reauthenticate(token?: string): Promise<void> {
+    if (token !== undefined) {
+      this.config.accessToken = token;
+    }
+    if (!this.isConnected()) return Promise.resolve();
+
+    this.log('Re-authenticating with new token');
+    this.sendDisconnectFrame();
+    this.closeSocket();
+    this.stopHeartbeat();
+    this.stopReconnect();
+    this.requeuePendingReceipts();
+    this.setState('reconnecting');
+
+    return this.connect();
+  }
+
   /** Get current connection state */
   getState(): ConnectionState {
     return this.state;
   }
 
+  /** STOMP session is established ('connected' or 'stale') */
+  isConnected(): boolean {
+    return this.state === 'connected' || this.state === 'stale';
+  }
+
+  /** Get latency / heart-beat metrics */
+  getMetrics(): ConnectionMetrics {
+    return this.metrics;
+  }
+
+  /** Listen to metrics changes */
+  onMetricsChange(handler: MetricsChangeHandler): () => void {
+    this.metricsListeners.add(handler);
+    return () => this.metricsListeners.delete(handler);
+  }
+
   /** Listen to state changes */
   onStateChange(handler: StateChangeHandler): () => void {
     this.stateListeners.add(handler);
@@ -239,46 +495,245 @@ export class WebSocketClient {
     this.errorListeners.forEach((handler) => handler(error));
   }
 
+  private settleConnect(error?: Error): void {
+    if (!this.pendingConnect) return;
+
+    const { resolve, reject } = this.pendingConnect;
+    this.pendingConnect = null;
+    if (error) {
+      reject(error);
+    } else {
+      resolve();
+    }
+  }
+
+  private recordLatency(sentAt: number): void {
+    const latency = Date.now() - sentAt;
+    const { averageLatency } = this.metrics;
+
+    this.updateMetrics({
+      latency,
+      averageLatency: averageLatency === null
+        ? latency
+        : Math.round(averageLatency + (latency - averageLatency) * LATENCY_SMOOTHING),
+    });
+  }
+
+  private updateMetrics(metrics: Partial<ConnectionMetrics>): void {
+    this.metrics = { ...this.metrics, ...metrics };
+    this.metricsListeners.forEach((handler) => handler(this.metrics));
+  }
+
+  private markIncoming(): void {
+    this.lastIncomingAt = Date.now();
+    if (this.state === 'stale') {
+      this.setState('connected');
+    }
+  }
+
+  // 핸들러를 떼고 닫음 (half-open 연결은 close 이벤트가 늦게 오거나 오지 않음)
+  private closeSocket(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = null;
+    socket.onopen = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.onmessage = null;
+    socket.close();
+  }
+
+  private forceReconnect(): void {
+    this.log('Server heart-beat missed, reconnecting');
+    this.closeSocket();
+    this.handleDisconnect();
+  }
+
+  private rejectPendingReceipts(error: Error): void {
+    this.takePendingReceipts().forEach((message) => message.updateStatus('failed', error));
+  }
+
+  private requeuePendingReceipts(): void {
+    this.outbox.requeue(this.takePendingReceipts());
+  }
+
+  private takePendingReceipts(): OutboundMessage[] {
+    const pending = [...this.pendingReceipts.values()];
+    this.pendingReceipts.clear();
+    return pending.map(({ message, timer }) => {
+      if (timer) clearTimeout(timer);
+      return message;
+    });
+  }
+
+  private takePendingReceipt(receiptId: string): PendingReceipt | undefined {
+    const pending = this.pendingReceipts.get(receiptId);
+    if (pending) {
+      this.pendingReceipts.delete(receiptId);
+      if (pending.timer) clearTimeout(pending.timer);
+    }
+    return pending;
+  }
+
+  private trackMessage(message: OutboundMessage): void {
+    message.onStatusChange(() => this.notifyPending());
+    this.notifyPending();
+  }
+
+  private notifyPending(): void {
+    const inFlight = [...this.pendingReceipts.values()].map(({ message }) => message);
+    this.pendingMessages = [...this.outbox.list(), ...inFlight]
+      .filter((message) => message.status === 'queued' || message.status === 'sent')
+      .map((message) => message.toSnapshot());
+    this.pendingListeners.forEach((handler) => handler(this.pendingMessages));
+  }
+
   private handleDisconnect(): void {
     this.stopHeartbeat();
-    this.setState('disconnected');
-
-    if (this.config.autoReconnect && this.reconnectAttempts < this.config.maxReconnectAttempts) {
+    this.settleConnect(new Error('WebSocket closed before STOMP CONNECTED'));
+    this.rejectPendingReceipts(new Error('WebSocket closed before RECEIPT'));
+
+    if (!this.config.autoReconnect) {
+      this.setState('disconnected');
+    } else if (this.reconnectAttempts >= this.config.maxReconnectAttempts) {
+      this.log(`Reconnect failed after ${this.reconnectAttempts} attempts`);
+      this.setState('failed');
+    } else {
       this.scheduleReconnect();
     }
   }
 
+  /**
+   * Full jitter exponential backoff
+   * random(0, min(maxReconnectDelay, reconnectDelay * 2^attempt))
+   */
+  private getReconnectDelay(): number {
+    const { reconnectDelay, maxReconnectDelay } = this.config;
+    const exponentialDelay = Math.min(maxReconnectDelay, reconnectDelay * 2 ** this.reconnectAttempts);
+    return Math.round(Math.random() * exponentialDelay);
+  }
+
   private scheduleReconnect(): void {
     if (this.reconnectTimer) return;
 
-    this.reconnectAttempts++;
-    const delay = this.config.reconnectDelay * Math.min(this.reconnectAttempts, 5);
-
-    this.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.config.maxReconnectAttempts})`);
     this.setState('reconnecting');
 
-    this.reconnectTimer = setTimeout(() => {
-      this.reconnectTimer = null;
-      this.connect().catch(() => {
-        // Will trigger another reconnect via handleDisconnect
-      });
-    }, delay);
+    // 오프라인이면 online 이벤트까지 대기 (시도 횟수 소모 안 함)
+    if (!navigator.onLine) {
+      this.log('Offline - reconnect paused until online');
+      return;
+    }
+
+    const delay = this.getReconnectDelay();
+    this.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts + 1}/${this.config.maxReconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => this.attemptReconnect(), delay);
   }
 
-  private stopReconnect(): void {
+  private attemptReconnect(): void {
+    this.clearReconnectTimer();
+    this.reconnectAttempts++;
+    this.connect().catch(() => {
+      // Will trigger another reconnect via handleDisconnect
+    });
+  }
+
+  private clearReconnectTimer(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+  }
+
+  private stopReconnect(): void {
+    this.clearReconnectTimer();
     this.reconnectAttempts = 0;
   }
 
+  // === Network / Visibility ===
+
+  private attachNetworkListeners(): void {
+    if (this.networkListenersAttached) return;
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.networkListenersAttached = true;
+  }
+
+  private detachNetworkListeners(): void {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.networkListenersAttached = false;
+  }
+
+  // 네트워크가 바뀌었으므로 횟수를 초기화하고 바로 재연결
+  private handleOnline = () => {
+    if (this.state !== 'reconnecting') return;
+
+    this.log('Online - reconnecting now');
+    this.reconnectAttempts = 0;
+    this.attemptReconnect();
+  };
+
+  private handleOffline = () => {
+    if (this.state !== 'reconnecting') return;
+
+    this.log('Offline - reconnect paused until online');
+    this.clearReconnectTimer();
+  };
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState !== 'visible' || this.state !== 'reconnecting' || !navigator.onLine) {
+      return;
+    }
+
+    this.log('Visible - reconnecting now');
+    this.attemptReconnect();
+  };
+
+  /**
+   * Negotiate heart-beat from CONNECTED (STOMP 1.2)
+   * 송신: max(cx, sy), 수신: max(sx, cy) - 한쪽이라도 0이면 비활성
+   */
+  private negotiateHeartbeat(serverHeader: string | undefined): ConnectionMetrics['heartbeat'] {
+    const [sx = 0, sy = 0] = (serverHeader ?? '0,0').split(',').map((value) => Number(value) || 0);
+    const cx = this.config.heartbeatInterval;
+    const cy = this.config.heartbeatInterval;
+
+    return {
+      outgoing: cx === 0 || sy === 0 ? 0 : Math.max(cx, sy),
+      incoming: sx === 0 || cy === 0 ? 0 : Math.max(sx, cy),
+    };
+  }
+
   private startHeartbeat(): void {
-    this.heartbeatTimer = setInterval(() => {
-      if (this.socket?.readyState === WebSocket.OPEN) {
-        this.socket.send('\n'); // STOMP heartbeat
-      }
-    }, this.config.heartbeatInterval);
+    this.stopHeartbeat();
+    const { outgoing, incoming } = this.metrics.heartbeat;
+
+    if (outgoing > 0) {
+      this.heartbeatTimer = setInterval(() => {
+        if (this.socket?.readyState === WebSocket.OPEN) {
+          this.socket.send('\n'); // STOMP heartbeat
+        }
+      }, outgoing);
+    }
+
+    // Watchdog - 서버 트래픽(heart-beat 포함)이 끊기면 stale → 재연결
+    if (incoming > 0) {
+      this.lastIncomingAt = Date.now();
+      this.watchdogTimer = setInterval(() => {
+        const silence = Date.now() - this.lastIncomingAt;
+
+        if (silence >= incoming * DEAD_HEARTBEAT_FACTOR) {
+          this.forceReconnect();
+        } else if (silence >= incoming * STALE_HEARTBEAT_FACTOR && this.state === 'connected') {
+          this.setState('stale');
+        }
+      }, incoming / 2);
+    }
   }
 
   private stopHeartbeat(): void {
@@ -286,20 +741,22 @@ export class WebSocketClient {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
   }
 
   private flushMessageQueue(): void {
-    while (this.messageQueue.length > 0) {
-      const msg = this.messageQueue.shift()!;
-      this.send(msg.destination, msg.body);
-    }
+    this.outbox.drain().forEach((message) => this.sendMessageFrame(message));
   }
 
   // === STOMP Frame Methods ===
 
   private sendConnectFrame(): void {
-    const headers: Record<string, string> = {
+    const headers: StompHeaders = {
       'accept-version': '1.2',
+      host: new URL(this.config.url, window.location.href).hostname,
       'heart-beat': `${this.config.heartbeatInterval},${this.config.heartbeatInterval}`,
     };
 
@@ -307,6 +764,7 @@ export class WebSocketClient {
       headers['Authorization'] = `Bearer ${this.config.accessToken}`;
     }
 
+    this.connectSentAt = Date.now();
     this.sendFrame('CONNECT', headers);
   }
 
@@ -314,10 +772,12 @@ export class WebSocketClient {
     this.sendFrame('DISCONNECT', {});
   }
 
-  private sendSubscribeFrame(id: string, destination: string): void {
+  private sendSubscribeFrame({ id, destination, options }: Subscription): void {
     this.sendFrame('SUBSCRIBE', {
+      ...options.headers,
       id,
       destination,
+      ack: options.ack ?? 'auto',
     });
   }
 
@@ -325,69 +785,171 @@ export class WebSocketClient {
     this.sendFrame('UNSUBSCRIBE', { id });
   }
 
-  private sendMessageFrame(destination: string, body: unknown): void {
-    const content = typeof body === 'string' ? body : JSON.stringify(body);
-    this.sendFrame('SEND', {
+  private sendMessageFrame(message: OutboundMessage): void {
+    const { destination, body, options } = message;
+    const binary = body instanceof Uint8Array ? body : body instanceof ArrayBuffer ? new Uint8Array(body) : null;
+    const content = binary ?? (typeof body === 'string' ? body : JSON.stringify(body));
+    const headers: StompHeaders = {
+      ...options.headers,
       destination,
-      'content-type': 'application/json',
-    }, content);
-  }
+      'content-type': options.contentType ?? (binary ? 'application/octet-stream' : 'application/json'),
+    };
 
-  private sendFrame(command: string, headers: Record<string, string>, body = ''): void {
-    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+    if (options.receipt === false) {
+      if (this.sendFrame('SEND', headers, content)) message.updateStatus('sent');
+      else message.updateStatus('failed', new Error('WebSocket is not open'));
       return;
     }
 
-    let frame = command + '\n';
-    for (const [key, value] of Object.entries(headers)) {
-      frame += `${key}:${value}\n`;
+    const receiptId = `receipt-${++this.receiptCounter}`;
+    if (!this.sendFrame('SEND', { ...headers, receipt: receiptId }, content)) {
+      message.updateStatus('failed', new Error('WebSocket is not open'));
+      return;
     }
-    frame += '\n' + body + '\0';
 
-    this.socket.send(frame);
+    // RECEIPT가 오지 않으면 (broker 미지원 등) 대기 목록에서 제거하고 'failed'
+    const { receiptTimeout } = this.config;
+    const timer =
+      receiptTimeout > 0
+        ? setTimeout(() => {
+            this.pendingReceipts.delete(receiptId);
+            message.updateStatus('failed', new Error(`No RECEIPT within ${receiptTimeout}ms`));
+          }, receiptTimeout)
+        : null;
+    this.pendingReceipts.set(receiptId, { message, sentAt: Date.now(), timer });
+    message.updateStatus('sent');
   }
 
-  private handleMessage(data: string): void {
-    // Parse STOMP frame
-    const lines = data.split('\n');
-    const command = lines[0];
+  private sendFrame(command: StompCommand, headers: StompHeaders, body: string | Uint8Array = ''): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
 
-    if (command === 'MESSAGE') {
-      const headers: Record<string, string> = {};
-      let i = 1;
+    this.socket.send(encodeFrame({ command, headers, body }));
+    return true;
+  }
 
-      while (lines[i] && lines[i] !== '') {
-        const [key, ...valueParts] = lines[i].split(':');
-        headers[key] = valueParts.join(':');
-        i++;
-      }
+  private handleMessage(data: string | ArrayBuffer): void {
+    let frames: StompFrame[];
+    try {
+      frames = this.decoder.push(data);
+    } catch (error) {
+      this.log('Invalid STOMP frame:', error);
+      this.notifyError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
 
-      // Body is after empty line, remove null terminator
-      const body = lines.slice(i + 1).join('\n').replace(/\0$/, '');
+    frames.forEach((frame) => this.handleFrame(frame));
+  }
 
-      const subscriptionId = headers['subscription'];
-      const subscription = this.subscriptions.get(subscriptionId);
+  private handleFrame(frame: StompFrame): void {
+    const { command, headers } = frame;
 
-      if (subscription) {
-        try {
-          const parsed = body ? JSON.parse(body) : null;
-          subscription.handler(parsed);
-        } catch {
-          subscription.handler(body);
-        }
+    if (command === 'MESSAGE') {
+      const subscription = this.subscriptions.get(headers['subscription']);
+      if (!subscription) return;
+
+      const ackId = headers['ack'];
+      const received: ReceivedMessage = {
+        headers,
+        binaryBody: frame.body,
+        ack: (ackHeaders) => {
+          if (ackId) this.ack(ackId, ackHeaders);
+        },
+        nack: (ackHeaders) => {
+          if (ackId) this.nack(ackId, ackHeaders);
+        },
+      };
+
+      subscription.handler(this.parseBody(frame), received);
+    } else if (command === 'RECEIPT') {
+      const pending = this.takePendingReceipt(headers['receipt-id']);
+      if (pending) {
+        this.recordLatency(pending.sentAt);
+        pending.message.updateStatus('receipted');
       }
     } else if (command === 'CONNECTED') {
-      this.log('STOMP connected');
+      this.log('STOMP connected', headers['version']);
+      this.reconnectAttempts = 0;
+      this.authRefreshAttempted = false;
+      this.updateMetrics({ heartbeat: this.negotiateHeartbeat(headers['heart-beat']) });
+      this.recordLatency(this.connectSentAt);
+      this.setState('connected');
       // Resubscribe all subscriptions
       this.subscriptions.forEach((sub) => {
-        this.sendSubscribeFrame(sub.id, sub.destination);
+        this.sendSubscribeFrame(sub);
       });
+      this.startHeartbeat();
+      this.flushMessageQueue();
+      this.settleConnect();
     } else if (command === 'ERROR') {
       // 에러 메시지에서 민감 정보 제거
-      const rawErrorMessage = lines.slice(1).join('\n');
-      const sanitizedMessage = this.sanitizeErrorMessage(rawErrorMessage);
-      this.log('STOMP error:', sanitizedMessage);
-      this.notifyError(new Error(sanitizedMessage));
+      const rawErrorMessage = [headers['message'], frameBodyText(frame)].filter(Boolean).join('\n');
+      const error = new Error(this.sanitizeErrorMessage(rawErrorMessage));
+      this.log('STOMP error:', error.message);
+
+      const receiptId = headers['receipt-id'];
+      const pending = receiptId ? this.takePendingReceipt(receiptId) : undefined;
+      if (pending) {
+        pending.message.updateStatus('failed', error);
+      }
+      this.settleConnect(error);
+      this.notifyError(error);
+
+      if (this.config.refreshAccessToken && this.config.isAuthError(rawErrorMessage, headers)) {
+        this.handleAuthError();
+      }
+    }
+  }
+
+  /**
+   * Auth error - refresh token first, then reconnect with it
+   * 서버는 ERROR 후 연결을 닫으므로 기존 토큰으로 재연결하지 않도록 먼저 소켓을 정리합니다.
+   */
+  private async handleAuthError(): Promise<void> {
+    this.closeSocket();
+    this.stopHeartbeat();
+    this.clearReconnectTimer();
+    this.rejectPendingReceipts(new Error('Authentication failed before RECEIPT'));
+
+    if (this.authRefreshAttempted) {
+      this.setState('disconnected');
+      return;
+    }
+    this.authRefreshAttempted = true;
+    this.setState('reconnecting');
+
+    let token: string | null = null;
+    try {
+      token = (await this.config.refreshAccessToken?.()) ?? null;
+    } catch (error) {
+      this.log('Token refresh failed:', error);
+    }
+
+    // refresh 중에 disconnect() 된 경우
+    if (this.state !== 'reconnecting') return;
+
+    if (!token) {
+      this.setState('disconnected');
+      return;
+    }
+
+    this.config.accessToken = token;
+    this.attemptReconnect();
+  }
+
+  // JSON / text는 파싱, 그 외 content-type은 Uint8Array 그대로 전달
+  private parseBody(frame: StompFrame): unknown {
+    const contentType = frame.headers['content-type'];
+    if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) {
+      return frame.body;
+    }
+
+    const body = frameBodyText(frame);
+    try {
+      return body ? JSON.parse(body) : null;
+    } catch {
+      return body;
     }
   }
 
@@ -3,7 +3,37 @@
  * Optional package - only install when needed
  */
 
-export { WebSocketClient, type WebSocketConfig, type ConnectionState } from './WebSocketClient';
+export {
+  WebSocketClient,
+  type WebSocketConfig,
+  type ConnectionState,
+  type ConnectionMetrics,
+  type AckMode,
+  type SubscribeOptions,
+  type SendOptions,
+  type ReceivedMessage,
+} from './WebSocketClient';
+export {
+  StompDecoder,
+  encodeFrame,
+  frameBodyText,
+  escapeHeaderValue,
+  unescapeHeaderValue,
+  type StompCommand,
+  type StompFrame,
+  type StompHeaders,
+  type OutgoingStompFrame,
+} from './stomp';
+export {
+  OutboundQueue,
+  OutboundMessage,
+  type DeliveryStatus,
+  type DropPolicy,
+  type OutboundQueueConfig,
+  type MessageHandle,
+  type PendingMessage,
+} from './outbox';
 export { useWebSocket } from './useWebSocket';
 export { useSubscription } from './useSubscription';
+export { usePendingMessages } from './usePendingMessages';
 export { RealtimeProvider, useRealtime } from './RealtimeContext';
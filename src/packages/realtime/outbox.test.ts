@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OutboundMessage, OutboundQueue } from './outbox';
+
+describe('OutboundQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    sessionStorage.clear();
+  });
+
+  it("가득 차면 'oldest' 정책은 가장 오래된 메시지를 버림", async () => {
+    const queue = new OutboundQueue({ maxSize: 2 });
+    const [first, second, third] = ['a', 'b', 'c'].map((body) => new OutboundMessage('/app/chat', body));
+
+    [first, second, third].forEach((message) => queue.enqueue(message));
+
+    expect(queue.list()).toEqual([second, third]);
+    expect(first.status).toBe('dropped');
+    await expect(first.delivered).rejects.toThrow('Outbound queue is full');
+  });
+
+  it("'newest' 정책은 새 메시지를 버리고, 'reject' 정책은 에러", () => {
+    const newest = new OutboundQueue({ maxSize: 1, dropPolicy: 'newest' });
+    const kept = new OutboundMessage('/app/chat', 'kept');
+    const dropped = new OutboundMessage('/app/chat', 'dropped');
+    newest.enqueue(kept);
+    newest.enqueue(dropped);
+
+    expect(newest.list()).toEqual([kept]);
+    expect(dropped.status).toBe('dropped');
+
+    const reject = new OutboundQueue({ maxSize: 1, dropPolicy: 'reject' });
+    reject.enqueue(new OutboundMessage('/app/chat', 'first'));
+    expect(() => reject.enqueue(new OutboundMessage('/app/chat', 'second'))).toThrow('Outbound queue is full');
+    expect(reject.size).toBe(1);
+  });
+
+  it('TTL이 지나면 큐에서 제거하고 expired', () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+    const queue = new OutboundQueue({ ttl: 1000 }, onChange);
+    const message = new OutboundMessage('/app/chat', 'late', {}, queue.defaultTtl);
+    const listener = vi.fn();
+    message.onStatusChange(listener);
+
+    queue.enqueue(message);
+    vi.advanceTimersByTime(1000);
+
+    expect(queue.size).toBe(0);
+    expect(message.status).toBe('expired');
+    expect(listener).toHaveBeenCalledWith('expired');
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('receipt: false 메시지는 sent에서 resolve', async () => {
+    const message = new OutboundMessage('/app/chat', 'fire', { receipt: false });
+
+    message.updateStatus('sent');
+    await expect(message.delivered).resolves.toBeUndefined();
+  });
+
+  it('persist 설정 시 탭의 sessionStorage에 저장 후 복원 (바이너리 본문 제외)', () => {
+    const queue = new OutboundQueue({ persist: true });
+    queue.enqueue(new OutboundMessage('/app/chat', { text: 'saved' }));
+    queue.enqueue(new OutboundMessage('/app/upload', new Uint8Array([1, 2])));
+
+    expect(sessionStorage.getItem('app:realtime:outbox')).not.toBeNull();
+    expect(localStorage.setItem).not.toHaveBeenCalled();
+
+    const restored = new OutboundQueue({ persist: true }).restore();
+    expect(restored).toHaveLength(1);
+    expect(restored[0]).toMatchObject({ destination: '/app/chat', body: { text: 'saved' }, status: 'queued' });
+  });
+
+  it('scope별로 따로 저장하고 setScope 시 해당 scope의 메시지만 복원', () => {
+    const queue = new OutboundQueue({ persist: true, scope: 'user-a' });
+    queue.enqueue(new OutboundMessage('/app/chat', 'from a'));
+    expect(sessionStorage.getItem('app:realtime:outbox:user-a')).not.toBeNull();
+
+    const other = new OutboundQueue({ persist: true, scope: 'user-b' });
+    expect(other.restore()).toEqual([]);
+
+    const switched = new OutboundQueue({ persist: true });
+    expect(switched.setScope('user-a').map((message) => message.body)).toEqual(['from a']);
+    expect(switched.setScope('user-a')).toEqual([]);
+  });
+
+  it('clear 시 대기 메시지를 버리고 저장된 메시지도 삭제', async () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+    const queue = new OutboundQueue({ persist: true, ttl: 1000 }, onChange);
+    const message = new OutboundMessage('/app/chat', 'pending', {}, 1000);
+    queue.enqueue(message);
+
+    queue.clear();
+
+    expect(queue.size).toBe(0);
+    expect(message.status).toBe('dropped');
+    expect(sessionStorage.getItem('app:realtime:outbox')).toBeNull();
+    await expect(message.delivered).rejects.toThrow('Outbound queue cleared');
+
+    // TTL 타이머도 해제되어 만료 처리가 다시 일어나지 않음
+    onChange.mockClear();
+    vi.advanceTimersByTime(1000);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
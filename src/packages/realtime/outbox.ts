@@ -0,0 +1,328 @@
+/**
+ * Outbox - Bounded outbound message queue with delivery status
+ *
+ * 연결 전에 보낸 메시지를 보관했다가 연결(CONNECTED) 시 전송합니다.
+ * - maxSize 초과 시 dropPolicy에 따라 처리 ('oldest' | 'newest' | 'reject')
+ * - 메시지별 TTL이 지나면 전송하지 않고 'expired'
+ * - persist 설정 시 sessionStorage에 저장해 새로고침 후에도 전송 (바이너리 본문 제외)
+ *   탭마다 따로 저장하고 scope(사용자)별로 키를 나눠, 다른 탭이나 다른 계정으로 전송되지 않게 합니다.
+ */
+
+import { sessionStore } from '../utils/storage';
+import type { StompHeaders } from './stomp';
+
+/**
+ * Delivery status
+ * - 'queued': 연결 대기 중
+ * - 'sent': 전송됨, RECEIPT 대기 중 (receipt: false면 최종 상태)
+ * - 'receipted': 서버가 RECEIPT로 수신 확인
+ * - 'expired': TTL 초과로 전송하지 않음
+ * - 'dropped': 큐가 가득 차거나 clear()로 버려짐
+ * - 'failed': RECEIPT 전에 연결이 끊기거나 서버 ERROR, receiptTimeout 초과
+ */
+export type DeliveryStatus = 'queued' | 'sent' | 'receipted' | 'expired' | 'dropped' | 'failed';
+
+export type DropPolicy = 'oldest' | 'newest' | 'reject';
+
+export interface OutboundQueueConfig {
+  /** Max queued messages (default: 100) */
+  maxSize?: number;
+  /** What to do when full (default: 'oldest') */
+  dropPolicy?: DropPolicy;
+  /** Default time-to-live in ms while queued (default: 없음) */
+  ttl?: number;
+  /** Persist queued messages (true = 'realtime:outbox', string = storage key) */
+  persist?: boolean | string;
+  /** Storage key scope, e.g. user id (`${key}:${scope}`) */
+  scope?: string;
+}
+
+export interface OutboundMessageOptions {
+  headers?: StompHeaders;
+  contentType?: string;
+  receipt?: boolean;
+}
+
+/** Handle returned by WebSocketClient.send */
+export interface MessageHandle {
+  readonly id: string;
+  readonly destination: string;
+  readonly status: DeliveryStatus;
+  /** Resolves when receipted (receipt: false면 sent), rejects when expired / dropped / failed */
+  readonly delivered: Promise<void>;
+  /** Listen to status changes (returns unsubscribe) */
+  onStatusChange(listener: (status: DeliveryStatus) => void): () => void;
+}
+
+/** Snapshot for UI (usePendingMessages) */
+export interface PendingMessage {
+  id: string;
+  destination: string;
+  body: unknown;
+  status: DeliveryStatus;
+  createdAt: number;
+}
+
+interface PersistedMessage {
+  id: string;
+  destination: string;
+  body: unknown;
+  options: OutboundMessageOptions;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+const DEFAULT_MAX_SIZE = 100;
+const DEFAULT_PERSIST_KEY = 'realtime:outbox';
+const FINAL_STATUSES: DeliveryStatus[] = ['receipted', 'expired', 'dropped', 'failed'];
+
+let messageCounter = 0;
+
+export class OutboundMessage implements MessageHandle {
+  readonly id: string;
+  readonly destination: string;
+  readonly body: unknown;
+  readonly options: OutboundMessageOptions;
+  readonly createdAt: number;
+  readonly expiresAt: number | null;
+  readonly delivered: Promise<void>;
+
+  private currentStatus: DeliveryStatus = 'queued';
+  private listeners = new Set<(status: DeliveryStatus) => void>();
+  private resolve!: () => void;
+  private reject!: (error: Error) => void;
+
+  constructor(
+    destination: string,
+    body: unknown,
+    options: OutboundMessageOptions = {},
+    ttl?: number,
+    restored?: Pick<PersistedMessage, 'id' | 'createdAt' | 'expiresAt'>
+  ) {
+    this.id = restored?.id ?? `msg-${Date.now()}-${++messageCounter}`;
+    this.destination = destination;
+    this.body = body;
+    this.options = options;
+    this.createdAt = restored?.createdAt ?? Date.now();
+    this.expiresAt = restored ? restored.expiresAt : ttl ? this.createdAt + ttl : null;
+    this.delivered = new Promise<void>((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+    // 결과를 기다리지 않는 호출에서 unhandled rejection 방지
+    this.delivered.catch(() => {});
+  }
+
+  get status(): DeliveryStatus {
+    return this.currentStatus;
+  }
+
+  get isExpired(): boolean {
+    return this.expiresAt !== null && Date.now() >= this.expiresAt;
+  }
+
+  get isBinary(): boolean {
+    return this.body instanceof Uint8Array || this.body instanceof ArrayBuffer;
+  }
+
+  onStatusChange(listener: (status: DeliveryStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Used by WebSocketClient / OutboundQueue */
+  updateStatus(status: DeliveryStatus, error?: Error): void {
+    if (FINAL_STATUSES.includes(this.currentStatus) || this.currentStatus === status) return;
+
+    this.currentStatus = status;
+    if (status === 'receipted' || (status === 'sent' && this.options.receipt === false)) {
+      this.resolve();
+    } else if (FINAL_STATUSES.includes(status)) {
+      this.reject(error ?? new Error(`Message ${status}`));
+    }
+    this.listeners.forEach((listener) => listener(status));
+  }
+
+  toSnapshot(): PendingMessage {
+    return {
+      id: this.id,
+      destination: this.destination,
+      body: this.body,
+      status: this.currentStatus,
+      createdAt: this.createdAt,
+    };
+  }
+}
+
+export class OutboundQueue {
+  private config: OutboundQueueConfig;
+  private messages: OutboundMessage[] = [];
+  private expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private persistKey: string | null;
+  private onChange: () => void;
+
+  constructor(config: OutboundQueueConfig = {}, onChange: () => void = () => {}) {
+    this.config = config;
+    this.onChange = onChange;
+    this.persistKey = this.resolvePersistKey(config.scope);
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  get defaultTtl(): number | undefined {
+    return this.config.ttl;
+  }
+
+  list(): readonly OutboundMessage[] {
+    return this.messages;
+  }
+
+  /**
+   * Add a message (큐가 가득 차면 dropPolicy 적용, 'reject'는 에러)
+   */
+  enqueue(message: OutboundMessage): void {
+    const { maxSize = DEFAULT_MAX_SIZE, dropPolicy = 'oldest' } = this.config;
+
+    if (this.messages.length >= maxSize) {
+      if (dropPolicy === 'reject') {
+        throw new Error(`Outbound queue is full (max ${maxSize})`);
+      }
+      if (dropPolicy === 'newest') {
+        message.updateStatus('dropped', new Error('Outbound queue is full'));
+        return;
+      }
+      const oldest = this.messages.shift()!;
+      this.clearExpiry(oldest);
+      oldest.updateStatus('dropped', new Error('Outbound queue is full'));
+    }
+
+    this.messages.push(message);
+    this.scheduleExpiry(message);
+    this.changed();
+  }
+
+  /**
+   * Put sent-but-not-receipted messages back at the front (재연결 후 다시 전송)
+   * 크기 제한은 적용하지 않습니다.
+   */
+  requeue(messages: OutboundMessage[]): void {
+    if (messages.length === 0) return;
+
+    messages.forEach((message) => {
+      message.updateStatus('queued');
+      this.scheduleExpiry(message);
+    });
+    this.messages = [...messages, ...this.messages];
+    this.changed();
+  }
+
+  /**
+   * Take all messages for sending (만료된 메시지는 'expired' 처리 후 제외)
+   */
+  drain(): OutboundMessage[] {
+    const messages = this.messages;
+    this.messages = [];
+    messages.forEach((message) => this.clearExpiry(message));
+
+    const sendable = messages.filter((message) => {
+      if (!message.isExpired) return true;
+      message.updateStatus('expired');
+      return false;
+    });
+    this.changed();
+    return sendable;
+  }
+
+  /**
+   * Load persisted messages (새로고침 전에 보내지 못한 메시지)
+   */
+  restore(): OutboundMessage[] {
+    if (!this.persistKey) return [];
+
+    const persisted = sessionStore.get<PersistedMessage[]>(this.persistKey, []) ?? [];
+    const restored = persisted
+      .map((item) => new OutboundMessage(item.destination, item.body, item.options, undefined, item))
+      .filter((message) => !message.isExpired);
+
+    this.messages = [...restored, ...this.messages];
+    restored.forEach((message) => this.scheduleExpiry(message));
+    this.changed();
+    return restored;
+  }
+
+  /**
+   * Switch the storage scope (e.g., 로그인한 사용자) and load its persisted messages
+   * 이전 scope의 메시지는 먼저 clear()로 비워야 새 scope로 옮겨지지 않습니다.
+   */
+  setScope(scope?: string): OutboundMessage[] {
+    const key = this.resolvePersistKey(scope);
+    if (key === this.persistKey) return [];
+
+    this.persistKey = key;
+    return this.restore();
+  }
+
+  /**
+   * Drop all queued messages and remove persisted ones (e.g., 로그아웃)
+   */
+  clear(): void {
+    const messages = this.messages;
+    this.messages = [];
+    messages.forEach((message) => {
+      this.clearExpiry(message);
+      message.updateStatus('dropped', new Error('Outbound queue cleared'));
+    });
+    this.changed();
+  }
+
+  private resolvePersistKey(scope?: string): string | null {
+    if (!this.config.persist) return null;
+
+    const key = typeof this.config.persist === 'string' ? this.config.persist : DEFAULT_PERSIST_KEY;
+    return scope ? `${key}:${scope}` : key;
+  }
+
+  private scheduleExpiry(message: OutboundMessage): void {
+    if (message.expiresAt === null) return;
+
+    const timer = setTimeout(() => {
+      this.expiryTimers.delete(message.id);
+      this.messages = this.messages.filter((item) => item !== message);
+      message.updateStatus('expired');
+      this.changed();
+    }, Math.max(0, message.expiresAt - Date.now()));
+    this.expiryTimers.set(message.id, timer);
+  }
+
+  private clearExpiry(message: OutboundMessage): void {
+    const timer = this.expiryTimers.get(message.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(message.id);
+    }
+  }
+
+  private changed(): void {
+    if (this.persistKey) {
+      const persisted: PersistedMessage[] = this.messages
+        .filter((message) => !message.isBinary)
+        .map(({ id, destination, body, options, createdAt, expiresAt }) => ({
+          id,
+          destination,
+          body,
+          options,
+          createdAt,
+          expiresAt,
+        }));
+
+      if (persisted.length > 0) {
+        sessionStore.set(this.persistKey, persisted);
+      } else {
+        sessionStore.remove(this.persistKey);
+      }
+    }
+    this.onChange();
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFrame, escapeHeaderValue, frameBodyText, StompDecoder, unescapeHeaderValue } from './stomp';
+
+describe('STOMP header escaping', () => {
+  it('특수 문자 이스케이프 왕복', () => {
+    const value = 'a:b\\c\nd\re';
+    expect(escapeHeaderValue(value)).toBe('a\\cb\\\\c\\nd\\re');
+    expect(unescapeHeaderValue(escapeHeaderValue(value))).toBe(value);
+  });
+
+  it('정의되지 않은 이스케이프는 에러', () => {
+    expect(() => unescapeHeaderValue('a\\tb')).toThrow();
+  });
+});
+
+describe('encodeFrame', () => {
+  it('텍스트 본문에 바이트 단위 content-length 추가', () => {
+    expect(encodeFrame({ command: 'SEND', headers: { destination: '/app/chat' }, body: '한글' })).toBe(
+      'SEND\ndestination:/app/chat\ncontent-length:6\n\n한글\0'
+    );
+  });
+
+  it('CONNECT 프레임 헤더는 이스케이프하지 않음', () => {
+    expect(encodeFrame({ command: 'CONNECT', headers: { host: 'a:b' } })).toBe('CONNECT\nhost:a:b\n\n\0');
+  });
+
+  it('바이너리 본문은 Uint8Array로 인코딩', () => {
+    const frame = encodeFrame({ command: 'SEND', headers: {}, body: new Uint8Array([1, 0, 2]) });
+
+    expect(frame).toBeInstanceOf(Uint8Array);
+    const [decoded] = new StompDecoder().push(frame as Uint8Array);
+    expect(Array.from(decoded.body)).toEqual([1, 0, 2]);
+  });
+});
+
+describe('StompDecoder', () => {
+  it('한 메시지의 여러 프레임과 heart-beat 처리', () => {
+    const frames = new StompDecoder().push(
+      '\nRECEIPT\nreceipt-id:r-1\n\n\0\r\nMESSAGE\nsubscription:sub-1\nmessage-id:a\\cb\n\n{"id":1}\0\n'
+    );
+
+    expect(frames.map((frame) => frame.command)).toEqual(['RECEIPT', 'MESSAGE']);
+    expect(frames[0].headers).toEqual({ 'receipt-id': 'r-1' });
+    expect(frames[1].headers['message-id']).toBe('a:b');
+    expect(frameBodyText(frames[1])).toBe('{"id":1}');
+  });
+
+  it('여러 메시지에 나뉜 프레임은 완성될 때까지 보관', () => {
+    const decoder = new StompDecoder();
+
+    expect(decoder.push('MESSAGE\ncontent-length:5\n\nhe')).toEqual([]);
+    const [frame] = decoder.push('llo\0');
+    expect(frameBodyText(frame)).toBe('hello');
+  });
+
+  it('content-length가 있으면 본문 안의 NUL 허용', () => {
+    const [frame] = new StompDecoder().push('MESSAGE\ncontent-length:3\n\na\0b\0');
+    expect(Array.from(frame.body)).toEqual([97, 0, 98]);
+  });
+
+  it('중복 헤더는 첫 번째 값 사용, CRLF 줄바꿈 지원', () => {
+    const [frame] = new StompDecoder().push('MESSAGE\r\nfoo:first\r\nfoo:second\r\n\r\nbody\0');
+    expect(frame.headers.foo).toBe('first');
+    expect(frameBodyText(frame)).toBe('body');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * STOMP 1.2 Frame Codec
+ * https://stomp.github.io/stomp-specification-1.2.html
+ *
+ * - 헤더 이스케이프 (\\ \n \r \c), CONNECT/CONNECTED 프레임은 제외
+ * - content-length 기반 본문 (NUL 바이트를 포함한 바이너리 본문 지원)
+ * - 하나의 WebSocket 메시지에 여러 프레임, 여러 메시지에 나뉜 프레임 처리
+ * - 프레임 사이의 EOL은 heart-beat로 무시
+ */
+
+export type StompCommand =
+  // Client frames
+  | 'CONNECT'
+  | 'STOMP'
+  | 'SEND'
+  | 'SUBSCRIBE'
+  | 'UNSUBSCRIBE'
+  | 'ACK'
+  | 'NACK'
+  | 'BEGIN'
+  | 'COMMIT'
+  | 'ABORT'
+  | 'DISCONNECT'
+  // Server frames
+  | 'CONNECTED'
+  | 'MESSAGE'
+  | 'RECEIPT'
+  | 'ERROR';
+
+export type StompHeaders = Record<string, string>;
+
+export interface StompFrame {
+  command: StompCommand;
+  headers: StompHeaders;
+  /** Raw body bytes */
+  body: Uint8Array;
+}
+
+export interface OutgoingStompFrame {
+  command: StompCommand;
+  headers?: StompHeaders;
+  body?: string | Uint8Array;
+}
+
+const NULL = 0;
+const LF = 10;
+const CR = 13;
+
+// CONNECT / CONNECTED 프레임의 헤더는 이스케이프하지 않음 (1.0 호환)
+const UNESCAPED_COMMANDS = new Set<string>(['CONNECT', 'STOMP', 'CONNECTED']);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function escapeHeaderValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n')
+    .replace(/:/g, '\\c');
+}
+
+export function unescapeHeaderValue(value: string): string {
+  return value.replace(/\\(.?)/g, (_, char: string) => {
+    switch (char) {
+      case '\\': return '\\';
+      case 'r': return '\r';
+      case 'n': return '\n';
+      case 'c': return ':';
+      default:
+        throw new Error(`Invalid STOMP header escape: \\${char}`);
+    }
+  });
+}
+
+/**
+ * Encode a frame
+ * 문자열 본문은 text 프레임(string), 바이너리 본문은 binary 프레임(Uint8Array)으로 반환합니다.
+ */
+export function encodeFrame(frame: OutgoingStompFrame): string | Uint8Array {
+  const escape = UNESCAPED_COMMANDS.has(frame.command)
+    ? (value: string) => value
+    : escapeHeaderValue;
+  const body = frame.body ?? '';
+  const bodyBytes = typeof body === 'string' ? encoder.encode(body) : body;
+  const headers: StompHeaders = { ...frame.headers };
+
+  if (bodyBytes.length > 0) {
+    headers['content-length'] = String(bodyBytes.length);
+  }
+
+  let head = frame.command + '\n';
+  for (const [key, value] of Object.entries(headers)) {
+    head += `${escape(key)}:${escape(value)}\n`;
+  }
+  head += '\n';
+
+  if (typeof body === 'string') {
+    return head + body + '\0';
+  }
+
+  const headBytes = encoder.encode(head);
+  const bytes = new Uint8Array(headBytes.length + body.length + 1);
+  bytes.set(headBytes, 0);
+  bytes.set(body, headBytes.length);
+  bytes[bytes.length - 1] = NULL;
+  return bytes;
+}
+
+/**
+ * Decode body as UTF-8 text
+ */
+export function frameBodyText(frame: StompFrame): string {
+  return decoder.decode(frame.body);
+}
+
+/**
+ * Streaming STOMP decoder
+ * WebSocket 메시지를 push하면 완성된 프레임 목록을 반환하고, 미완성 프레임은 다음 메시지까지 보관합니다.
+ */
+export class StompDecoder {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  push(data: string | ArrayBuffer | Uint8Array): StompFrame[] {
+    const chunk =
+      typeof data === 'string' ? encoder.encode(data)
+      : data instanceof Uint8Array ? data
+      : new Uint8Array(data);
+    this.buffer = this.buffer.length === 0 ? chunk : concat(this.buffer, chunk);
+
+    const frames: StompFrame[] = [];
+    try {
+      let frame: StompFrame | null;
+      while ((frame = this.readFrame())) {
+        frames.push(frame);
+      }
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+    return frames;
+  }
+
+  reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+
+  private readFrame(): StompFrame | null {
+    const buffer = this.buffer;
+
+    // heart-beat (EOL) 건너뛰기
+    let start = 0;
+    while (start < buffer.length && (buffer[start] === LF || buffer[start] === CR)) start++;
+    if (start === buffer.length) {
+      this.buffer = new Uint8Array(0);
+      return null;
+    }
+
+    const headerEnd = findHeaderEnd(buffer, start);
+    if (headerEnd === null) return null;
+
+    const lines = decoder.decode(buffer.subarray(start, headerEnd.index)).split(/\r?\n/);
+    const command = lines[0] as StompCommand;
+    const escaped = !UNESCAPED_COMMANDS.has(command);
+    const headers: StompHeaders = {};
+
+    for (const line of lines.slice(1)) {
+      const separator = line.indexOf(':');
+      if (separator < 0) throw new Error(`Invalid STOMP header line: ${line}`);
+
+      const key = escaped ? unescapeHeaderValue(line.slice(0, separator)) : line.slice(0, separator);
+      const value = escaped ? unescapeHeaderValue(line.slice(separator + 1)) : line.slice(separator + 1);
+      // 중복 헤더는 첫 번째 값만 사용
+      if (!(key in headers)) headers[key] = value;
+    }
+
+    const bodyStart = headerEnd.bodyStart;
+    let bodyEnd: number;
+
+    if (headers['content-length'] !== undefined) {
+      const length = Number(headers['content-length']);
+      if (!Number.isInteger(length) || length < 0) {
+        throw new Error(`Invalid STOMP content-length: ${headers['content-length']}`);
+      }
+      bodyEnd = bodyStart + length;
+      if (buffer.length <= bodyEnd) return null;
+      if (buffer[bodyEnd] !== NULL) throw new Error('STOMP frame body exceeds content-length');
+    } else {
+      bodyEnd = buffer.indexOf(NULL, bodyStart);
+      if (bodyEnd < 0) return null;
+    }
+
+    const frame: StompFrame = { command, headers, body: buffer.slice(bodyStart, bodyEnd) };
+    this.buffer = buffer.subarray(bodyEnd + 1);
+    return frame;
+  }
+}
+
+// 헤더 끝(빈 줄) 위치: LF LF 또는 CRLF CRLF
+function findHeaderEnd(buffer: Uint8Array, start: number): { index: number; bodyStart: number } | null {
+  for (let i = start; i < buffer.length; i++) {
+    if (buffer[i] !== LF) continue;
+    const next = i + 1;
+    if (buffer[next] === LF) return { index: lineEnd(buffer, i), bodyStart: next + 1 };
+    if (buffer[next] === CR && buffer[next + 1] === LF) {
+      return { index: lineEnd(buffer, i), bodyStart: next + 2 };
+    }
+  }
+  return null;
+}
+
+function lineEnd(buffer: Uint8Array, lfIndex: number): number {
+  return buffer[lfIndex - 1] === CR ? lfIndex - 1 : lfIndex;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
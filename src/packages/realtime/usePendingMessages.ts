@@ -0,0 +1,30 @@
+/**
+ * usePendingMessages - Messages waiting to be sent or receipted
+ */
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useRealtime } from './RealtimeContext';
+import type { PendingMessage } from './outbox';
+
+const EMPTY: PendingMessage[] = [];
+
+/**
+ * Track queued / in-flight messages (e.g., "전송 중" 표시, 오프라인 보관 메시지 목록)
+ * @param destination - Only messages for this destination (미지정 시 전체)
+ */
+export function usePendingMessages(destination?: string): PendingMessage[] {
+  const { client } = useRealtime();
+
+  const subscribe = useCallback(
+    (onChange: () => void) => client?.onPendingChange(onChange) ?? (() => {}),
+    [client]
+  );
+  const getSnapshot = useCallback(() => client?.getPendingMessages() ?? EMPTY, [client]);
+
+  const messages = useSyncExternalStore(subscribe, getSnapshot);
+
+  return useMemo(
+    () => (destination ? messages.filter((message) => message.destination === destination) : messages),
+    [messages, destination]
+  );
+}
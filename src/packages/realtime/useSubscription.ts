@@ -4,12 +4,15 @@
 
 import { useEffect, useCallback, useState, useRef } from 'react';
 import { useRealtime } from './RealtimeContext';
+import type { AckMode, ReceivedMessage } from './WebSocketClient';
 
 interface UseSubscriptionOptions<T> {
   /** Only subscribe when this is true */
   enabled?: boolean;
+  /** STOMP ack mode - 'client' 계열은 onMessage에서 received.ack()/nack() 호출 */
+  ack?: AckMode;
   /** Callback when message received */
-  onMessage?: (message: T) => void;
+  onMessage?: (message: T, received: ReceivedMessage) => void;
   /** Callback when error occurs */
   onError?: (error: Error) => void;
 }
@@ -24,7 +27,7 @@ export function useSubscription<T = unknown>(
   options: UseSubscriptionOptions<T> = {}
 ) {
   const { client, isConnected } = useRealtime();
-  const { enabled = true, onMessage, onError } = options;
+  const { enabled = true, ack = 'auto', onMessage, onError } = options;
 
   const [lastMessage, setLastMessage] = useState<T | null>(null);
   const [messages, setMessages] = useState<T[]>([]);
@@ -36,19 +39,19 @@ export function useSubscription<T = unknown>(
   useEffect(() => {
     if (!client || !isConnected || !enabled) return;
 
-    const handleMessage = (message: unknown) => {
+    const handleMessage = (message: unknown, received: ReceivedMessage) => {
       const typedMessage = message as T;
       setLastMessage(typedMessage);
       setMessages((prev) => [...prev, typedMessage]);
-      onMessageRef.current?.(typedMessage);
+      onMessageRef.current?.(typedMessage, received);
     };
 
-    const unsubscribe = client.subscribe(destination, handleMessage);
+    const unsubscribe = client.subscribe(destination, handleMessage, { ack });
 
     return () => {
       unsubscribe();
     };
-  }, [client, isConnected, enabled, destination]);
+  }, [client, isConnected, enabled, destination, ack]);
 
   // Listen to errors
   useEffect(() => {
@@ -4,6 +4,7 @@
 
 import { useEffect, useCallback, useRef } from 'react';
 import { useRealtime } from './RealtimeContext';
+import type { SendOptions } from './WebSocketClient';
 
 interface UseWebSocketOptions {
   /** Auto connect when hook mounts */
@@ -45,10 +46,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     }
   }, [autoConnect, isConnected, connect, onError]);
 
-  // Send message helper
+  // Send message helper (handle.delivered는 RECEIPT 수신 시 resolve)
   const send = useCallback(
-    (destination: string, body: unknown) => {
-      client?.send(destination, body);
+    (destination: string, body: unknown, sendOptions?: SendOptions) => {
+      if (!client) throw new Error('Realtime client is not available');
+      return client.send(destination, body, sendOptions);
     },
     [client]
   );
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { useAuthStore } from './authStore';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useAuthStore, setTokenStorage } from './authStore';
 
 describe('authStore', () => {
   beforeEach(() => {
@@ -89,4 +89,34 @@ describe('authStore', () => {
       expect(useAuthStore.getState().isAuthenticated).toBe(true);
     });
   });
+
+  describe('setTokenStorage', () => {
+    afterEach(async () => {
+      await setTokenStorage('local');
+    });
+
+    it('memory 모드에서는 토큰을 저장하지 않고 refresh token도 보관하지 않음', async () => {
+      await setTokenStorage('memory');
+      useAuthStore.getState().setTokens('access-token', 'refresh-token');
+
+      const [key, value] = vi.mocked(localStorage.setItem).mock.calls.at(-1)!;
+      expect(key).toBe('auth-storage');
+      expect(JSON.parse(value).state).toEqual({
+        user: null,
+        roles: [],
+        permissions: [],
+        isAuthenticated: true,
+      });
+      expect(useAuthStore.getState().accessToken).toBe('access-token');
+      expect(useAuthStore.getState().refreshToken).toBeNull();
+    });
+
+    it('session 모드에서는 sessionStorage에 저장', async () => {
+      await setTokenStorage('session');
+      useAuthStore.getState().setTokens('access-token', 'refresh-token');
+
+      const stored = JSON.parse(sessionStorage.getItem('auth-storage')!);
+      expect(stored.state).toMatchObject({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+    });
+  });
 });
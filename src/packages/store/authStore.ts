@@ -5,14 +5,40 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import type { User, LoginRequest, LoginResponse } from '../api';
-import { authApi } from '../api';
+import { authApi, decodeJwtPayload, getTokenExpiresAt } from '../api';
+import { extractAccessClaims, mergeAccessClaims, type AccessClaims } from '../auth/permissions';
 
+/**
+ * Token storage strategy
+ * - local: localStorage (기본, 새로고침/새 탭에서 유지)
+ * - session: sessionStorage (탭을 닫으면 삭제)
+ * - memory: access token은 메모리에만 보관, refresh token은 httpOnly 쿠키 (새로고침 시 쿠키로 재발급)
+ */
+export type TokenStorageMode = 'local' | 'session' | 'memory';
+
+let tokenStorageMode: TokenStorageMode = 'local';
+
+// Roles / permissions from JWT claims + user object
+const resolveAccess = (accessToken: string | null, user: User | null): AccessClaims =>
+  mergeAccessClaims(
+    extractAccessClaims(accessToken ? decodeJwtPayload(accessToken) : null),
+    extractAccessClaims(user as Record<string, unknown> | null)
+  );
+
+const createTokenStorage = () =>
+  createJSONStorage(() => (tokenStorageMode === 'session' ? sessionStorage : localStorage));
 
 export interface AuthState {
   // State
   user: User | null;
   accessToken: string | null;
   refreshToken: string | null;
+  /** Access token expiry (ms timestamp, from expiresIn or JWT exp) */
+  accessTokenExpiresAt: number | null;
+  /** Roles from JWT claims / user (ROLE_ prefix removed) */
+  roles: string[];
+  /** Permissions from JWT claims / user */
+  permissions: string[];
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -21,8 +47,8 @@ export interface AuthState {
   login: (request: LoginRequest) => Promise<LoginResponse>;
   logout: () => Promise<void>;
   setUser: (user: User | null) => void;
-  setTokens: (accessToken: string, refreshToken?: string) => void;
-  setAccessToken: (accessToken: string) => void;
+  setTokens: (accessToken: string, refreshToken?: string, expiresIn?: number) => void;
+  setAccessToken: (accessToken: string, expiresIn?: number) => void;
   clearTokens: () => void;
   clearAuth: () => void;
   getAccessToken: () => string | null;
@@ -36,6 +62,9 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       accessToken: null,
       refreshToken: null,
+      accessTokenExpiresAt: null,
+      roles: [],
+      permissions: [],
       isAuthenticated: false,
       isLoading: false,
       error: null,
@@ -47,7 +76,9 @@ export const useAuthStore = create<AuthState>()(
           const response = await authApi.login(request);
           set({
             accessToken: response.accessToken,
-            refreshToken: response.refreshToken,
+            refreshToken: tokenStorageMode === 'memory' ? null : response.refreshToken,
+            accessTokenExpiresAt: getTokenExpiresAt(response.accessToken, response.expiresIn),
+            ...resolveAccess(response.accessToken, get().user),
             isAuthenticated: true,
             isLoading: false,
           });
@@ -74,35 +105,41 @@ export const useAuthStore = create<AuthState>()(
 
       // Set user
       setUser: (user) => {
-        set({ user });
+        set((state) => ({ user, ...resolveAccess(state.accessToken, user) }));
       },
 
       // Set tokens (for token refresh)
-      setTokens: (accessToken, refreshToken) => {
+      setTokens: (accessToken, refreshToken, expiresIn) => {
         set((state) => ({
           accessToken,
-          refreshToken: refreshToken ?? state.refreshToken,
+          refreshToken: tokenStorageMode === 'memory' ? null : refreshToken ?? state.refreshToken,
+          accessTokenExpiresAt: getTokenExpiresAt(accessToken, expiresIn),
+          ...resolveAccess(accessToken, state.user),
           isAuthenticated: true,
           error: null, // 토큰 갱신 성공 시 에러 클리어
         }));
       },
 
       // Set access token only (for silent refresh)
-      setAccessToken: (accessToken) => {
-        set({
+      setAccessToken: (accessToken, expiresIn) => {
+        set((state) => ({
           accessToken,
+          accessTokenExpiresAt: getTokenExpiresAt(accessToken, expiresIn),
+          ...resolveAccess(accessToken, state.user),
           isAuthenticated: true,
           error: null,
-        });
+        }));
       },
 
       // Clear tokens only (keep user info)
       clearTokens: () => {
-        set({
+        set((state) => ({
           accessToken: null,
           refreshToken: null,
+          accessTokenExpiresAt: null,
+          ...resolveAccess(null, state.user),
           isAuthenticated: false,
-        });
+        }));
       },
 
       // Clear all auth state
@@ -111,6 +148,9 @@ export const useAuthStore = create<AuthState>()(
           user: null,
           accessToken: null,
           refreshToken: null,
+          accessTokenExpiresAt: null,
+          roles: [],
+          permissions: [],
           isAuthenticated: false,
           error: null,
         });
@@ -122,19 +162,55 @@ export const useAuthStore = create<AuthState>()(
     }),
     {
       name: 'auth-storage',
-      storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({
-        accessToken: state.accessToken,
-        refreshToken: state.refreshToken,
-        user: state.user,
-        isAuthenticated: state.isAuthenticated,
-      }),
+      storage: createTokenStorage(),
+      // memory 모드에서는 토큰을 저장하지 않음 (로그인 여부만 유지)
+      partialize: (state) =>
+        tokenStorageMode === 'memory'
+          ? {
+              user: state.user,
+              roles: state.roles,
+              permissions: state.permissions,
+              isAuthenticated: state.isAuthenticated,
+            }
+          : {
+              accessToken: state.accessToken,
+              refreshToken: state.refreshToken,
+              accessTokenExpiresAt: state.accessTokenExpiresAt,
+              user: state.user,
+              roles: state.roles,
+              permissions: state.permissions,
+              isAuthenticated: state.isAuthenticated,
+            },
     }
   )
 );
 
+export function getTokenStorage(): TokenStorageMode {
+  return tokenStorageMode;
+}
+
+/**
+ * Change token storage strategy
+ * 이전 저장소의 값은 삭제하고, 새 저장소에 남아있는 값을 복원한 뒤 현재 상태를 옮겨 저장합니다.
+ */
+export async function setTokenStorage(mode: TokenStorageMode): Promise<void> {
+  if (mode === tokenStorageMode) return;
+
+  useAuthStore.persist.clearStorage();
+  tokenStorageMode = mode;
+  useAuthStore.persist.setOptions({ storage: createTokenStorage() });
+  await useAuthStore.persist.rehydrate();
+
+  useAuthStore.setState((state) => ({
+    refreshToken: mode === 'memory' ? null : state.refreshToken,
+  }));
+}
+
 // Selectors for optimized re-renders
 export const selectIsAuthenticated = (state: AuthState) => state.isAuthenticated;
 export const selectUser = (state: AuthState) => state.user;
 export const selectAuthLoading = (state: AuthState) => state.isLoading;
 export const selectAuthError = (state: AuthState) => state.error;
+export const selectAccessTokenExpiresAt = (state: AuthState) => state.accessTokenExpiresAt;
+export const selectRoles = (state: AuthState) => state.roles;
+export const selectPermissions = (state: AuthState) => state.permissions;
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTabChannel, type TabChannel } from '../api';
+import { setTokenStorage, useAuthStore } from './authStore';
+import { syncAuthAcrossTabs, type AuthSyncMessage } from './authSync';
+
+describe('syncAuthAcrossTabs', () => {
+  let stop: () => void;
+  let otherTab: TabChannel<AuthSyncMessage>;
+
+  beforeEach(() => {
+    useAuthStore.getState().clearAuth();
+    stop = syncAuthAcrossTabs('auth-sync-test');
+    otherTab = createTabChannel<AuthSyncMessage>('auth-sync-test');
+  });
+
+  afterEach(() => {
+    stop();
+    otherTab.close();
+  });
+
+  it('토큰 갱신을 다른 탭에 전파', async () => {
+    const listener = vi.fn();
+    otherTab.subscribe(listener);
+
+    useAuthStore.getState().setTokens('access-token', 'refresh-token', 60);
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenCalledWith({
+        type: 'update',
+        state: expect.objectContaining({
+          accessToken: 'access-token',
+          refreshToken: 'refresh-token',
+          isAuthenticated: true,
+        }),
+      })
+    );
+  });
+
+  it('로그아웃을 다른 탭에 전파', async () => {
+    useAuthStore.getState().setTokens('access-token', 'refresh-token');
+    const listener = vi.fn();
+    otherTab.subscribe(listener);
+
+    useAuthStore.getState().clearAuth();
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: 'logout' }));
+  });
+
+  it('다른 탭의 로그인/로그아웃을 반영하고 다시 전파하지 않음', async () => {
+    const listener = vi.fn();
+    otherTab.subscribe(listener);
+
+    otherTab.post({
+      type: 'update',
+      state: {
+        user: null,
+        accessToken: 'remote-token',
+        refreshToken: 'remote-refresh',
+        accessTokenExpiresAt: null,
+        roles: [],
+        permissions: [],
+        isAuthenticated: true,
+      },
+    });
+    await vi.waitFor(() => expect(useAuthStore.getState().accessToken).toBe('remote-token'));
+
+    otherTab.post({ type: 'logout' });
+    await vi.waitFor(() => expect(useAuthStore.getState().isAuthenticated).toBe(false));
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('storage 이벤트 fallback에서는 session 모드의 토큰을 localStorage에 쓰지 않음', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    await setTokenStorage('session');
+    const stopFallback = syncAuthAcrossTabs('auth-sync-fallback');
+
+    try {
+      useAuthStore.getState().setTokens('access-token', 'refresh-token', 60);
+
+      const written = vi
+        .mocked(localStorage.setItem)
+        .mock.calls.filter(([key]) => key === 'cross-tab:auth-sync-fallback');
+      expect(written).toHaveLength(1);
+      expect(written[0][1]).not.toContain('access-token');
+      expect(written[0][1]).not.toContain('refresh-token');
+      expect(JSON.parse(written[0][1]).message).toMatchObject({
+        type: 'update',
+        state: { isAuthenticated: true },
+      });
+    } finally {
+      stopFallback();
+      vi.unstubAllGlobals();
+      await setTokenStorage('local');
+    }
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Auth Sync - Synchronize useAuthStore across browser tabs
+ *
+ * 한 탭의 로그인/토큰 갱신/로그아웃이 다른 모든 탭에 즉시 반영됩니다.
+ * (BroadcastChannel, 미지원 시 storage 이벤트)
+ *
+ * storage 이벤트로 전송하면 메시지가 localStorage에 기록되므로, 'local' 이외의 토큰 저장 모드에서는
+ * 토큰을 빼고 보냅니다. 이때 다른 탭은 자신의 토큰으로 (필요하면 refresh 하여) 계속 동작합니다.
+ */
+
+import { createTabChannel } from '../api';
+import { getTokenStorage, useAuthStore, type AuthState } from './authStore';
+
+type TokenKeys = 'accessToken' | 'refreshToken' | 'accessTokenExpiresAt';
+
+type AuthSnapshot = Pick<AuthState, 'user' | 'roles' | 'permissions' | 'isAuthenticated'> &
+  Partial<Pick<AuthState, TokenKeys>>;
+
+export type AuthSyncMessage =
+  | { type: 'update'; state: AuthSnapshot }
+  | { type: 'logout' };
+
+const SYNC_KEYS: Array<keyof AuthSnapshot> = [
+  'user',
+  'accessToken',
+  'refreshToken',
+  'accessTokenExpiresAt',
+  'roles',
+  'permissions',
+  'isAuthenticated',
+];
+
+const toSnapshot = (state: AuthState, includeTokens: boolean): AuthSnapshot => ({
+  user: state.user,
+  ...(includeTokens && {
+    accessToken: state.accessToken,
+    refreshToken: state.refreshToken,
+    accessTokenExpiresAt: state.accessTokenExpiresAt,
+  }),
+  roles: state.roles,
+  permissions: state.permissions,
+  isAuthenticated: state.isAuthenticated,
+});
+
+/**
+ * Start cross-tab auth sync (returns stop function)
+ */
+export function syncAuthAcrossTabs(channelName: string = 'auth-sync'): () => void {
+  const channel = createTabChannel<AuthSyncMessage>(channelName);
+  // 다른 탭에서 받은 변경은 다시 전파하지 않음
+  let applyingRemote = false;
+
+  const unsubscribeChannel = channel.subscribe((message) => {
+    applyingRemote = true;
+    try {
+      if (message.type === 'logout') {
+        useAuthStore.getState().clearAuth();
+      } else {
+        useAuthStore.setState(message.state);
+      }
+    } finally {
+      applyingRemote = false;
+    }
+  });
+
+  const unsubscribeStore = useAuthStore.subscribe((state, prevState) => {
+    if (applyingRemote) return;
+    if (!SYNC_KEYS.some((key) => state[key] !== prevState[key])) return;
+
+    if (prevState.isAuthenticated && !state.isAuthenticated) {
+      channel.post({ type: 'logout' });
+    } else {
+      // session / memory 모드의 토큰은 localStorage에 남기지 않음
+      const includeTokens = channel.transport === 'broadcast' || getTokenStorage() === 'local';
+      channel.post({ type: 'update', state: toSnapshot(state, includeTokens) });
+    }
+  });
+
+  return () => {
+    unsubscribeChannel();
+    unsubscribeStore();
+    channel.close();
+  };
+}
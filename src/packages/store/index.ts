@@ -9,8 +9,15 @@ export {
   selectUser,
   selectAuthLoading,
   selectAuthError,
+  selectAccessTokenExpiresAt,
+  selectRoles,
+  selectPermissions,
+  getTokenStorage,
+  setTokenStorage,
 } from './authStore';
-export type { AuthState } from './authStore';
+export type { AuthState, TokenStorageMode } from './authStore';
+export { syncAuthAcrossTabs } from './authSync';
+export type { AuthSyncMessage } from './authSync';
 
 // User store
 export {
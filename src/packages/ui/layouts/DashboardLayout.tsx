@@ -6,6 +6,8 @@ import { useState, type ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Menu, X, ChevronLeft, type LucideIcon } from 'lucide-react';
 import { cn } from '../../utils/cn';
+import { useAccessCheck } from '../../hooks/usePermission';
+import type { AccessGuard } from '../../auth/permissions';
 
 export interface NavItem {
   id: string;
@@ -15,6 +17,8 @@ export interface NavItem {
   onClick?: () => void;
   badge?: string | number;
   children?: NavItem[];
+  /** Required role/permission - hidden or disabled when denied */
+  guard?: AccessGuard;
 }
 
 export interface DashboardLayoutProps {
@@ -166,6 +170,8 @@ function SidebarContent({
   onClose?: () => void;
   footer?: ReactNode;
 }) {
+  const canAccess = useAccessCheck();
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -184,14 +190,20 @@ function SidebarContent({
       {/* Navigation */}
       <nav className="flex-1 overflow-y-auto py-4">
         <ul className="space-y-1 px-3">
-          {navItems.map((item) => (
-            <NavItemComponent
-              key={item.id}
-              item={item}
-              isActive={activeItem === item.id}
-              collapsed={collapsed}
-            />
-          ))}
+          {navItems.map((item) => {
+            const allowed = canAccess(item.guard);
+            if (!allowed && item.guard?.whenDenied !== 'disable') return null;
+
+            return (
+              <NavItemComponent
+                key={item.id}
+                item={item}
+                isActive={activeItem === item.id}
+                collapsed={collapsed}
+                disabled={!allowed}
+              />
+            );
+          })}
         </ul>
       </nav>
 
@@ -210,10 +222,12 @@ function NavItemComponent({
   item,
   isActive,
   collapsed,
+  disabled = false,
 }: {
   item: NavItem;
   isActive: boolean;
   collapsed: boolean;
+  disabled?: boolean;
 }) {
   const Icon = item.icon;
 
@@ -221,13 +235,15 @@ function NavItemComponent({
     <li>
       <button
         onClick={item.onClick}
+        disabled={disabled}
         className={cn(
           'w-full flex items-center gap-3 px-3 py-2.5 rounded-xl',
           'text-sm font-medium transition-colors',
           isActive
             ? 'bg-primary-500 text-white'
             : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/10',
-          collapsed && 'justify-center'
+          collapsed && 'justify-center',
+          disabled && 'opacity-40 cursor-not-allowed hover:bg-transparent dark:hover:bg-transparent'
         )}
         title={collapsed ? item.label : undefined}
       >
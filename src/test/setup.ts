@@ -24,6 +24,18 @@ Object.defineProperty(window, 'matchMedia', {
   })),
 });
 
+// jsdom Blob has no text() (blob 에러 응답 본문 파싱)
+if (!Blob.prototype.text) {
+  Blob.prototype.text = function text(this: Blob) {
+    return new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(this);
+    });
+  };
+}
+
 // Reset mocks between tests
 beforeEach(() => {
   vi.clearAllMocks();